@@ -1,16 +1,18 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract CognitiveEnhanceFHE is SepoliaConfig {
     struct EncryptedTestResult {
         uint256 resultId;
+        address owner;
         euint32 encryptedMemoryScore;      // Encrypted memory assessment
         euint32 encryptedAttentionScore;  // Encrypted attention assessment
         euint32 encryptedProcessingScore; // Encrypted processing speed
         euint32 encryptedFlexibilityScore; // Encrypted cognitive flexibility
+        ebool encryptedInRange;            // Whether every submitted score was within MAX_SCORE
         uint256 timestamp;
     }
     
@@ -20,189 +22,799 @@ contract CognitiveEnhanceFHE is SepoliaConfig {
         euint32 encryptedAttentionExercises; // Encrypted attention training regimen
         euint32 encryptedProcessingExercises; // Encrypted processing speed exercises
         euint32 encryptedFlexibilityExercises; // Encrypted flexibility challenges
+        uint256 policyVersion;             // Plan policy the intensities were derived with
     }
     
-    struct DecryptedRecommendation {
-        uint32 memoryTraining;
-        uint32 attentionTraining;
-        uint32 processingTraining;
-        uint32 flexibilityTraining;
-        bool isGenerated;
+    // intensity = base - min(score, 100) * slope / 100, then clamped to [floor, ceiling]
+    struct IntensityCurve {
+        uint32 base;
+        uint32 slope;
+        uint32 floor;
+        uint32 ceiling;
     }
-
+    
+    // How plans turn scores into intensities, with one curve per domain in memory, attention, processing,
+    // flexibility order, and the session rules their progress is held to. Zero session limits mean no limit, and
+    // after every `sessionsPerRestDay` sessions the next one has to wait REST_PERIOD. Published versions never
+    // change, so a plan can always be recomputed from its scores and its policy.
+    struct PlanPolicy {
+        IntensityCurve[4] curves;
+        uint32 minSessions;
+        uint32 maxSessions;
+        uint32 sessionsPerRestDay;
+    }
+    
+    // What a user held when a therapist was granted access: `resultCount` results, then `progressCount` progress
+    // entries, of which the first `shared` have been shared so far. Later handles are shared as they are written.
+    struct HistoryShare {
+        uint256 resultCount;
+        uint256 progressCount;
+        uint256 shared;
+    }
+    
+    // One logged progress value, with the plan's running total and average after it
+    struct ProgressEntry {
+        uint256 planId;
+        uint256 session;                   // 1-based count of entries for the plan
+        euint32 encryptedProgress;
+        euint32 encryptedTotal;
+        euint32 encryptedAverage;
+        uint256 timestamp;
+    }
+    
+    // None only marks unknown plans; Completed, Abandoned and Expired are final
+    enum PlanStatus { None, Pending, Active, Paused, Completed, Abandoned, Expired }
+    
+    // Population averages, in plaintext once the decryption oracle has revealed them
+    struct CohortAverages {
+        uint32 memoryAverage;
+        uint32 attentionAverage;
+        uint32 processingAverage;
+        uint32 flexibilityAverage;
+        uint256 cohortSize;
+        uint256 revealedAt;
+    }
+    
+    // Superseded callbacks arrived after a larger cohort was revealed and were ignored
+    enum DecryptionRequestStatus { None, Pending, Fulfilled, Superseded, Cancelled }
+    
+    // What a request decrypts; the cohort reveal is the only oracle path, and None marks ids never issued
+    enum RequestKind { None, CohortAverages }
+    
+    // One decryption oracle request. `subject` is what it decrypts (the cohort size for CohortAverages) and
+    // `consumed` is set by the first callback for it, so no request id is ever acted on twice.
+    struct DecryptionRequest {
+        RequestKind kind;
+        uint256 subject;
+        address requester;
+        uint256 requestedBlock;
+        uint256 requestedAt;
+        uint256 settledAt;
+        DecryptionRequestStatus status;
+        bool consumed;
+    }
+    
+    // Scores are percentages; larger submissions are stored as MAX_SCORE and flagged in the result
+    uint32 public constant MAX_SCORE = 100;
+    
     uint256 public testResultCount;
     uint256 public trainingPlanCount;
     mapping(uint256 => EncryptedTestResult) public testResults;
     mapping(uint256 => EncryptedTrainingPlan) public trainingPlans;
-    mapping(uint256 => DecryptedRecommendation) public recommendations;
+    mapping(uint256 => uint256) public resultPlanIds;
+    mapping(uint256 => uint256) public planResultIds;
+    
+    // A plan must be finished within PLAN_DURATION of being generated, or of being started
+    uint256 public constant PLAN_DURATION = 90 days;
+    mapping(uint256 => PlanStatus) public planStatuses;
+    mapping(uint256 => uint256) public planExpiresAt;
+    // Latest time each plan entered each status
+    mapping(uint256 => mapping(PlanStatus => uint256)) public planStatusTimestamps;
+    
+    // Version 1 is published on deployment and reproduces the original 100 - score intensities
+    uint32 public constant MAX_CURVE_SLOPE = 1000;
+    uint256 public constant REST_PERIOD = 1 days;
+    mapping(uint256 => PlanPolicy) private planPolicies;
+    mapping(uint256 => uint256) public planPolicyPublishedAt;
+    uint256 public planPolicyCount;
+    uint256 public defaultPlanPolicy;
+    
+    // Encrypted per-domain totals over every stored result, in memory, attention, processing, flexibility order.
+    // Only their averages are ever decrypted. Between two reveals at least MIN_COHORT_SIZE distinct owners must
+    // have submitted, so one sender can't pad the cohort with scores they know and subtract them out to recover
+    // another user's. This counts addresses, so it doesn't stop a sender who controls that many of them.
+    uint256 public constant MIN_COHORT_SIZE = 5;
+    euint32[4] private cohortTotals;
+    uint256 public cohortSize;
+    // Distinct owners who added results since the last request; a round ends with each request
+    uint256 public cohortContributors;
+    uint256 public cohortRound = 1;
+    mapping(address => uint256) private contributorRounds;
+    uint256 public lastCohortRequestSize;
+    uint256 public lastCohortRequestId;
+    // Oracle requests still pending this long after being made may be cancelled by their requester or the admin
+    uint256 public constant DECRYPTION_TIMEOUT = 1 hours;
+    mapping(uint256 => DecryptionRequest) public decryptionRequests;
+    CohortAverages public cohortAverages;
     
+    address public admin;
+    mapping(address => bool) public therapists;
+    mapping(address => mapping(address => bool)) public therapistAccess;
+    mapping(address => address[]) private userTherapists;
+    // Earlier records are shared in pages of at most MAX_SHARE_PAGE, so a long history never outgrows a block
+    uint256 public constant MAX_SHARE_PAGE = 20;
+    mapping(address => mapping(address => HistoryShare)) private historyShares;
+    mapping(address => uint256[]) private userResults;
+    
+    // Per-owner guard so each legacy adapter record is imported at most once
+    mapping(address => mapping(bytes32 => uint256)) private legacyImports;
+    mapping(uint256 => string) public resultLegacyIds;
+    
+    // Latest progress per user; the full history lives in progressHistory
     mapping(address => euint32) private encryptedUserProgress;
-    address[] private userList;
+    mapping(address => ProgressEntry[]) private progressHistory;
+    mapping(uint256 => euint32) private planProgressTotals;
+    mapping(uint256 => uint256) public planSessionCounts;
+    mapping(uint256 => uint256) public planLastSessionAt;
+    
+    // Staircase difficulty: a session averaging RAISE_AT or more steps the level up, one below LOWER_BELOW steps it down
+    uint32 private constant DIFFICULTY_MIN = 1;
+    uint32 private constant DIFFICULTY_MAX = 5;
+    uint32 private constant DIFFICULTY_START = 3;
+    uint32 private constant RAISE_AT = 80;
+    uint32 private constant LOWER_BELOW = 50;
+    uint256 private constant MAX_SESSION_SCORES = 8;
+    mapping(address => euint32) private encryptedSessionAverage;
+    mapping(address => euint32) private encryptedDifficulty;
     
-    mapping(uint256 => uint256) private requestToResultId;
+    event TestSubmitted(uint256 indexed resultId, address indexed owner, uint256 timestamp);
+    event PlanGenerated(uint256 indexed resultId, uint256 indexed planId, uint256 policyVersion);
+    event PlanPolicyPublished(uint256 indexed version, address indexed publisher);
+    event DefaultPlanPolicyChanged(uint256 indexed previousVersion, uint256 indexed newVersion);
+    event PlanStatusChanged(
+        uint256 indexed planId,
+        PlanStatus previous,
+        PlanStatus next,
+        uint256 timestamp,
+        uint256 expiresAt
+    );
+    event ProgressUpdated(uint256 indexed planId, address indexed user, uint256 session, uint256 timestamp);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event TherapistRegistered(address indexed therapist);
+    event TherapistRemoved(address indexed therapist);
+    event TherapistAccessGranted(address indexed user, address indexed therapist);
+    event TherapistAccessRevoked(address indexed user, address indexed therapist);
+    event TherapistHistoryShared(address indexed user, address indexed therapist, uint256 shared, uint256 total);
+    event LegacyRecordImported(address indexed owner, uint256 indexed resultId, string legacyId);
+    event CohortRevealRequested(uint256 indexed requestId, uint256 cohortSize);
+    event CohortAveragesRevealed(uint256 indexed requestId, uint256 cohortSize);
+    event CohortRevealSuperseded(uint256 indexed requestId, uint256 cohortSize);
+    event CohortRevealCancelled(uint256 indexed requestId, address indexed cancelledBy);
+    event SessionScored(address indexed user, uint256 indexed planId, uint256 exerciseCount);
     
-    event TestSubmitted(uint256 indexed resultId, uint256 timestamp);
-    event PlanRequested(uint256 indexed resultId);
-    event PlanGenerated(uint256 indexed resultId);
-    event ProgressUpdated(uint256 indexed planId);
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Not admin");
+        _;
+    }
     
+    // The result owner, or a registered therapist the owner has granted access to
     modifier onlyUser(uint256 resultId) {
-        // Add user authorization logic
+        address owner = testResults[resultId].owner;
+        require(owner != address(0), "Result not found");
+        require(msg.sender == owner || hasTherapistAccess(owner, msg.sender), "Not authorized");
         _;
     }
     
     modifier onlyTherapist() {
-        // Add therapist authorization logic
+        require(therapists[msg.sender], "Not a therapist");
         _;
     }
     
+    constructor() {
+        admin = msg.sender;
+        emit AdminTransferred(address(0), msg.sender);
+        
+        PlanPolicy memory original;
+        for (uint i = 0; i < 4; i++) {
+            original.curves[i] = IntensityCurve({ base: 100, slope: 100, floor: 0, ceiling: 100 });
+        }
+        setDefaultPlanPolicy(publishPlanPolicy(original));
+    }
+    
+    function transferAdmin(address newAdmin) public onlyAdmin {
+        require(newAdmin != address(0), "Invalid address");
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+    
+    function registerTherapist(address therapist) public onlyAdmin {
+        require(therapist != address(0), "Invalid address");
+        therapists[therapist] = true;
+        emit TherapistRegistered(therapist);
+    }
+    
+    // Existing grants stay recorded but stop counting until the therapist is registered again
+    function removeTherapist(address therapist) public onlyAdmin {
+        therapists[therapist] = false;
+        emit TherapistRemoved(therapist);
+    }
+    
+    // Lets a registered therapist decrypt the caller's latest values and every handle written from now on. The
+    // records the caller already holds are shared afterwards, a page at a time, with shareHistoryWithTherapist.
+    function grantTherapistAccess(address therapist) public {
+        require(therapists[therapist], "Not a therapist");
+        require(therapist != msg.sender, "Invalid address");
+        require(!therapistAccess[msg.sender][therapist], "Access already granted");
+        
+        therapistAccess[msg.sender][therapist] = true;
+        userTherapists[msg.sender].push(therapist);
+        historyShares[msg.sender][therapist] = HistoryShare({
+            resultCount: userResults[msg.sender].length,
+            progressCount: progressHistory[msg.sender].length,
+            shared: 0
+        });
+        
+        euint32[3] memory personal = [
+            encryptedUserProgress[msg.sender],
+            encryptedSessionAverage[msg.sender],
+            encryptedDifficulty[msg.sender]
+        ];
+        for (uint i = 0; i < personal.length; i++) {
+            if (FHE.isInitialized(personal[i])) {
+                FHE.allow(personal[i], therapist);
+            }
+        }
+        
+        emit TherapistAccessGranted(msg.sender, therapist);
+    }
+    
+    // Shares the next `count` records the caller held when access was granted: results first, then progress entries
+    function shareHistoryWithTherapist(address therapist, uint256 count) public {
+        require(hasTherapistAccess(msg.sender, therapist), "Not authorized");
+        require(count > 0 && count <= MAX_SHARE_PAGE, "Invalid page size");
+        HistoryShare storage share = historyShares[msg.sender][therapist];
+        uint256 total = share.resultCount + share.progressCount;
+        require(share.shared < total, "History already shared");
+        
+        uint256 end = share.shared + count > total ? total : share.shared + count;
+        for (uint i = share.shared; i < end; i++) {
+            if (i < share.resultCount) {
+                allowResult(userResults[msg.sender][i], therapist);
+            } else {
+                ProgressEntry storage entry = progressHistory[msg.sender][i - share.resultCount];
+                FHE.allow(entry.encryptedProgress, therapist);
+                FHE.allow(entry.encryptedTotal, therapist);
+                FHE.allow(entry.encryptedAverage, therapist);
+            }
+        }
+        share.shared = end;
+        
+        emit TherapistHistoryShared(msg.sender, therapist, end, total);
+    }
+    
+    function getHistoryShare(address user, address therapist) public view returns (uint256 shared, uint256 total) {
+        HistoryShare storage share = historyShares[user][therapist];
+        return (share.shared, share.resultCount + share.progressCount);
+    }
+    
+    // ACL entries are permanent, so revoking only blocks contract calls and grants on new handles
+    function revokeTherapistAccess(address therapist) public {
+        require(therapistAccess[msg.sender][therapist], "Access not granted");
+        
+        therapistAccess[msg.sender][therapist] = false;
+        address[] storage list = userTherapists[msg.sender];
+        for (uint i = 0; i < list.length; i++) {
+            if (list[i] == therapist) {
+                list[i] = list[list.length - 1];
+                list.pop();
+                break;
+            }
+        }
+        
+        emit TherapistAccessRevoked(msg.sender, therapist);
+    }
+    
+    function hasTherapistAccess(address user, address therapist) public view returns (bool) {
+        return therapists[therapist] && therapistAccess[user][therapist];
+    }
+    
+    function getUserTherapists(address user) public view returns (address[] memory) {
+        return userTherapists[user];
+    }
+    
+    function getPatientResults(address user) public view onlyTherapist returns (uint256[] memory) {
+        require(therapistAccess[user][msg.sender], "Not authorized");
+        return userResults[user];
+    }
+    
     function submitTestResults(
-        euint32 encryptedMemoryScore,
-        euint32 encryptedAttentionScore,
-        euint32 encryptedProcessingScore,
-        euint32 encryptedFlexibilityScore
+        externalEuint32 memoryScore,
+        externalEuint32 attentionScore,
+        externalEuint32 processingScore,
+        externalEuint32 flexibilityScore,
+        bytes calldata inputProof
+    ) public {
+        storeTestResult(memoryScore, attentionScore, processingScore, flexibilityScore, inputProof);
+    }
+    
+    // Re-submits a record from the retired key-value adapter under the caller's append-only index
+    function importLegacyRecord(
+        string calldata legacyId,
+        externalEuint32 memoryScore,
+        externalEuint32 attentionScore,
+        externalEuint32 processingScore,
+        externalEuint32 flexibilityScore,
+        bytes calldata inputProof
     ) public {
+        bytes32 key = keccak256(bytes(legacyId));
+        require(legacyImports[msg.sender][key] == 0, "Already imported");
+        
+        uint256 resultId = storeTestResult(memoryScore, attentionScore, processingScore, flexibilityScore, inputProof);
+        legacyImports[msg.sender][key] = resultId;
+        resultLegacyIds[resultId] = legacyId;
+        
+        emit LegacyRecordImported(msg.sender, resultId, legacyId);
+    }
+    
+    function getLegacyImport(address owner, string calldata legacyId) public view returns (uint256) {
+        return legacyImports[owner][keccak256(bytes(legacyId))];
+    }
+    
+    function getOwnerResultCount(address owner) public view returns (uint256) {
+        return userResults[owner].length;
+    }
+    
+    // Ids are only ever appended, so pages stay stable while new results arrive
+    function getOwnerResultIds(address owner, uint256 offset, uint256 limit) public view returns (uint256[] memory) {
+        uint256[] storage ids = userResults[owner];
+        if (offset >= ids.length) {
+            return new uint256[](0);
+        }
+        uint256 end = offset + limit > ids.length ? ids.length : offset + limit;
+        uint256[] memory page = new uint256[](end - offset);
+        for (uint i = offset; i < end; i++) {
+            page[i - offset] = ids[i];
+        }
+        return page;
+    }
+    
+    function storeTestResult(
+        externalEuint32 memoryScore,
+        externalEuint32 attentionScore,
+        externalEuint32 processingScore,
+        externalEuint32 flexibilityScore,
+        bytes calldata inputProof
+    ) private returns (uint256) {
+        // Verify the client-side input proof and bind the handles to this contract
+        euint32[4] memory scores = [
+            FHE.fromExternal(memoryScore, inputProof),
+            FHE.fromExternal(attentionScore, inputProof),
+            FHE.fromExternal(processingScore, inputProof),
+            FHE.fromExternal(flexibilityScore, inputProof)
+        ];
+        
+        // The range check stays encrypted, so an invalid submission can't be rejected outright; it is clamped
+        // instead, which keeps every later computation in range, and the owner can see it was out of range
+        ebool inRange = FHE.asEbool(true);
+        for (uint i = 0; i < 4; i++) {
+            inRange = FHE.and(inRange, FHE.le(scores[i], MAX_SCORE));
+            scores[i] = FHE.min(scores[i], MAX_SCORE);
+        }
+        
         testResultCount += 1;
         uint256 newId = testResultCount;
         
         testResults[newId] = EncryptedTestResult({
             resultId: newId,
-            encryptedMemoryScore: encryptedMemoryScore,
-            encryptedAttentionScore: encryptedAttentionScore,
-            encryptedProcessingScore: encryptedProcessingScore,
-            encryptedFlexibilityScore: encryptedFlexibilityScore,
+            owner: msg.sender,
+            encryptedMemoryScore: scores[0],
+            encryptedAttentionScore: scores[1],
+            encryptedProcessingScore: scores[2],
+            encryptedFlexibilityScore: scores[3],
+            encryptedInRange: inRange,
             timestamp: block.timestamp
         });
         
-        recommendations[newId] = DecryptedRecommendation({
-            memoryTraining: 0,
-            attentionTraining: 0,
-            processingTraining: 0,
-            flexibilityTraining: 0,
-            isGenerated: false
-        });
+        userResults[msg.sender].push(newId);
+        
+        allowResult(newId, address(this));
+        allowForUser(newId, msg.sender);
+        addToCohort(scores);
         
-        emit TestSubmitted(newId, block.timestamp);
+        emit TestSubmitted(newId, msg.sender, block.timestamp);
+        return newId;
     }
     
-    function requestTrainingPlan(uint256 resultId) public onlyUser(resultId) {
-        EncryptedTestResult storage result = testResults[resultId];
-        require(!recommendations[resultId].isGenerated, "Plan already exists");
-        
-        bytes32[] memory ciphertexts = new bytes32[](4);
-        ciphertexts[0] = FHE.toBytes32(result.encryptedMemoryScore);
-        ciphertexts[1] = FHE.toBytes32(result.encryptedAttentionScore);
-        ciphertexts[2] = FHE.toBytes32(result.encryptedProcessingScore);
-        ciphertexts[3] = FHE.toBytes32(result.encryptedFlexibilityScore);
+    // Scores arrive clamped to MAX_SCORE, so one out-of-range input can't skew or overflow the totals
+    function addToCohort(euint32[4] memory scores) private {
+        for (uint i = 0; i < 4; i++) {
+            euint32 score = scores[i];
+            cohortTotals[i] = FHE.isInitialized(cohortTotals[i]) ? FHE.add(cohortTotals[i], score) : score;
+            FHE.allowThis(cohortTotals[i]);
+        }
+        cohortSize += 1;
+        if (contributorRounds[msg.sender] != cohortRound) {
+            contributorRounds[msg.sender] = cohortRound;
+            cohortContributors += 1;
+        }
+    }
+    
+    // Anyone may ask for fresh averages once enough new owners have contributed since the last request. A cancelled
+    // request may also be retried while the cohort is unchanged, since that reveals the same averages it would have.
+    function requestCohortAverages() public returns (uint256) {
+        bool retry = cohortSize == lastCohortRequestSize &&
+            decryptionRequests[lastCohortRequestId].status == DecryptionRequestStatus.Cancelled;
+        require(retry || cohortContributors >= MIN_COHORT_SIZE, "Cohort too small");
         
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.generatePlan.selector);
-        requestToResultId[reqId] = resultId;
+        bytes32[] memory cts = new bytes32[](4);
+        for (uint i = 0; i < 4; i++) {
+            cts[i] = FHE.toBytes32(FHE.div(cohortTotals[i], uint32(cohortSize)));
+        }
+        uint256 requestId = FHE.requestDecryption(cts, this.revealCohortAverages.selector);
+        decryptionRequests[requestId] = DecryptionRequest({
+            kind: RequestKind.CohortAverages,
+            subject: cohortSize,
+            requester: msg.sender,
+            requestedBlock: block.number,
+            requestedAt: block.timestamp,
+            settledAt: 0,
+            status: DecryptionRequestStatus.Pending,
+            consumed: false
+        });
+        lastCohortRequestSize = cohortSize;
+        lastCohortRequestId = requestId;
+        cohortContributors = 0;
+        cohortRound += 1;
         
-        emit PlanRequested(resultId);
+        emit CohortRevealRequested(requestId, cohortSize);
+        return requestId;
     }
     
-    function generatePlan(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) public {
-        uint256 resultId = requestToResultId[requestId];
-        require(resultId != 0, "Invalid request");
-        
+    // Every oracle callback starts here: the id must have been issued as a `kind` request, not answered before, and
+    // the cleartexts signed by the KMS for it
+    function consumeRequest(uint256 requestId, RequestKind kind, bytes memory cleartexts, bytes memory proof)
+        private
+        returns (DecryptionRequest storage request)
+    {
+        request = decryptionRequests[requestId];
+        require(request.kind == kind, "Unknown request");
+        require(!request.consumed, "Request already consumed");
         FHE.checkSignatures(requestId, cleartexts, proof);
+        request.consumed = true;
+    }
+    
+    function revealCohortAverages(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionRequest storage request = consumeRequest(requestId, RequestKind.CohortAverages, cleartexts, proof);
+        // The requester already gave up on a late answer, and may have asked again
+        if (request.status == DecryptionRequestStatus.Cancelled) {
+            return;
+        }
+        uint256 size = request.subject;
+        request.settledAt = block.timestamp;
         
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
-        uint32 memoryScore = results[0];
-        uint32 attentionScore = results[1];
-        uint32 processingScore = results[2];
-        uint32 flexibilityScore = results[3];
+        // A slow callback must not replace averages from a larger cohort
+        if (size < cohortAverages.cohortSize) {
+            request.status = DecryptionRequestStatus.Superseded;
+            emit CohortRevealSuperseded(requestId, size);
+            return;
+        }
+        request.status = DecryptionRequestStatus.Fulfilled;
+        (uint32 memoryAverage, uint32 attentionAverage, uint32 processingAverage, uint32 flexibilityAverage) =
+            abi.decode(cleartexts, (uint32, uint32, uint32, uint32));
+        cohortAverages = CohortAverages({
+            memoryAverage: memoryAverage,
+            attentionAverage: attentionAverage,
+            processingAverage: processingAverage,
+            flexibilityAverage: flexibilityAverage,
+            cohortSize: size,
+            revealedAt: block.timestamp
+        });
+        
+        emit CohortAveragesRevealed(requestId, size);
+    }
+    
+    // Gives up on a request the oracle never answered. A callback that turns up afterwards is ignored.
+    function cancelCohortRequest(uint256 requestId) public {
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.kind == RequestKind.CohortAverages, "Unknown request");
+        require(request.status == DecryptionRequestStatus.Pending, "Request not pending");
+        require(msg.sender == request.requester || msg.sender == admin, "Not authorized");
+        require(block.timestamp >= request.requestedAt + DECRYPTION_TIMEOUT, "Request not timed out");
+        
+        request.status = DecryptionRequestStatus.Cancelled;
+        request.settledAt = block.timestamp;
+        emit CohortRevealCancelled(requestId, msg.sender);
+    }
+    
+    function publishPlanPolicy(PlanPolicy memory policy) public onlyAdmin returns (uint256) {
+        for (uint i = 0; i < 4; i++) {
+            IntensityCurve memory curve = policy.curves[i];
+            require(
+                curve.base <= 100 && curve.slope <= MAX_CURVE_SLOPE && curve.floor <= curve.ceiling && curve.ceiling <= 100,
+                "Invalid curve"
+            );
+        }
+        require(policy.maxSessions == 0 || policy.minSessions <= policy.maxSessions, "Invalid session limits");
         
-        // Simplified personalized plan generation
-        uint32 memoryTraining = calculateTrainingIntensity(memoryScore);
-        uint32 attentionTraining = calculateTrainingIntensity(attentionScore);
-        uint32 processingTraining = calculateTrainingIntensity(processingScore);
-        uint32 flexibilityTraining = calculateTrainingIntensity(flexibilityScore);
+        planPolicyCount += 1;
+        uint256 version = planPolicyCount;
+        planPolicies[version] = policy;
+        planPolicyPublishedAt[version] = block.timestamp;
+        emit PlanPolicyPublished(version, msg.sender);
+        return version;
+    }
+    
+    // Only affects plans requested afterwards
+    function setDefaultPlanPolicy(uint256 version) public onlyAdmin {
+        require(planPolicyPublishedAt[version] != 0, "Unknown policy");
+        emit DefaultPlanPolicyChanged(defaultPlanPolicy, version);
+        defaultPlanPolicy = version;
+    }
+    
+    function getPlanPolicy(uint256 version) public view returns (PlanPolicy memory) {
+        require(planPolicyPublishedAt[version] != 0, "Unknown policy");
+        return planPolicies[version];
+    }
+    
+    function requestTrainingPlan(uint256 resultId) public {
+        requestTrainingPlanWithPolicy(resultId, defaultPlanPolicy);
+    }
+    
+    // Derives the plan from the encrypted scores; neither the scores nor the plan are ever decrypted on-chain
+    function requestTrainingPlanWithPolicy(uint256 resultId, uint256 policyVersion) public onlyUser(resultId) {
+        require(resultPlanIds[resultId] == 0, "Plan already exists");
+        require(planPolicyPublishedAt[policyVersion] != 0, "Unknown policy");
+        EncryptedTestResult storage result = testResults[resultId];
+        IntensityCurve[4] storage curves = planPolicies[policyVersion].curves;
         
         trainingPlanCount += 1;
         uint256 newPlanId = trainingPlanCount;
         
         trainingPlans[newPlanId] = EncryptedTrainingPlan({
             planId: newPlanId,
-            encryptedMemoryExercises: FHE.asEuint32(memoryTraining),
-            encryptedAttentionExercises: FHE.asEuint32(attentionTraining),
-            encryptedProcessingExercises: FHE.asEuint32(processingTraining),
-            encryptedFlexibilityExercises: FHE.asEuint32(flexibilityTraining)
+            encryptedMemoryExercises: calculateTrainingIntensity(result.encryptedMemoryScore, curves[0]),
+            encryptedAttentionExercises: calculateTrainingIntensity(result.encryptedAttentionScore, curves[1]),
+            encryptedProcessingExercises: calculateTrainingIntensity(result.encryptedProcessingScore, curves[2]),
+            encryptedFlexibilityExercises: calculateTrainingIntensity(result.encryptedFlexibilityScore, curves[3]),
+            policyVersion: policyVersion
         });
+        resultPlanIds[resultId] = newPlanId;
+        planResultIds[newPlanId] = resultId;
         
-        recommendations[resultId] = DecryptedRecommendation({
-            memoryTraining: memoryTraining,
-            attentionTraining: attentionTraining,
-            processingTraining: processingTraining,
-            flexibilityTraining: flexibilityTraining,
-            isGenerated: true
-        });
+        allowResult(resultId, address(this));
+        allowForUser(resultId, result.owner);
         
-        emit PlanGenerated(resultId);
+        emit PlanGenerated(resultId, newPlanId, policyVersion);
+        planExpiresAt[newPlanId] = block.timestamp + PLAN_DURATION;
+        setPlanStatus(newPlanId, PlanStatus.Pending);
     }
     
-    function calculateTrainingIntensity(uint32 score) private pure returns (uint32) {
-        // Simplified intensity calculation
-        return 100 - score; // Higher scores need less intensive training
+    // Pending -> Active <-> Paused and Active -> Completed before the deadline; open plans can be abandoned
+    // at any time, and are marked Expired once the deadline has passed
+    function transitionPlan(uint256 planId, PlanStatus next) public {
+        require(testResults[planResultIds[planId]].owner == msg.sender, "Not plan owner");
+        PlanStatus current = planStatuses[planId];
+        require(isAllowedTransition(current, next), "Invalid transition");
+        
+        if (next == PlanStatus.Expired) {
+            require(block.timestamp > planExpiresAt[planId], "Plan not expired");
+        } else if (next != PlanStatus.Abandoned) {
+            require(block.timestamp <= planExpiresAt[planId], "Plan expired");
+        }
+        if (next == PlanStatus.Completed) {
+            uint32 minSessions = planPolicies[trainingPlans[planId].policyVersion].minSessions;
+            require(planSessionCounts[planId] >= minSessions, "Too few sessions");
+        }
+        
+        // Starting restarts the clock, so time spent waiting in Pending isn't lost
+        if (current == PlanStatus.Pending && next == PlanStatus.Active) {
+            planExpiresAt[planId] = block.timestamp + PLAN_DURATION;
+        }
+        setPlanStatus(planId, next);
     }
     
-    function updateProgress(uint256 planId, euint32 encryptedProgress) public onlyUser(planId) {
-        if (FHE.isInitialized(encryptedUserProgress[msg.sender]) == false) {
-            userList.push(msg.sender);
+    function isAllowedTransition(PlanStatus current, PlanStatus next) private pure returns (bool) {
+        bool open = current == PlanStatus.Pending || current == PlanStatus.Active || current == PlanStatus.Paused;
+        if (next == PlanStatus.Abandoned || next == PlanStatus.Expired) {
+            return open;
         }
-        encryptedUserProgress[msg.sender] = encryptedProgress;
-        
-        emit ProgressUpdated(planId);
+        if (next == PlanStatus.Active) {
+            return current == PlanStatus.Pending || current == PlanStatus.Paused;
+        }
+        if (next == PlanStatus.Paused || next == PlanStatus.Completed) {
+            return current == PlanStatus.Active;
+        }
+        return false;
     }
     
-    function getRecommendation(uint256 resultId) public view returns (
-        uint32 memoryTraining,
-        uint32 attentionTraining,
-        uint32 processingTraining,
-        uint32 flexibilityTraining,
-        bool isGenerated
-    ) {
-        DecryptedRecommendation storage r = recommendations[resultId];
-        return (r.memoryTraining, r.attentionTraining, r.processingTraining, r.flexibilityTraining, r.isGenerated);
+    function setPlanStatus(uint256 planId, PlanStatus next) private {
+        PlanStatus previous = planStatuses[planId];
+        planStatuses[planId] = next;
+        planStatusTimestamps[planId][next] = block.timestamp;
+        emit PlanStatusChanged(planId, previous, next, block.timestamp, planExpiresAt[planId]);
     }
     
-    function calculateAdaptiveDifficulty(euint32[] memory performanceScores) public pure returns (euint32) {
-        euint32 total = FHE.asEuint32(0);
-        for (uint i = 0; i < performanceScores.length; i++) {
-            total = FHE.add(total, performanceScores[i]);
+    function isPlanActive(uint256 planId) private view returns (bool) {
+        return planStatuses[planId] == PlanStatus.Active && block.timestamp <= planExpiresAt[planId];
+    }
+    
+    function calculateTrainingIntensity(euint32 score, IntensityCurve memory curve) private returns (euint32) {
+        // Higher scores need less intensive training; stored scores never exceed MAX_SCORE, so neither the product
+        // nor the subtraction can wrap. Steps a curve makes redundant are skipped, as each one costs coprocessor work.
+        euint32 scaled = score;
+        if (curve.slope != 100) {
+            scaled = FHE.div(FHE.mul(scaled, curve.slope), 100);
         }
-        return FHE.div(total, FHE.asEuint32(uint32(performanceScores.length)));
+        if (curve.slope > curve.base) {
+            scaled = FHE.min(scaled, curve.base);
+        }
+        euint32 intensity = FHE.sub(curve.base, scaled);
+        if (curve.ceiling < curve.base) {
+            intensity = FHE.min(intensity, curve.ceiling);
+        }
+        if (curve.floor > 0) {
+            intensity = FHE.max(intensity, curve.floor);
+        }
+        return intensity;
     }
     
-    function requestProgressDecryption() public {
-        euint32 progress = encryptedUserProgress[msg.sender];
-        require(FHE.isInitialized(progress), "No progress data");
+    function updateProgress(
+        uint256 planId,
+        externalEuint32 progress,
+        bytes calldata inputProof
+    ) public {
+        require(testResults[planResultIds[planId]].owner == msg.sender, "Not plan owner");
+        require(isPlanActive(planId), "Plan not active");
+        PlanPolicy storage policy = planPolicies[trainingPlans[planId].policyVersion];
+        uint256 session = planSessionCounts[planId] + 1;
+        require(policy.maxSessions == 0 || session <= policy.maxSessions, "Session limit reached");
+        if (policy.sessionsPerRestDay > 0 && session > 1 && (session - 1) % policy.sessionsPerRestDay == 0) {
+            require(block.timestamp >= planLastSessionAt[planId] + REST_PERIOD, "Rest day required");
+        }
         
-        bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(progress);
+        // Progress is a percentage; larger inputs count as 100 so the running total can't be inflated
+        euint32 encryptedProgress = FHE.min(FHE.fromExternal(progress, inputProof), 100);
+        euint32 total = FHE.isInitialized(planProgressTotals[planId])
+            ? FHE.add(planProgressTotals[planId], encryptedProgress)
+            : encryptedProgress;
+        euint32 average = FHE.div(total, uint32(session));
+        allowForUserAndTherapists(encryptedProgress, msg.sender);
+        allowForUserAndTherapists(total, msg.sender);
+        allowForUserAndTherapists(average, msg.sender);
         
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptProgress.selector);
-        requestToResultId[reqId] = uint256(uint160(msg.sender));
+        planSessionCounts[planId] = session;
+        planLastSessionAt[planId] = block.timestamp;
+        planProgressTotals[planId] = total;
+        progressHistory[msg.sender].push(ProgressEntry({
+            planId: planId,
+            session: session,
+            encryptedProgress: encryptedProgress,
+            encryptedTotal: total,
+            encryptedAverage: average,
+            timestamp: block.timestamp
+        }));
+        
+        encryptedUserProgress[msg.sender] = encryptedProgress;
+        
+        emit ProgressUpdated(planId, msg.sender, session, block.timestamp);
+    }
+    
+    function getProgressHistoryCount(address user) public view returns (uint256) {
+        return progressHistory[user].length;
     }
     
-    function decryptProgress(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
+    // Entries are only ever appended, oldest first, so pages stay stable while new progress arrives
+    function getProgressHistory(address user, uint256 offset, uint256 limit) public view returns (ProgressEntry[] memory) {
+        ProgressEntry[] storage history = progressHistory[user];
+        if (offset >= history.length) {
+            return new ProgressEntry[](0);
+        }
+        uint256 end = offset + limit > history.length ? history.length : offset + limit;
+        ProgressEntry[] memory page = new ProgressEntry[](end - offset);
+        for (uint i = offset; i < end; i++) {
+            page[i - offset] = history[i];
+        }
+        return page;
+    }
+    
+    // One encrypted 0-100 score per exercise of a finished session; the average and the next difficulty stay encrypted
+    function submitSessionScores(
+        uint256 planId,
+        externalEuint32[] calldata scores,
+        bytes calldata inputProof
     ) public {
-        address user = address(uint160(requestToResultId[requestId]));
+        require(testResults[planResultIds[planId]].owner == msg.sender, "Not plan owner");
+        require(isPlanActive(planId), "Plan not active");
+        require(scores.length > 0 && scores.length <= MAX_SESSION_SCORES, "Invalid session size");
         
-        FHE.checkSignatures(requestId, cleartexts, proof);
+        euint32[] memory performanceScores = new euint32[](scores.length);
+        for (uint i = 0; i < scores.length; i++) {
+            performanceScores[i] = FHE.fromExternal(scores[i], inputProof);
+        }
+        
+        euint32 average = averageScores(performanceScores);
+        euint32 difficulty = calculateAdaptiveDifficulty(encryptedDifficulty[msg.sender], average);
+        allowForUserAndTherapists(average, msg.sender);
+        allowForUserAndTherapists(difficulty, msg.sender);
+        encryptedSessionAverage[msg.sender] = average;
+        encryptedDifficulty[msg.sender] = difficulty;
         
-        uint32 progress = abi.decode(cleartexts, (uint32));
-        // Handle decrypted progress data
+        emit SessionScored(msg.sender, planId, scores.length);
     }
     
-    function bytes32ToUint(bytes32 b) private pure returns (uint256) {
-        return uint256(b);
+    // Scores above 100 are clamped so one bad input can't push the average past the scale
+    function averageScores(euint32[] memory performanceScores) private returns (euint32) {
+        euint32 total = FHE.asEuint32(0);
+        for (uint i = 0; i < performanceScores.length; i++) {
+            total = FHE.add(total, FHE.min(performanceScores[i], 100));
+        }
+        return FHE.div(total, uint32(performanceScores.length));
+    }
+    
+    function calculateAdaptiveDifficulty(euint32 current, euint32 average) private returns (euint32) {
+        if (!FHE.isInitialized(current)) {
+            current = FHE.asEuint32(DIFFICULTY_START);
+        }
+        euint32 raised = FHE.min(FHE.add(current, 1), DIFFICULTY_MAX);
+        euint32 lowered = FHE.max(FHE.sub(current, 1), DIFFICULTY_MIN);
+        return FHE.select(
+            FHE.ge(average, RAISE_AT),
+            raised,
+            FHE.select(FHE.lt(average, LOWER_BELOW), lowered, current)
+        );
+    }
+    
+    function getEncryptedSessionAverage(address user) public view returns (euint32) {
+        return encryptedSessionAverage[user];
+    }
+    
+    function getEncryptedDifficulty(address user) public view returns (euint32) {
+        return encryptedDifficulty[user];
+    }
+    
+    // The handle is only usable by the user and their granted therapists, via user decryption
+    function getEncryptedProgress(address user) public view returns (euint32) {
+        return encryptedUserProgress[user];
+    }
+    
+    // Values derived from a user's own activity are readable by the contract, the user and their active therapists
+    function allowForUserAndTherapists(euint32 value, address user) private {
+        FHE.allowThis(value);
+        FHE.allow(value, user);
+        address[] storage list = userTherapists[user];
+        for (uint i = 0; i < list.length; i++) {
+            if (therapists[list[i]]) {
+                FHE.allow(value, list[i]);
+            }
+        }
+    }
+    
+    // Grants `account` the score handles of a result, plus its plan handles once generated
+    function allowResult(uint256 resultId, address account) private {
+        EncryptedTestResult storage result = testResults[resultId];
+        FHE.allow(result.encryptedMemoryScore, account);
+        FHE.allow(result.encryptedAttentionScore, account);
+        FHE.allow(result.encryptedProcessingScore, account);
+        FHE.allow(result.encryptedFlexibilityScore, account);
+        FHE.allow(result.encryptedInRange, account);
+        
+        uint256 planId = resultPlanIds[resultId];
+        if (planId != 0) {
+            EncryptedTrainingPlan storage plan = trainingPlans[planId];
+            FHE.allow(plan.encryptedMemoryExercises, account);
+            FHE.allow(plan.encryptedAttentionExercises, account);
+            FHE.allow(plan.encryptedProcessingExercises, account);
+            FHE.allow(plan.encryptedFlexibilityExercises, account);
+        }
+    }
+    
+    function allowForUser(uint256 resultId, address user) private {
+        allowResult(resultId, user);
+        address[] storage list = userTherapists[user];
+        for (uint i = 0; i < list.length; i++) {
+            if (therapists[list[i]]) {
+                allowResult(resultId, list[i]);
+            }
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+// deploy/frontend-config.ts
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DeployFunction } from "hardhat-deploy/types";
+
+const CONFIG_PATH = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+// Refreshes this chain's contract addresses in the frontend's network registry from what
+// deployments/<network> recorded; RPCs, explorers and FHE endpoints are maintained by hand
+const func: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployments, network } = hre;
+  const chainId = await hre.getChainId();
+  const cognitive = await deployments.get("CognitiveEnhanceFHE");
+  const adapter = await deployments.getOrNull("UniversalAdapter");
+
+  const registry = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf8"));
+  const profile = registry.networks[chainId];
+  if (!profile) {
+    throw new Error(`No profile for chain ${chainId} in ${CONFIG_PATH}; add its RPC and FHE endpoints first`);
+  }
+
+  profile.contracts = {
+    cognitiveEnhance: cognitive.address,
+    legacyAdapter: adapter?.address ?? "",
+  };
+  profile.deployBlocks = {
+    cognitiveEnhance: cognitive.receipt?.blockNumber ?? null,
+    legacyAdapter: adapter?.receipt?.blockNumber ?? null,
+  };
+  profile.deployer = cognitive.receipt?.from ?? profile.deployer;
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(registry, null, 2) + "\n");
+  deployments.log(`Updated the ${profile.name} profile in ${path.relative(process.cwd(), CONFIG_PATH)}`);
+};
+
+export default func;
+func.tags = ["frontend"];
+func.dependencies = ["CognitiveEnhanceFHE"];
+func.runAtTheEnd = true;
+// Only networks the browser can reach over RPC; the in-process network forgets its contracts on exit
+func.skip = async (hre) => !("url" in hre.network.config);
@@ -1,22 +1,122 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  submitAssessment,
+  requestTrainingPlan,
+  updateProgress,
+  transitionPlan,
+  allowedTransitions,
+  effectivePlanStatus,
+  revealTrainingPlan,
+  revealProgress,
+  getPlanPolicy,
+  describePlanPolicy,
+  submitSessionScores,
+  revealDifficulty,
+  listPatients,
+  parseScores,
+  DOMAINS,
+  SCORE_MIN,
+  SCORE_MAX,
+  CognitiveScores,
+  ScoreErrors,
+  ScoreInput,
+  Recommendation,
+  AdaptiveDifficulty,
+  PlanPolicy,
+  PlanStatus,
+  PlanTransition,
+  TestResult
+} from "./cognitive";
+import { LegacyRecord } from "./legacy";
+import { loadReadModel, syncIndex, ReadModel } from "./indexer";
+import { defaultNetwork, NetworkProfile, resolveNetwork, switchWalletNetwork } from "./networks";
+import { isMigratable, migrateLegacyRecords } from "./migration";
+import { notify, updateNotification } from "./notifications";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import TherapistAccessPanel from "./components/TherapistAccessPanel";
+import DataBackupPanel from "./components/DataBackupPanel";
+import ProgressTimeline from "./components/ProgressTimeline";
+import CohortAnalytics from "./components/CohortAnalytics";
+import RpcStatusPanel from "./components/RpcStatusPanel";
+import NotificationCenter from "./components/NotificationCenter";
+import TestBattery from "./battery/TestBattery";
+import ExercisePlayer from "./exercises/ExercisePlayer";
+import { buildDailySession, describeSession, todayKey, DailySession } from "./exercises/engine";
+import {
+  currentStreak,
+  listExerciseResults,
+  markSynced,
+  pendingProgress,
+  ExerciseResult
+} from "./exercises/sessions";
 import "./App.css";
 
 interface TrainingRecord {
   id: string;
+  source: "fhe" | "legacy";
   encryptedData: string;
   timestamp: number;
   owner: string;
   category: string;
-  cognitiveScore: number;
+  cognitiveScore: number | null;
   trainingPlan: string;
-  status: "pending" | "active" | "completed";
+  planId: string | null;
+  // Stored on-chain plan status, used to offer transitions; `status` also reflects a lapsed deadline
+  planStatus: PlanStatus | null;
+  planExpiresAt: number | null;
+  status: Exclude<PlanStatus, "none">;
 }
 
+const fromTestResult = (result: TestResult): TrainingRecord => ({
+  id: result.resultId,
+  source: "fhe",
+  encryptedData: [
+    result.handles.memory,
+    result.handles.attention,
+    result.handles.processing,
+    result.handles.flexibility
+  ].join(""),
+  timestamp: result.timestamp,
+  owner: result.owner,
+  category: "All Domains",
+  cognitiveScore: null,
+  trainingPlan: result.planId ? "FHE Personalized Plan" : "Awaiting plan request",
+  planId: result.planId,
+  planStatus: result.planStatus,
+  planExpiresAt: result.planExpiresAt,
+  status: result.planStatus && result.planExpiresAt !== null
+    ? effectivePlanStatus(result.planStatus, result.planExpiresAt) as TrainingRecord["status"]
+    : "pending"
+});
+
+const fromLegacyRecord = (record: LegacyRecord): TrainingRecord => ({
+  id: record.id,
+  source: "legacy",
+  encryptedData: record.encryptedData,
+  timestamp: record.timestamp,
+  owner: record.owner,
+  category: record.category,
+  cognitiveScore: record.cognitiveScore,
+  trainingPlan: record.trainingPlan,
+  planId: null,
+  planStatus: null,
+  planExpiresAt: null,
+  status: record.status
+});
+
+type AssessmentForm = ScoreInput & { trainingNotes: string };
+
+const emptyAssessment: AssessmentForm = {
+  memory: "",
+  attention: "",
+  processing: "",
+  flexibility: "",
+  trainingNotes: ""
+};
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
@@ -26,31 +126,39 @@ const App: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{
-    visible: boolean;
-    status: "pending" | "success" | "error";
-    message: string;
-  }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState({
-    category: "Memory",
-    cognitiveScore: "",
-    trainingNotes: ""
-  });
+  const [newRecordData, setNewRecordData] = useState<AssessmentForm>(emptyAssessment);
   const [activeTab, setActiveTab] = useState("dashboard");
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState("all");
   const [selectedRecord, setSelectedRecord] = useState<TrainingRecord | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [patients, setPatients] = useState<string[]>([]);
+  const [legacyRecords, setLegacyRecords] = useState<LegacyRecord[]>([]);
+  const [migrating, setMigrating] = useState(false);
+  const [plans, setPlans] = useState<Record<string, Recommendation>>({});
+  const [exerciseResults, setExerciseResults] = useState<Record<string, ExerciseResult[]>>({});
+  const [activeSession, setActiveSession] = useState<DailySession | null>(null);
+  const [progressVersion, setProgressVersion] = useState(0);
+  // undefined until decrypted; null when the wallet has not scored a session yet
+  const [adaptive, setAdaptive] = useState<AdaptiveDifficulty | null | undefined>(undefined);
+  // Undefined until resolved; null when the wallet is on a chain the registry doesn't know
+  const [network, setNetwork] = useState<NetworkProfile | null | undefined>(undefined);
 
   // Calculate statistics
   const activeCount = records.filter(r => r.status === "active").length;
   const completedCount = records.filter(r => r.status === "completed").length;
   const pendingCount = records.filter(r => r.status === "pending").length;
-  const avgScore = records.length > 0 
-    ? Math.round(records.reduce((sum, r) => sum + r.cognitiveScore, 0) / records.length) 
+  const scoredRecords = records.filter(r => r.cognitiveScore !== null);
+  const avgScore = scoredRecords.length > 0 
+    ? Math.round(scoredRecords.reduce((sum, r) => sum + (r.cognitiveScore || 0), 0) / scoredRecords.length) 
     : 0;
 
   // Filter records based on search and category
+  const migratableCount = account ? legacyRecords.filter(r => isMigratable(r, account)).length : 0;
+
+  // New assessments cover every domain; legacy records keep their single category
+  const categories = Array.from(new Set(records.map(r => r.category))).sort();
+
   const filteredRecords = records.filter(record => {
     const matchesSearch = record.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
       record.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -62,9 +170,45 @@ const App: React.FC = () => {
   });
 
   useEffect(() => {
-    loadRecords().finally(() => setLoading(false));
+    // Show what was indexed on a previous visit right away, then catch up from the chain
+    loadReadModel()
+      .then((model) => {
+        if (model.results.length > 0 || model.legacy.length > 0) {
+          showReadModel(model);
+          setLoading(false);
+        }
+      })
+      .catch((e) => console.error("Error reading local index:", e))
+      .finally(() => loadRecords());
   }, []);
 
+  useEffect(() => {
+    // Exercise results live on this device, so only the connected wallet's plans have any
+    const planIds = records
+      .filter(r => r.planId && account && r.owner.toLowerCase() === account.toLowerCase())
+      .map(r => r.planId as string);
+    Promise.all(planIds.map(async (planId) => [planId, await listExerciseResults(planId)] as const))
+      .then((entries) => setExerciseResults(Object.fromEntries(entries)))
+      .catch((e) => console.error("Error loading exercise results:", e));
+  }, [records, account]);
+
+  useEffect(() => {
+    resolveNetwork()
+      .then(setNetwork)
+      .catch(() => setNetwork(null));
+  }, [account]);
+
+  useEffect(() => {
+    setPlans({});
+    setActiveSession(null);
+    setAdaptive(undefined);
+    setPatients([]);
+    if (!account) return;
+    listPatients(account)
+      .then(setPatients)
+      .catch((e) => console.error("Error loading patients:", e));
+  }, [account]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -78,6 +222,8 @@ const App: React.FC = () => {
         const newAcc = accounts[0] || "";
         setAccount(newAcc);
       });
+      // Contracts, the FHE instance and the local index are all per chain, so start over on a switch
+      wallet.provider.on("chainChanged", () => window.location.reload());
     } catch (e) {
       alert("Failed to connect wallet");
     }
@@ -89,59 +235,25 @@ const App: React.FC = () => {
     setProvider(null);
   };
 
+  const showReadModel = ({ results, legacy }: ReadModel) => {
+    // Legacy entries that indexed an on-chain result, or were imported as one, are superseded by it
+    const onChainIds = new Set(results.map(r => r.resultId));
+    const importedIds = new Set(results.map(r => r.legacyId).filter(Boolean));
+    const remaining = legacy.filter(r => (!r.resultId || !onChainIds.has(r.resultId)) && !importedIds.has(r.id));
+    const list: TrainingRecord[] = [
+      ...results.map(fromTestResult),
+      ...remaining.map(fromLegacyRecord)
+    ];
+    
+    list.sort((a, b) => b.timestamp - a.timestamp);
+    setRecords(list);
+    setLegacyRecords(remaining);
+  };
+
   const loadRecords = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("training_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing training keys:", e);
-        }
-      }
-      
-      const list: TrainingRecord[] = [];
-      
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`training_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({
-                id: key,
-                encryptedData: recordData.data,
-                timestamp: recordData.timestamp,
-                owner: recordData.owner,
-                category: recordData.category,
-                cognitiveScore: recordData.cognitiveScore || 0,
-                trainingPlan: recordData.trainingPlan || "Custom FHE Plan",
-                status: recordData.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing record data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading record ${key}:`, e);
-        }
-      }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setRecords(list);
+      showReadModel(await syncIndex());
     } catch (e) {
       console.error("Error loading records:", e);
     } finally {
@@ -150,252 +262,208 @@ const App: React.FC = () => {
     }
   };
 
-  const submitRecord = async () => {
+  const submitRecord = async (scores: CognitiveScores) => {
     if (!provider) { 
       alert("Please connect wallet first"); 
       return; 
     }
     
     setCreating(true);
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Encrypting cognitive data with FHE..."
-    });
+    const notice = notify("pending", "Encrypting cognitive data with FHE...");
     
     try {
-      // Simulate FHE encryption for cognitive data
-      const encryptedData = `FHE-ENCRYPTED-${btoa(JSON.stringify(newRecordData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      // Generate personalized training plan based on score
-      const score = parseInt(newRecordData.cognitiveScore) || 50;
-      let trainingPlan = "";
-      
-      if (score < 40) trainingPlan = "Basic Cognitive Enhancement";
-      else if (score < 70) trainingPlan = "Intermediate Brain Training";
-      else trainingPlan = "Advanced Neural Development";
-
-      const recordData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        category: newRecordData.category,
-        cognitiveScore: score,
-        trainingPlan: trainingPlan,
-        status: "pending"
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `training_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(recordData))
-      );
+      // All four domains are encrypted under one input proof and sent in a single transaction
+      await submitAssessment(scores);
       
-      const keysBytes = await contract.getData("training_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(recordId);
-      
-      await contract.setData(
-        "training_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
-      
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "Cognitive data encrypted and stored securely!"
-      });
+      updateNotification(notice, "success", "Cognitive data encrypted and stored securely!");
+      setShowCreateModal(false);
+      setNewRecordData(emptyAssessment);
       
       await loadRecords();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowCreateModal(false);
-        setNewRecordData({
-          category: "Memory",
-          cognitiveScore: "",
-          trainingNotes: ""
-        });
-      }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
+      const errorMessage = e.code === "INVALID_SCORE"
+        ? "Nothing was submitted. " + e.message
+        : e.message.includes("user rejected transaction")
         ? "Transaction rejected by user"
         : "Submission failed: " + (e.message || "Unknown error");
       
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: errorMessage
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      updateNotification(notice, "error", errorMessage);
     } finally {
       setCreating(false);
     }
   };
 
-  const activateTraining = async (recordId: string) => {
+  const requestPlan = async (resultId: string) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
 
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Activating FHE training plan..."
-    });
+    const notice = notify("pending", "Computing encrypted training plan...");
 
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      await requestTrainingPlan(resultId);
       
-      const recordBytes = await contract.getData(`training_${recordId}`);
-      if (recordBytes.length === 0) {
-        throw new Error("Record not found");
-      }
-      
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      
-      const updatedRecord = {
-        ...recordData,
-        status: "active"
-      };
-      
-      await contract.setData(
-        `training_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedRecord))
-      );
-      
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "Training plan activated with FHE!"
-      });
+      updateNotification(notice, "success", "Encrypted training plan generated");
       
       await loadRecords();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
     } catch (e: any) {
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: "Activation failed: " + (e.message || "Unknown error")
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      updateNotification(notice, "error", "Plan request failed: " + (e.message || "Unknown error"));
     }
   };
 
-  const completeTraining = async (recordId: string) => {
+  const changePlanStatus = async (planId: string, next: PlanTransition) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
 
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Completing FHE training plan..."
-    });
+    const notice = notify("pending", "Updating plan status...");
 
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const recordBytes = await contract.getData(`training_${recordId}`);
-      if (recordBytes.length === 0) {
-        throw new Error("Record not found");
-      }
+      await transitionPlan(planId, next);
       
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
+      updateNotification(notice, "success", `Plan ${next === "active" ? "started" : next}!`);
       
-      const updatedRecord = {
-        ...recordData,
-        status: "completed"
-      };
-      
-      await contract.setData(
-        `training_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedRecord))
-      );
+      await loadRecords();
+      setShowDetailModal(false);
+    } catch (e: any) {
+      updateNotification(notice, "error", "Status change failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const logProgress = async (planId: string, progress: number): Promise<boolean> => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return false;
+    }
+
+    const notice = notify("pending", "Encrypting training progress...");
+
+    try {
+      await updateProgress(planId, progress);
       
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "Training completed with FHE verification!"
-      });
+      updateNotification(notice, "success", "Encrypted progress recorded!");
       
+      setProgressVersion(v => v + 1);
       await loadRecords();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      return true;
     } catch (e: any) {
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: "Completion failed: " + (e.message || "Unknown error")
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      updateNotification(notice, "error", "Progress update failed: " + (e.message || "Unknown error"));
+      return false;
     }
   };
 
-  const checkAvailability = async () => {
+  const revealPlan = async (planId: string): Promise<Recommendation | null> => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return null;
+    }
+
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const isAvailable = await contract.isAvailable();
+      const plan = await revealTrainingPlan(planId);
+      setPlans(current => ({ ...current, [planId]: plan }));
+      return plan;
+    } catch (e: any) {
+      notify("error", "Plan decryption failed: " + (e.message || "Unknown error"));
+      return null;
+    }
+  };
+
+  const revealAdaptive = async (): Promise<AdaptiveDifficulty | null> => {
+    try {
+      const result = await revealDifficulty();
+      setAdaptive(result);
+      return result;
+    } catch (e: any) {
+      notify("error", "Difficulty decryption failed: " + (e.message || "Unknown error"));
+      return null;
+    }
+  };
+
+  const startSession = async (planId: string) => {
+    const plan = plans[planId] ?? await revealPlan(planId);
+    if (!plan) return;
+    const current = adaptive === undefined ? await revealAdaptive() : adaptive;
+    setActiveSession(buildDailySession(planId, plan, current?.difficulty ?? null));
+  };
+
+  const refreshExerciseResults = async (planId: string) => {
+    const results = await listExerciseResults(planId);
+    setExerciseResults(current => ({ ...current, [planId]: results }));
+  };
+
+  // Only completed sessions are scored on-chain, so quitting part-way never moves the difficulty
+  const finishSession = async (planId: string, results: ExerciseResult[]) => {
+    setActiveSession(null);
+    await refreshExerciseResults(planId);
+    if (results.length === 0) return;
+
+    const notice = notify("pending", "Encrypting session scores...");
+
+    try {
+      await submitSessionScores(planId, results.map(r => r.score));
       
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: `FHE Service Status: ${isAvailable ? "Available" : "Unavailable"}`
-      });
+      updateNotification(notice, "success", "Session scored! Decrypting your next difficulty...");
       
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      await revealAdaptive();
+    } catch (e: any) {
+      updateNotification(notice, "error", "Session scoring failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  // Folds every unsynced exercise result into one encrypted progress update
+  const syncExerciseProgress = async (planId: string) => {
+    const results = exerciseResults[planId] || [];
+    const progress = pendingProgress(results);
+    if (progress === null) return;
+
+    if (await logProgress(planId, progress)) {
+      await markSynced(results.filter(r => !r.synced));
+      await refreshExerciseResults(planId);
+    }
+  };
+
+  const revealOwnProgress = async (): Promise<number | null> => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return null;
+    }
+
+    try {
+      return await revealProgress();
     } catch (e: any) {
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: "Availability check failed: " + (e.message || "Unknown error")
+      notify("error", "Progress decryption failed: " + (e.message || "Unknown error"));
+      return null;
+    }
+  };
+
+  const migrateLegacy = async () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setMigrating(true);
+    const notice = notify("pending", "Re-encrypting legacy records...");
+
+    try {
+      const summary = await migrateLegacyRecords(account, (done, total) => {
+        updateNotification(notice, "pending", `Migrating legacy records (${done}/${total})...`);
       });
       
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      updateNotification(
+        notice,
+        "success",
+        `Imported ${summary.imported} legacy records` +
+          (summary.skipped > 0 ? `, ${summary.skipped} without a score skipped` : "")
+      );
+      
+      await loadRecords();
+    } catch (e: any) {
+      updateNotification(notice, "error", "Migration failed: " + (e.message || "Unknown error"));
+    } finally {
+      setMigrating(false);
     }
   };
 
@@ -403,24 +471,32 @@ const App: React.FC = () => {
     return account.toLowerCase() === address.toLowerCase();
   };
 
+  const isPatient = (address: string) => {
+    return patients.some(p => p.toLowerCase() === address.toLowerCase());
+  };
+
+  const latestOwnResult = records
+    .filter(r => r.source === "fhe" && account && isOwner(r.owner))
+    .reduce<TrainingRecord | null>((latest, r) => (!latest || r.timestamp > latest.timestamp ? r : latest), null);
+
   const showRecordDetails = (record: TrainingRecord) => {
     setSelectedRecord(record);
     setShowDetailModal(true);
   };
 
   const renderScoreChart = () => {
-    const scores = records.map(r => r.cognitiveScore);
+    const scores = scoredRecords.map(r => r.cognitiveScore || 0);
     const maxScore = Math.max(...scores, 100);
     
     return (
       <div className="score-chart">
-        {records.slice(0, 5).map((record, index) => (
+        {scoredRecords.slice(0, 5).map((record, index) => (
           <div key={record.id} className="chart-bar-container">
             <div className="chart-label">{record.category.substring(0, 3)}</div>
             <div className="chart-bar-wrapper">
               <div 
                 className="chart-bar"
-                style={{ height: `${(record.cognitiveScore / maxScore) * 100}%` }}
+                style={{ height: `${((record.cognitiveScore || 0) / maxScore) * 100}%` }}
               >
                 <span className="chart-value">{record.cognitiveScore}</span>
               </div>
@@ -450,12 +526,18 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
-          <button 
-            onClick={checkAvailability}
-            className="cyber-button neon-blue"
-          >
-            Check FHE Status
-          </button>
+          {network !== undefined && (
+            network ? (
+              <RpcStatusPanel network={network} />
+            ) : (
+              <button
+                onClick={() => window.ethereum && switchWalletNetwork(window.ethereum).catch((e) => console.error(e))}
+                className="cyber-button neon-red"
+              >
+                Switch to {defaultNetwork().name}
+              </button>
+            )
+          )}
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="cyber-button neon-pink"
@@ -463,6 +545,7 @@ const App: React.FC = () => {
             <div className="add-icon"></div>
             New Assessment
           </button>
+          <NotificationCenter account={account} />
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -535,12 +618,24 @@ const App: React.FC = () => {
             {/* Chart Panel */}
             <div className="panel chart-panel neon-border cyber-card">
               <h3 className="neon-text-blue">Score Distribution</h3>
-              {records.length > 0 ? renderScoreChart() : (
+              {scoredRecords.length > 0 ? renderScoreChart() : (
                 <div className="no-data">
                   <p>No assessment data available</p>
                 </div>
               )}
             </div>
+            
+            {/* Therapist Access Panel */}
+            <TherapistAccessPanel account={account} patients={patients} />
+
+            {/* Data Export & Import */}
+            <DataBackupPanel
+              account={account}
+              onRestored={backup => {
+                showReadModel(backup.model);
+                setPlans(current => ({ ...current, ...backup.plans }));
+              }}
+            />
           </div>
         )}
         
@@ -565,10 +660,9 @@ const App: React.FC = () => {
                   className="cyber-select neon-border"
                 >
                   <option value="all">All Categories</option>
-                  <option value="Memory">Memory</option>
-                  <option value="Attention">Attention</option>
-                  <option value="Problem Solving">Problem Solving</option>
-                  <option value="Processing Speed">Processing Speed</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
                 </select>
                 <button 
                   onClick={loadRecords}
@@ -577,52 +671,110 @@ const App: React.FC = () => {
                 >
                   {isRefreshing ? "Refreshing..." : "Refresh"}
                 </button>
-              </div>
-            </div>
-            
-            <div className="records-grid">
-              {filteredRecords.length === 0 ? (
-                <div className="no-records cyber-card neon-border">
-                  <div className="no-records-icon"></div>
-                  <p>No training plans found</p>
+                {migratableCount > 0 && (
                   <button 
+                    onClick={migrateLegacy}
                     className="cyber-button neon-pink"
-                    onClick={() => setShowCreateModal(true)}
+                    disabled={migrating}
                   >
-                    Start First Assessment
+                    {migrating ? "Migrating..." : `Migrate Legacy (${migratableCount})`}
                   </button>
-                </div>
-              ) : (
-                filteredRecords.map(record => (
-                  <div 
-                    key={record.id} 
-                    className="record-card cyber-card neon-border"
-                    onClick={() => showRecordDetails(record)}
-                  >
-                    <div className="card-header">
-                      <span className="record-id">#{record.id.substring(0, 6)}</span>
-                      <span className={`status-badge ${record.status} neon-${record.status === 'active' ? 'cyan' : record.status === 'completed' ? 'green' : 'yellow'}`}>
-                        {record.status}
-                      </span>
-                    </div>
-                    <div className="card-body">
-                      <h4>{record.category}</h4>
-                      <p className="training-plan">{record.trainingPlan}</p>
-                      <div className="score-display">
-                        <span className="score-label">FHE Score:</span>
-                        <span className="score-value">{record.cognitiveScore}</span>
+                )}
+              </div>
+            </div>
+            
+            {activeSession ? (
+              <div className="cyber-card neon-border">
+                <ExercisePlayer
+                  session={activeSession}
+                  onFinish={(results) => finishSession(activeSession.planId, results)}
+                  onCancel={() => finishSession(activeSession.planId, [])}
+                />
+              </div>
+            ) : (
+              <div className="records-grid">
+                {filteredRecords.length === 0 ? (
+                  <div className="no-records cyber-card neon-border">
+                    <div className="no-records-icon"></div>
+                    <p>No training plans found</p>
+                    <button 
+                      className="cyber-button neon-pink"
+                      onClick={() => setShowCreateModal(true)}
+                    >
+                      Start First Assessment
+                    </button>
+                  </div>
+                ) : (
+                  filteredRecords.map(record => (
+                    <div 
+                      key={record.id} 
+                      className="record-card cyber-card neon-border"
+                      onClick={() => showRecordDetails(record)}
+                    >
+                      <div className="card-header">
+                        <span className="record-id">#{record.id.substring(0, 6)}</span>
+                        <span className={`status-badge ${record.status} neon-${record.status === 'active' ? 'cyan' : record.status === 'completed' ? 'green' : record.status === 'paused' ? 'pink' : 'yellow'}`}>
+                          {record.status}
+                        </span>
+                      </div>
+                      <div className="card-body">
+                        <h4>{record.category}</h4>
+                        <p className="training-plan">
+                          {record.planId && plans[record.planId]
+                            ? describeSession(buildDailySession(record.planId, plans[record.planId]))
+                            : record.trainingPlan}
+                        </p>
+                        <div className="score-display">
+                          <span className="score-label">FHE Score:</span>
+                          <span className="score-value">{record.cognitiveScore ?? "Encrypted"}</span>
+                        </div>
+                      </div>
+                      {record.planId && record.status === "active" && isOwner(record.owner) && (
+                        <div className="card-actions" onClick={(e) => e.stopPropagation()}>
+                          <button 
+                            onClick={() => startSession(record.planId as string)}
+                            className="cyber-button neon-pink"
+                          >
+                            Start Session
+                          </button>
+                          {pendingProgress(exerciseResults[record.planId] || []) !== null && (
+                            <button 
+                              onClick={() => syncExerciseProgress(record.planId as string)}
+                              className="cyber-button neon-green"
+                            >
+                              Sync Progress ({(exerciseResults[record.planId] || []).filter(r => !r.synced).length})
+                            </button>
+                          )}
+                          <span className="exercise-streak">
+                            {adaptive && `Level ${adaptive.difficulty} · `}
+                            Streak: {currentStreak(exerciseResults[record.planId] || [], todayKey())}d
+                          </span>
+                        </div>
+                      )}
+                      <div className="card-footer">
+                        <span className="owner">{record.owner.substring(0, 6)}...{record.owner.substring(38)}</span>
+                        <span className="date">
+                          {new Date(record.timestamp * 1000).toLocaleDateString()}
+                        </span>
                       </div>
                     </div>
-                    <div className="card-footer">
-                      <span className="owner">{record.owner.substring(0, 6)}...{record.owner.substring(38)}</span>
-                      <span className="date">
-                        {new Date(record.timestamp * 1000).toLocaleDateString()}
-                      </span>
-                    </div>
-                  </div>
-                ))
-              )}
+                  ))
+                )}
+              </div>
+            )}
+            
+            {/* Progress Timeline */}
+            {!activeSession && <ProgressTimeline account={account} version={progressVersion} />}
+          </div>
+        )}
+        
+        {/* Cohort Analytics Tab */}
+        {activeTab === "analytics" && (
+          <div className="analytics-section">
+            <div className="section-header">
+              <h2 className="neon-text-green">Population Insights</h2>
             </div>
+            <CohortAnalytics account={account} resultId={latestOwnResult ? latestOwnResult.id : null} />
           </div>
         )}
       </div>
@@ -643,9 +795,13 @@ const App: React.FC = () => {
         <ModalDetail 
           record={selectedRecord}
           onClose={() => setShowDetailModal(false)}
-          onActivate={activateTraining}
-          onComplete={completeTraining}
+          onRequestPlan={requestPlan}
+          onLogProgress={logProgress}
+          onTransition={changePlanStatus}
+          onRevealPlan={revealPlan}
+          onRevealProgress={revealOwnProgress}
           isOwner={isOwner(selectedRecord.owner)}
+          isTherapist={isPatient(selectedRecord.owner)}
         />
       )}
       
@@ -658,22 +814,6 @@ const App: React.FC = () => {
         />
       )}
       
-      {/* Transaction Status Modal */}
-      {transactionStatus.visible && (
-        <div className="transaction-modal">
-          <div className="transaction-content cyber-card neon-border">
-            <div className={`transaction-icon ${transactionStatus.status}`}>
-              {transactionStatus.status === "pending" && <div className="cyber-spinner neon-blue"></div>}
-              {transactionStatus.status === "success" && <div className="check-icon neon-green"></div>}
-              {transactionStatus.status === "error" && <div className="error-icon neon-red"></div>}
-            </div>
-            <div className="transaction-message neon-text-white">
-              {transactionStatus.message}
-            </div>
-          </div>
-        </div>
-      )}
-      
       {/* Footer */}
       <footer className="app-footer neon-border-top">
         <div className="footer-content">
@@ -707,11 +847,11 @@ const App: React.FC = () => {
 };
 
 interface ModalCreateProps {
-  onSubmit: () => void; 
+  onSubmit: (scores: CognitiveScores) => void; 
   onClose: () => void; 
   creating: boolean;
-  recordData: any;
-  setRecordData: (data: any) => void;
+  recordData: AssessmentForm;
+  setRecordData: (data: AssessmentForm) => void;
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -721,21 +861,38 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   recordData,
   setRecordData
 }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+  const [errors, setErrors] = useState<ScoreErrors>({});
+  const [takingBattery, setTakingBattery] = useState(false);
+  const hasScores = DOMAINS.every(({ key }) => recordData[key] !== "");
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const handleBatteryComplete = (scores: CognitiveScores) => {
+    setRecordData({
+      ...recordData,
+      memory: String(scores.memory),
+      attention: String(scores.attention),
+      processing: String(scores.processing),
+      flexibility: String(scores.flexibility)
+    });
+    setErrors({});
+    setTakingBattery(false);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setRecordData({
       ...recordData,
       [name]: value
     });
+    setErrors({ ...errors, [name]: undefined });
   };
 
   const handleSubmit = () => {
-    if (!recordData.cognitiveScore) {
-      alert("Please enter cognitive score");
-      return;
-    }
+    const { scores, errors } = parseScores(recordData);
+    setErrors(errors);
+    if (!scores) return;
     
-    onSubmit();
+    onSubmit(scores);
   };
 
   return (
@@ -749,51 +906,59 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
         <div className="modal-body">
           <div className="fhe-notice-banner neon-cyan">
             <div className="key-icon"></div> 
-            Your cognitive data will be encrypted with FHE for private processing
+            All four domain scores are encrypted together with FHE before leaving your device
           </div>
           
-          <div className="form-grid">
-            <div className="form-group">
-              <label className="neon-text-white">Category</label>
-              <select 
-                name="category"
-                value={recordData.category} 
-                onChange={handleChange}
-                className="cyber-select neon-border"
-              >
-                <option value="Memory">Memory</option>
-                <option value="Attention">Attention</option>
-                <option value="Problem Solving">Problem Solving</option>
-                <option value="Processing Speed">Processing Speed</option>
-              </select>
-            </div>
+          {takingBattery ? (
+            <TestBattery onComplete={handleBatteryComplete} onCancel={() => setTakingBattery(false)} />
+          ) : (
+            <div className="form-grid">
+              <div className="form-group full-width">
+                <button 
+                  onClick={() => setTakingBattery(true)}
+                  className="cyber-button neon-cyan"
+                >
+                  {hasScores ? "Retake Test Battery" : "Start Test Battery"}
+                </button>
+              </div>
             
-            <div className="form-group">
-              <label className="neon-text-white">Cognitive Score *</label>
-              <input 
-                type="number"
-                name="cognitiveScore"
-                value={recordData.cognitiveScore} 
-                onChange={handleChange}
-                placeholder="0-100"
-                min="0"
-                max="100"
-                className="cyber-input neon-border"
-              />
-            </div>
+              {hasErrors && (
+                <div className="form-group full-width form-error-summary neon-text-pink">
+                  Scores must be whole numbers from {SCORE_MIN} to {SCORE_MAX}. Nothing has been encrypted or sent;
+                  retake the battery to replace the invalid scores.
+                </div>
+              )}
+            
+              {DOMAINS.map(({ key, label }) => (
+                <div className="form-group" key={key}>
+                  <label className="neon-text-white">{label} Score *</label>
+                  <input 
+                    type="number"
+                    name={key}
+                    value={recordData[key]} 
+                    readOnly
+                    placeholder="Run the battery"
+                    min={SCORE_MIN}
+                    max={SCORE_MAX}
+                    className={`cyber-input neon-border ${errors[key] ? "invalid" : ""}`}
+                  />
+                  {errors[key] && <span className="form-error neon-text-pink">{errors[key]}</span>}
+                </div>
+              ))}
             
-            <div className="form-group full-width">
-              <label className="neon-text-white">Training Notes</label>
-              <textarea 
-                name="trainingNotes"
-                value={recordData.trainingNotes} 
-                onChange={handleChange}
-                placeholder="Additional observations or notes..." 
-                className="cyber-textarea neon-border"
-                rows={3}
-              />
+              <div className="form-group full-width">
+                <label className="neon-text-white">Training Notes</label>
+                <textarea 
+                  name="trainingNotes"
+                  value={recordData.trainingNotes} 
+                  onChange={handleChange}
+                  placeholder="Additional observations or notes..." 
+                  className="cyber-textarea neon-border"
+                  rows={3}
+                />
+              </div>
             </div>
-          </div>
+          )}
           
           <div className="privacy-notice neon-blue">
             <div className="privacy-icon"></div> 
@@ -810,7 +975,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           </button>
           <button 
             onClick={handleSubmit} 
-            disabled={creating}
+            disabled={creating || takingBattery || hasErrors}
             className="cyber-button neon-pink"
           >
             {creating ? "Encrypting with FHE..." : "Submit Assessment"}
@@ -821,21 +986,87 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   );
 };
 
+const TRANSITION_BUTTONS: Record<PlanTransition, { label: string; className: string }> = {
+  active: { label: "Start Plan", className: "neon-cyan" },
+  paused: { label: "Pause", className: "neon-pink" },
+  completed: { label: "Complete", className: "neon-green" },
+  abandoned: { label: "Abandon", className: "neon-gray" },
+  expired: { label: "Mark Expired", className: "neon-gray" }
+};
+
 interface ModalDetailProps {
   record: TrainingRecord;
   onClose: () => void;
-  onActivate: (id: string) => void;
-  onComplete: (id: string) => void;
+  onRequestPlan: (resultId: string) => void;
+  onLogProgress: (planId: string, progress: number) => void;
+  onTransition: (planId: string, next: PlanTransition) => void;
+  onRevealPlan: (planId: string) => Promise<Recommendation | null>;
+  onRevealProgress: () => Promise<number | null>;
   isOwner: boolean;
+  isTherapist: boolean;
 }
 
 const ModalDetail: React.FC<ModalDetailProps> = ({ 
   record, 
   onClose, 
-  onActivate, 
-  onComplete,
-  isOwner 
+  onRequestPlan, 
+  onLogProgress,
+  onTransition,
+  onRevealPlan,
+  onRevealProgress,
+  isOwner,
+  isTherapist
 }) => {
+  const [progress, setProgress] = useState("");
+  const [plan, setPlan] = useState<Recommendation | null>(null);
+  const [policy, setPolicy] = useState<PlanPolicy | null>(null);
+  const [revealing, setRevealing] = useState(false);
+  const [currentProgress, setCurrentProgress] = useState<number | null | undefined>(undefined);
+  const canAct = isOwner && record.source === "fhe";
+  // Granted therapists may request and reveal plans, but progress stays with the owner
+  const canAccessPlan = (isOwner || isTherapist) && record.source === "fhe";
+  // Lifecycle changes stay with the owner, even for therapists who can request plans
+  const transitions = canAct && record.planId && record.planStatus && record.planExpiresAt !== null
+    ? allowedTransitions(record.planStatus, record.planExpiresAt)
+    : [];
+
+  useEffect(() => {
+    if (!record.planId || record.source !== "fhe") return;
+    getPlanPolicy(record.planId)
+      .then(setPolicy)
+      .catch((e) => console.error("Error loading plan policy:", e));
+  }, [record.planId]);
+
+  const handleRevealPlan = async () => {
+    if (!record.planId) return;
+    setRevealing(true);
+    try {
+      setPlan(await onRevealPlan(record.planId));
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  const handleRevealProgress = async () => {
+    setRevealing(true);
+    try {
+      setCurrentProgress(await onRevealProgress());
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  const handleLogProgress = () => {
+    const value = parseInt(progress);
+    if (Number.isNaN(value) || value < 0 || value > 100) {
+      alert("Please enter progress between 0 and 100");
+      return;
+    }
+    if (record.planId) {
+      onLogProgress(record.planId, value);
+    }
+  };
+
   return (
     <div className="modal-overlay">
       <div className="detail-modal cyber-card neon-border">
@@ -849,7 +1080,7 @@ const ModalDetail: React.FC<ModalDetailProps> = ({
             <h3 className="neon-text-pink">Assessment Information</h3>
             <div className="detail-grid">
               <div className="detail-item">
-                <span className="label">Plan ID:</span>
+                <span className="label">Result ID:</span>
                 <span className="value">#{record.id}</span>
               </div>
               <div className="detail-item">
@@ -858,12 +1089,18 @@ const ModalDetail: React.FC<ModalDetailProps> = ({
               </div>
               <div className="detail-item">
                 <span className="label">Cognitive Score:</span>
-                <span className="value score">{record.cognitiveScore}</span>
+                <span className="value score">{record.cognitiveScore ?? "Encrypted"}</span>
               </div>
               <div className="detail-item">
                 <span className="label">Status:</span>
                 <span className={`value status ${record.status}`}>{record.status}</span>
               </div>
+              {record.planExpiresAt !== null && (
+                <div className="detail-item">
+                  <span className="label">{record.status === "expired" ? "Expired:" : "Expires:"}</span>
+                  <span className="value">{new Date(record.planExpiresAt * 1000).toLocaleDateString()}</span>
+                </div>
+              )}
               <div className="detail-item">
                 <span className="label">Owner:</span>
                 <span className="value">{record.owner}</span>
@@ -881,6 +1118,36 @@ const ModalDetail: React.FC<ModalDetailProps> = ({
             <h3 className="neon-text-blue">FHE Training Plan</h3>
             <div className="training-plan-details">
               <p className="plan-description">{record.trainingPlan}</p>
+              {policy && <p className="plan-policy">{describePlanPolicy(policy)}</p>}
+              {plan && (
+                <div className="detail-grid">
+                  <div className="detail-item">
+                    <span className="label">Memory:</span>
+                    <span className="value">{plan.memoryTraining}</span>
+                  </div>
+                  <div className="detail-item">
+                    <span className="label">Attention:</span>
+                    <span className="value">{plan.attentionTraining}</span>
+                  </div>
+                  <div className="detail-item">
+                    <span className="label">Processing:</span>
+                    <span className="value">{plan.processingTraining}</span>
+                  </div>
+                  <div className="detail-item">
+                    <span className="label">Flexibility:</span>
+                    <span className="value">{plan.flexibilityTraining}</span>
+                  </div>
+                </div>
+              )}
+              {!plan && canAccessPlan && record.planId && (
+                <button 
+                  onClick={handleRevealPlan}
+                  className="cyber-button neon-blue"
+                  disabled={revealing}
+                >
+                  {revealing ? "Decrypting..." : "Reveal Plan"}
+                </button>
+              )}
               <div className="fhe-badge neon-cyan">
                 <span>FHE-Generated Plan</span>
               </div>
@@ -893,27 +1160,71 @@ const ModalDetail: React.FC<ModalDetailProps> = ({
               <code className="encrypted-code">{record.encryptedData.substring(0, 100)}...</code>
               <div className="encryption-note">
                 <div className="lock-icon"></div>
-                <span>Data encrypted using FHE technology</span>
+                <span>
+                  {record.source === "legacy"
+                    ? "Legacy adapter record (read-only)"
+                    : "Data encrypted using FHE technology"}
+                </span>
               </div>
             </div>
           </div>
+          
+          {canAct && record.status === "active" && record.planId && (
+            <div className="detail-section">
+              <h3 className="neon-text-pink">Log Progress</h3>
+              <div className="detail-item">
+                <span className="label">Current Progress:</span>
+                {currentProgress === undefined ? (
+                  <button 
+                    onClick={handleRevealProgress}
+                    className="cyber-button neon-blue"
+                    disabled={revealing}
+                  >
+                    {revealing ? "Decrypting..." : "Reveal Progress"}
+                  </button>
+                ) : (
+                  <span className="value">{currentProgress === null ? "None logged" : `${currentProgress}%`}</span>
+                )}
+              </div>
+              <div className="form-group">
+                <input 
+                  type="number"
+                  value={progress}
+                  onChange={(e) => setProgress(e.target.value)}
+                  placeholder="0-100"
+                  min="0"
+                  max="100"
+                  className="cyber-input neon-border"
+                />
+              </div>
+            </div>
+          )}
         </div>
         
         <div className="modal-footer">
-          {isOwner && record.status === "pending" && (
+          {canAccessPlan && !record.planId && (
             <button 
-              onClick={() => onActivate(record.id)}
+              onClick={() => onRequestPlan(record.id)}
               className="cyber-button neon-cyan"
             >
-              Activate Plan
+              Request Plan
             </button>
           )}
-          {isOwner && record.status === "active" && (
+          {transitions.map(next => (
+            <button 
+              key={next}
+              onClick={() => onTransition(record.planId as string, next)}
+              className={`cyber-button ${TRANSITION_BUTTONS[next].className}`}
+            >
+              {next === "active" && record.planStatus === "paused" ? "Resume" : TRANSITION_BUTTONS[next].label}
+            </button>
+          ))}
+          {canAct && record.status === "active" && record.planId && (
             <button 
-              onClick={() => onComplete(record.id)}
+              onClick={handleLogProgress}
               className="cyber-button neon-green"
             >
-              Mark Complete
+              Log Encrypted Progress
             </button>
           )}
           <button 
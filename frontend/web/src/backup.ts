@@ -0,0 +1,70 @@
+// backup.ts
+import type { Signer } from "ethers";
+import * as sdk from "../../../sdk";
+import type { Recommendation } from "./cognitive";
+import { getCognitiveContractReadOnly, getCognitiveContractWithSigner } from "./contract";
+import { getDecryptionSession, getFheInstance } from "./fhe";
+import { IndexedResult, ReadModel, restoreReadModel } from "./indexer";
+
+export interface BackupFile {
+  fileName: string;
+  text: string;
+}
+
+export interface RestoredBackup {
+  owner: string;
+  resultCount: number;
+  progressCount: number;
+  model: ReadModel;
+  // Decrypted plans from the backup, so they show without asking for a new decryption signature
+  plans: Record<string, Recommendation>;
+}
+
+// Decrypts everything the wallet owns under one session, then asks the wallet to sign the bundle. With a
+// password the signed bundle is sealed with AES-GCM before it leaves this module.
+export async function exportMyData(password?: string): Promise<BackupFile> {
+  const contract = await getCognitiveContractWithSigner();
+  const signer = contract.runner as Signer;
+  const session = await getDecryptionSession(signer, await contract.getAddress());
+  const data = await sdk.createDataExport(contract, await getFheInstance(), { session });
+  const signed = await sdk.signDataExport(signer, data);
+  const bundle = password ? await sdk.encryptDataExport(signed, password) : signed;
+
+  const date = new Date(data.exportedAt * 1000).toISOString().slice(0, 10);
+  return {
+    fileName: `neurofhe-${data.owner.substring(0, 8).toLowerCase()}-${date}${password ? ".sealed" : ""}.json`,
+    text: JSON.stringify(bundle, null, 2)
+  };
+}
+
+const toIndexedResult = (owner: string, result: sdk.ExportedResult): IndexedResult => ({
+  resultId: result.resultId,
+  owner,
+  timestamp: result.timestamp,
+  handles: result.handles,
+  planId: result.plan?.planId ?? null,
+  planStatus: result.plan?.status ?? null,
+  planExpiresAt: result.plan?.expiresAt ?? null,
+  legacyId: result.legacyId,
+  lastProgressBlock: null
+});
+
+// Nothing is restored unless the bundle is signed by its owner and matches this deployment's chain state
+export async function importMyData(text: string, password?: string): Promise<RestoredBackup> {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) throw new Error("CognitiveEnhanceFHE is not deployed on this network");
+
+  const data = await sdk.verifyDataExport(contract, await sdk.parseDataExport(text, password));
+  const plans: Record<string, Recommendation> = {};
+  for (const { plan } of data.results) {
+    if (plan?.recommendation) plans[plan.planId] = plan.recommendation;
+  }
+
+  return {
+    owner: data.owner,
+    resultCount: data.results.length,
+    progressCount: data.progress.length,
+    model: await restoreReadModel(data.results.map((r) => toIndexedResult(data.owner, r))),
+    plans
+  };
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react";
+import { SpanTrial, SPAN_MAX, SPAN_MIN } from "./scoring";
+
+interface DigitSpanProps {
+  onComplete: (trials: SpanTrial[]) => void;
+}
+
+const DIGIT_MS = 800;
+const GAP_MS = 200;
+
+const randomSequence = (length: number) => Array.from({ length }, () => Math.floor(Math.random() * 10));
+
+// Forward digit span: two attempts per length, stopping after two misses at the same length
+export default function DigitSpan({ onComplete }: DigitSpanProps) {
+  const [length, setLength] = useState(SPAN_MIN);
+  const [attempt, setAttempt] = useState(0);
+  const [sequence, setSequence] = useState<number[]>(() => randomSequence(SPAN_MIN));
+  const [shown, setShown] = useState(-1);
+  const [visible, setVisible] = useState(false);
+  const [input, setInput] = useState("");
+  const [trials, setTrials] = useState<SpanTrial[]>([]);
+
+  const presenting = shown < sequence.length;
+
+  useEffect(() => {
+    if (!presenting) return;
+    // Each step shows one digit, blanks the screen, then advances
+    const hide = setTimeout(() => setVisible(false), shown < 0 ? 0 : DIGIT_MS);
+    const next = setTimeout(() => {
+      setShown(i => i + 1);
+      setVisible(true);
+    }, (shown < 0 ? 0 : DIGIT_MS) + GAP_MS);
+    return () => {
+      clearTimeout(hide);
+      clearTimeout(next);
+    };
+  }, [shown, presenting]);
+
+  const nextRound = (nextLength: number, nextAttempt: number) => {
+    setLength(nextLength);
+    setAttempt(nextAttempt);
+    setSequence(randomSequence(nextLength));
+    setShown(-1);
+    setInput("");
+  };
+
+  const handleSubmit = () => {
+    const correct = input === sequence.join("");
+    const updated = [...trials, { length, correct }];
+    setTrials(updated);
+
+    if (correct && length < SPAN_MAX) {
+      nextRound(length + 1, 0);
+    } else if (!correct && attempt === 0) {
+      nextRound(length, 1);
+    } else {
+      onComplete(updated);
+    }
+  };
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Remember the digits in order, then type them back.</p>
+      <div className="battery-stimulus neon-text-cyan">
+        {presenting ? (visible && shown >= 0 ? sequence[shown] : "") : "?"}
+      </div>
+      {!presenting && (
+        <div className="battery-response">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoFocus
+            value={input}
+            onChange={(e) => setInput(e.target.value.replace(/\D/g, ""))}
+            onKeyDown={(e) => e.key === "Enter" && input && handleSubmit()}
+            placeholder={`${length} digits`}
+            className="cyber-input neon-border"
+          />
+          <button onClick={handleSubmit} disabled={!input} className="cyber-button neon-cyan">
+            Submit
+          </button>
+        </div>
+      )}
+      <div className="battery-meta">Span {length} · attempt {attempt + 1} of 2</div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from "react";
+import { NBackTrial } from "./scoring";
+
+interface NBackProps {
+  onComplete: (trials: NBackTrial[]) => void;
+}
+
+const N = 2;
+const LENGTH = 20;
+const TARGET_RATE = 0.3;
+const STIMULUS_MS = 500;
+const TRIAL_MS = 2000;
+const LETTERS = "BCDFGHJKLM";
+
+const buildSequence = (): string[] => {
+  const sequence: string[] = [];
+  for (let i = 0; i < LENGTH; i++) {
+    if (i >= N && Math.random() < TARGET_RATE) {
+      sequence.push(sequence[i - N]);
+    } else {
+      // Avoid accidental targets so the target rate stays as designed
+      const options = LETTERS.split("").filter(l => i < N || l !== sequence[i - N]);
+      sequence.push(options[Math.floor(Math.random() * options.length)]);
+    }
+  }
+  return sequence;
+};
+
+// 2-back: press Match when the letter equals the one shown two steps earlier
+export default function NBack({ onComplete }: NBackProps) {
+  const [sequence] = useState(buildSequence);
+  const [index, setIndex] = useState(0);
+  const [visible, setVisible] = useState(true);
+  const [responded, setResponded] = useState(false);
+  const trials = useRef<NBackTrial[]>([]);
+  const respondedRef = useRef(false);
+
+  useEffect(() => {
+    setVisible(true);
+    setResponded(false);
+    respondedRef.current = false;
+
+    const hide = setTimeout(() => setVisible(false), STIMULUS_MS);
+    const next = setTimeout(() => {
+      trials.current.push({
+        isTarget: index >= N && sequence[index] === sequence[index - N],
+        responded: respondedRef.current
+      });
+      if (index + 1 >= sequence.length) {
+        onComplete(trials.current);
+      } else {
+        setIndex(index + 1);
+      }
+    }, TRIAL_MS);
+
+    return () => {
+      clearTimeout(hide);
+      clearTimeout(next);
+    };
+  }, [index]);
+
+  const handleMatch = () => {
+    respondedRef.current = true;
+    setResponded(true);
+  };
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Press Match when the letter is the same as {N} letters ago.</p>
+      <div className="battery-stimulus neon-text-cyan">{visible ? sequence[index] : "+"}</div>
+      <div className="battery-buttons">
+        <button onClick={handleMatch} disabled={responded} className="cyber-button neon-pink">
+          Match
+        </button>
+      </div>
+      <div className="battery-meta">{index + 1} / {sequence.length}</div>
+    </div>
+  );
+}
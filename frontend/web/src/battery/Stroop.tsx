@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from "react";
+import { StroopTrial } from "./scoring";
+
+interface StroopProps {
+  onComplete: (trials: StroopTrial[]) => void;
+}
+
+const COLORS = [
+  { name: "RED", value: "#ff3355" },
+  { name: "GREEN", value: "#33ff88" },
+  { name: "BLUE", value: "#3399ff" },
+  { name: "YELLOW", value: "#ffee33" }
+];
+const LENGTH = 24;
+const FIXATION_MS = 500;
+
+interface Stimulus {
+  word: number;
+  ink: number;
+}
+
+// Half the trials are congruent; incongruent words never name their own ink
+const buildTrials = (): Stimulus[] =>
+  Array.from({ length: LENGTH }, (_, i) => {
+    const ink = Math.floor(Math.random() * COLORS.length);
+    if (i % 2 === 0) return { word: ink, ink };
+    const offset = 1 + Math.floor(Math.random() * (COLORS.length - 1));
+    return { word: (ink + offset) % COLORS.length, ink };
+  }).sort(() => Math.random() - 0.5);
+
+// Stroop: name the ink colour and ignore the word
+export default function Stroop({ onComplete }: StroopProps) {
+  const [stimuli] = useState(buildTrials);
+  const [index, setIndex] = useState(0);
+  const [fixation, setFixation] = useState(true);
+  const onset = useRef(0);
+  const trials = useRef<StroopTrial[]>([]);
+
+  useEffect(() => {
+    setFixation(true);
+    const show = setTimeout(() => {
+      setFixation(false);
+      onset.current = performance.now();
+    }, FIXATION_MS);
+    return () => clearTimeout(show);
+  }, [index]);
+
+  const handleResponse = (color: number) => {
+    if (fixation) return;
+    const stimulus = stimuli[index];
+    trials.current.push({
+      congruent: stimulus.word === stimulus.ink,
+      correct: color === stimulus.ink,
+      rt: performance.now() - onset.current
+    });
+
+    if (index + 1 >= stimuli.length) {
+      onComplete(trials.current);
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  const stimulus = stimuli[index];
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Click the colour of the ink, not the word.</p>
+      <div className="battery-stimulus" style={{ color: fixation ? undefined : COLORS[stimulus.ink].value }}>
+        {fixation ? "+" : COLORS[stimulus.word].name}
+      </div>
+      <div className="battery-buttons">
+        {COLORS.map((color, i) => (
+          <button
+            key={color.name}
+            onClick={() => handleResponse(i)}
+            disabled={fixation}
+            className="cyber-button neon-border"
+          >
+            {color.name.toLowerCase()}
+          </button>
+        ))}
+      </div>
+      <div className="battery-meta">{index + 1} / {stimuli.length}</div>
+    </div>
+  );
+}
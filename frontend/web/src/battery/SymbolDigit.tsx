@@ -0,0 +1,66 @@
+import React, { useEffect, useRef, useState } from "react";
+import { SymbolDigitTrial, SYMBOL_DIGIT_SECONDS } from "./scoring";
+
+interface SymbolDigitProps {
+  onComplete: (trials: SymbolDigitTrial[]) => void;
+}
+
+const SYMBOLS = ["◆", "▲", "●", "■", "★", "✚", "◐", "⬟", "✖"];
+
+const shuffle = <T,>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5);
+
+// Symbol-digit substitution: enter the digit paired with each symbol for as many items as possible
+export default function SymbolDigit({ onComplete }: SymbolDigitProps) {
+  // key[digit - 1] is the symbol paired with that digit
+  const [key] = useState(() => shuffle(SYMBOLS));
+  const [current, setCurrent] = useState(() => Math.floor(Math.random() * SYMBOLS.length));
+  const [remaining, setRemaining] = useState(SYMBOL_DIGIT_SECONDS);
+  const onset = useRef(performance.now());
+  const trials = useRef<SymbolDigitTrial[]>([]);
+
+  useEffect(() => {
+    const started = performance.now();
+    const tick = setInterval(() => {
+      const left = SYMBOL_DIGIT_SECONDS - Math.floor((performance.now() - started) / 1000);
+      if (left <= 0) {
+        clearInterval(tick);
+        onComplete(trials.current);
+      } else {
+        setRemaining(left);
+      }
+    }, 250);
+    return () => clearInterval(tick);
+  }, []);
+
+  const handleDigit = (digit: number) => {
+    trials.current.push({ correct: digit === current + 1, rt: performance.now() - onset.current });
+
+    let next = current;
+    while (next === current) next = Math.floor(Math.random() * SYMBOLS.length);
+    setCurrent(next);
+    onset.current = performance.now();
+  };
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Use the key to enter the digit for each symbol, as fast as you can.</p>
+      <div className="battery-key">
+        {key.map((symbol, i) => (
+          <div key={symbol} className="battery-key-item neon-border">
+            <span>{symbol}</span>
+            <span>{i + 1}</span>
+          </div>
+        ))}
+      </div>
+      <div className="battery-stimulus neon-text-cyan">{key[current]}</div>
+      <div className="battery-buttons">
+        {key.map((_, i) => (
+          <button key={i} onClick={() => handleDigit(i + 1)} className="cyber-button neon-border">
+            {i + 1}
+          </button>
+        ))}
+      </div>
+      <div className="battery-meta">{remaining}s left</div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from "react";
+import { SwitchTrial } from "./scoring";
+
+interface TaskSwitchingProps {
+  onComplete: (trials: SwitchTrial[]) => void;
+}
+
+type Rule = "parity" | "magnitude";
+
+const LENGTH = 32;
+const SWITCH_RATE = 0.5;
+const FIXATION_MS = 400;
+const DIGITS = [1, 2, 3, 4, 6, 7, 8, 9];
+
+const LABELS: Record<Rule, { cue: string; left: string; right: string }> = {
+  parity: { cue: "ODD or EVEN?", left: "Odd", right: "Even" },
+  magnitude: { cue: "LOW or HIGH?", left: "Low (< 5)", right: "High (> 5)" }
+};
+
+interface Stimulus {
+  rule: Rule;
+  digit: number;
+}
+
+const buildTrials = (): Stimulus[] => {
+  const trials: Stimulus[] = [];
+  let rule: Rule = Math.random() < 0.5 ? "parity" : "magnitude";
+  for (let i = 0; i < LENGTH; i++) {
+    if (i > 0 && Math.random() < SWITCH_RATE) {
+      rule = rule === "parity" ? "magnitude" : "parity";
+    }
+    trials.push({ rule, digit: DIGITS[Math.floor(Math.random() * DIGITS.length)] });
+  }
+  return trials;
+};
+
+// The left answer is odd for parity and low for magnitude
+const expectLeft = ({ rule, digit }: Stimulus) => (rule === "parity" ? digit % 2 === 1 : digit < 5);
+
+// Task switching: the cue decides which rule classifies the digit
+export default function TaskSwitching({ onComplete }: TaskSwitchingProps) {
+  const [stimuli] = useState(buildTrials);
+  const [index, setIndex] = useState(0);
+  const [fixation, setFixation] = useState(true);
+  const onset = useRef(0);
+  const trials = useRef<SwitchTrial[]>([]);
+
+  useEffect(() => {
+    setFixation(true);
+    const show = setTimeout(() => {
+      setFixation(false);
+      onset.current = performance.now();
+    }, FIXATION_MS);
+    return () => clearTimeout(show);
+  }, [index]);
+
+  const stimulus = stimuli[index];
+  const labels = LABELS[stimulus.rule];
+
+  const handleResponse = (left: boolean) => {
+    if (fixation) return;
+    trials.current.push({
+      isSwitch: index > 0 && stimuli[index - 1].rule !== stimulus.rule,
+      correct: left === expectLeft(stimulus),
+      rt: performance.now() - onset.current
+    });
+
+    if (index + 1 >= stimuli.length) {
+      onComplete(trials.current);
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Follow the cue above the digit; it changes without warning.</p>
+      <div className="battery-cue neon-text-pink">{labels.cue}</div>
+      <div className="battery-stimulus neon-text-cyan">{fixation ? "+" : stimulus.digit}</div>
+      <div className="battery-buttons">
+        <button onClick={() => handleResponse(true)} disabled={fixation} className="cyber-button neon-border">
+          {labels.left}
+        </button>
+        <button onClick={() => handleResponse(false)} disabled={fixation} className="cyber-button neon-border">
+          {labels.right}
+        </button>
+      </div>
+      <div className="battery-meta">{index + 1} / {stimuli.length}</div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import type { CognitiveScores } from "../cognitive";
+import { BatteryTrials, scoreBattery } from "./scoring";
+import DigitSpan from "./DigitSpan";
+import NBack from "./NBack";
+import Stroop from "./Stroop";
+import SymbolDigit from "./SymbolDigit";
+import TaskSwitching from "./TaskSwitching";
+
+interface TestBatteryProps {
+  onComplete: (scores: CognitiveScores) => void;
+  onCancel: () => void;
+}
+
+type TaskId = keyof BatteryTrials;
+
+const TASKS: { id: TaskId; title: string; description: string }[] = [
+  { id: "digitSpan", title: "Digit Span", description: "Memory · recall growing sequences of digits" },
+  { id: "nBack", title: "2-Back", description: "Memory · spot letters that repeat two steps back" },
+  { id: "stroop", title: "Stroop", description: "Attention · name ink colours while ignoring the words" },
+  { id: "symbolDigit", title: "Symbol-Digit", description: "Processing speed · substitute symbols for digits for one minute" },
+  { id: "taskSwitching", title: "Task Switching", description: "Flexibility · classify digits by a changing rule" }
+];
+
+// Runs the tasks in order and hands back only the four domain scores; raw trials die with this component
+export default function TestBattery({ onComplete, onCancel }: TestBatteryProps) {
+  const [step, setStep] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [trials, setTrials] = useState<Partial<BatteryTrials>>({});
+
+  const task = TASKS[step];
+
+  const finishTask = <K extends TaskId>(id: K, result: BatteryTrials[K]) => {
+    const updated = { ...trials, [id]: result };
+    setTrials(updated);
+    setRunning(false);
+
+    if (step + 1 >= TASKS.length) {
+      onComplete(scoreBattery(updated as BatteryTrials));
+    } else {
+      setStep(step + 1);
+    }
+  };
+
+  const renderTask = () => {
+    switch (task.id) {
+      case "digitSpan":
+        return <DigitSpan onComplete={(t) => finishTask("digitSpan", t)} />;
+      case "nBack":
+        return <NBack onComplete={(t) => finishTask("nBack", t)} />;
+      case "stroop":
+        return <Stroop onComplete={(t) => finishTask("stroop", t)} />;
+      case "symbolDigit":
+        return <SymbolDigit onComplete={(t) => finishTask("symbolDigit", t)} />;
+      case "taskSwitching":
+        return <TaskSwitching onComplete={(t) => finishTask("taskSwitching", t)} />;
+    }
+  };
+
+  return (
+    <div className="test-battery">
+      <div className="battery-progress">
+        {TASKS.map((t, i) => (
+          <span key={t.id} className={`battery-step ${i < step ? "done" : i === step ? "current" : ""}`}>
+            {t.title}
+          </span>
+        ))}
+      </div>
+
+      {running ? renderTask() : (
+        <div className="battery-intro">
+          <h3 className="neon-text-cyan">{task.title}</h3>
+          <p>{task.description}</p>
+          <p className="battery-meta">Task {step + 1} of {TASKS.length}. Results never leave this device.</p>
+          <div className="battery-buttons">
+            <button onClick={onCancel} className="cyber-button neon-gray">Cancel</button>
+            <button onClick={() => setRunning(true)} className="cyber-button neon-pink">Start</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+// battery/scoring.ts
+import type { CognitiveScores } from "../cognitive";
+
+// Raw trial records; they stay in component state and are never persisted or sent anywhere
+
+export interface SpanTrial {
+  length: number;
+  correct: boolean;
+}
+
+export interface NBackTrial {
+  isTarget: boolean;
+  responded: boolean;
+}
+
+export interface StroopTrial {
+  congruent: boolean;
+  correct: boolean;
+  rt: number;
+}
+
+export interface SymbolDigitTrial {
+  correct: boolean;
+  rt: number;
+}
+
+export interface SwitchTrial {
+  isSwitch: boolean;
+  correct: boolean;
+  rt: number;
+}
+
+export interface BatteryTrials {
+  digitSpan: SpanTrial[];
+  nBack: NBackTrial[];
+  stroop: StroopTrial[];
+  symbolDigit: SymbolDigitTrial[];
+  taskSwitching: SwitchTrial[];
+}
+
+export const SPAN_MIN = 3;
+export const SPAN_MAX = 9;
+export const SYMBOL_DIGIT_SECONDS = 60;
+// Roughly the number of correct substitutions a fast adult manages in a minute
+const SYMBOL_DIGIT_CEILING = 45;
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const accuracy = (trials: { correct: boolean }[]) =>
+  trials.length > 0 ? trials.filter(t => t.correct).length / trials.length : 0;
+
+// Longest span recalled correctly, scaled so SPAN_MIN - 1 is 0 and SPAN_MAX is 100
+export function scoreDigitSpan(trials: SpanTrial[]): number {
+  const longest = Math.max(SPAN_MIN - 1, ...trials.filter(t => t.correct).map(t => t.length));
+  return clampScore(((longest - (SPAN_MIN - 1)) / (SPAN_MAX - (SPAN_MIN - 1))) * 100);
+}
+
+// Hit rate minus false-alarm rate, so pressing on every item scores 0
+export function scoreNBack(trials: NBackTrial[]): number {
+  const targets = trials.filter(t => t.isTarget);
+  const lures = trials.filter(t => !t.isTarget);
+  const hitRate = targets.length > 0 ? targets.filter(t => t.responded).length / targets.length : 0;
+  const falseAlarmRate = lures.length > 0 ? lures.filter(t => t.responded).length / lures.length : 0;
+  return clampScore((hitRate - falseAlarmRate) * 100);
+}
+
+// Accuracy, penalised by how much incongruent trials slow the response beyond 50 ms
+export function scoreStroop(trials: StroopTrial[]): number {
+  const rt = (congruent: boolean) => mean(trials.filter(t => t.correct && t.congruent === congruent).map(t => t.rt));
+  const interference = Math.max(0, rt(false) - rt(true) - 50);
+  return clampScore(accuracy(trials) * 100 - interference / 5);
+}
+
+export function scoreSymbolDigit(trials: SymbolDigitTrial[]): number {
+  const correct = trials.filter(t => t.correct).length;
+  const errors = trials.length - correct;
+  return clampScore(((correct - errors) / SYMBOL_DIGIT_CEILING) * 100);
+}
+
+// Accuracy, penalised by the switch cost beyond 100 ms
+export function scoreTaskSwitching(trials: SwitchTrial[]): number {
+  const rt = (isSwitch: boolean) => mean(trials.filter(t => t.correct && t.isSwitch === isSwitch).map(t => t.rt));
+  const switchCost = Math.max(0, rt(true) - rt(false) - 100);
+  return clampScore(accuracy(trials) * 100 - switchCost / 8);
+}
+
+export function scoreBattery(trials: BatteryTrials): CognitiveScores {
+  return {
+    memory: clampScore((scoreDigitSpan(trials.digitSpan) + scoreNBack(trials.nBack)) / 2),
+    attention: scoreStroop(trials.stroop),
+    processing: scoreSymbolDigit(trials.symbolDigit),
+    flexibility: scoreTaskSwitching(trials.taskSwitching)
+  };
+}
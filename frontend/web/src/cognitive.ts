@@ -0,0 +1,285 @@
+// cognitive.ts
+import type { Signer } from "ethers";
+import * as sdk from "../../../sdk";
+import type {
+  AdaptiveDifficulty,
+  CognitiveScores,
+  CohortStatus,
+  DecryptedProgressEntry,
+  DecryptionRequest,
+  PlanPolicy,
+  PlanStatus,
+  PlanTransition,
+  Recommendation,
+  ScoreHandles
+} from "../../../sdk";
+import { getCognitiveContractReadOnly, getCognitiveContractWithSigner } from "./contract";
+import { getDecryptionSession, getFheInstance } from "./fhe";
+
+export type {
+  AdaptiveDifficulty,
+  CognitiveScores,
+  CohortStatus,
+  DecryptedProgressEntry,
+  DecryptionRequest,
+  PlanPolicy,
+  PlanStatus,
+  PlanTransition,
+  Recommendation,
+  ScoreHandles
+};
+export { allowedTransitions, effectivePlanStatus, isValidScore, SCORE_MAX, SCORE_MIN } from "../../../sdk";
+
+export type Domain = keyof CognitiveScores;
+
+export const DOMAINS: { key: Domain; label: string }[] = [
+  { key: "memory", label: "Memory" },
+  { key: "attention", label: "Attention" },
+  { key: "processing", label: "Processing Speed" },
+  { key: "flexibility", label: "Cognitive Flexibility" }
+];
+
+export type ScoreInput = Record<Domain, string>;
+export type ScoreErrors = Partial<Record<Domain, string>>;
+
+// Scores are whole percentages, checked against the same bounds as the SDK and contract before anything is
+// encrypted; returns null scores when any domain is invalid
+export function parseScores(input: ScoreInput): { scores: CognitiveScores | null; errors: ScoreErrors } {
+  const errors: ScoreErrors = {};
+  const scores = {} as CognitiveScores;
+
+  for (const { key, label } of DOMAINS) {
+    const raw = input[key].trim();
+    const value = Number(raw);
+    if (raw === "") {
+      errors[key] = `${label} score is required`;
+    } else if (!sdk.isValidScore(value)) {
+      errors[key] = `${label} score must be a whole number from ${sdk.SCORE_MIN} to ${sdk.SCORE_MAX}`;
+    } else {
+      scores[key] = value;
+    }
+  }
+
+  return { scores: Object.keys(errors).length === 0 ? scores : null, errors };
+}
+
+export interface TestResult {
+  resultId: string;
+  owner: string;
+  timestamp: number;
+  handles: ScoreHandles;
+  planId: string | null;
+  // Stored lifecycle status and deadline; both null until a plan is generated
+  planStatus: PlanStatus | null;
+  planExpiresAt: number | null;
+  legacyId: string | null;
+}
+
+const withSession = async () => {
+  const contract = await getCognitiveContractWithSigner();
+  const session = await getDecryptionSession(contract.runner as Signer, await contract.getAddress());
+  return { contract, session, instance: await getFheInstance() };
+};
+
+// The first reveal prompts for an EIP-712 signature; values are decrypted locally and never published
+export async function revealTrainingPlan(planId: string): Promise<Recommendation> {
+  const { contract, session, instance } = await withSession();
+  return sdk.decryptTrainingPlan(contract, instance, planId, session);
+}
+
+// Resolves to null until the wallet has logged progress
+export async function revealProgress(): Promise<number | null> {
+  const { contract, session, instance } = await withSession();
+  try {
+    return await sdk.decryptProgress(contract, instance, { session });
+  } catch (e) {
+    if (e instanceof sdk.CognitiveEnhanceError && e.code === "NO_PROGRESS_DATA") return null;
+    throw e;
+  }
+}
+
+// Encrypts the scores locally and returns the id of the new on-chain result
+export async function submitAssessment(scores: CognitiveScores): Promise<string> {
+  const contract = await getCognitiveContractWithSigner();
+  const { resultId } = await sdk.submitTestResults(contract, await getFheInstance(), scores);
+  return resultId.toString();
+}
+
+export async function isLegacyImported(owner: string, legacyId: string): Promise<boolean> {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) return false;
+
+  return (await sdk.getLegacyImport(contract, owner, legacyId)) !== null;
+}
+
+export async function importLegacyRecord(legacyId: string, scores: CognitiveScores): Promise<string> {
+  const contract = await getCognitiveContractWithSigner();
+  const { resultId } = await sdk.importLegacyRecord(contract, await getFheInstance(), legacyId, scores);
+  return resultId.toString();
+}
+
+export async function requestTrainingPlan(resultId: string): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.requestTrainingPlan(contract, resultId);
+}
+
+export async function transitionPlan(planId: string, next: PlanTransition): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.transitionPlan(contract, planId, next);
+}
+
+export async function updateProgress(planId: string, progress: number): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.updateProgress(contract, await getFheInstance(), planId, progress);
+}
+
+export interface ProgressPage {
+  entries: DecryptedProgressEntry[];
+  offset: number;
+  count: number;
+}
+
+// Decrypts up to `limit` entries ending just before `end` (the newest entries by default), oldest first
+export async function revealProgressHistory(limit: number, end?: number): Promise<ProgressPage> {
+  const { contract, session, instance } = await withSession();
+  const user = await (contract.runner as Signer).getAddress();
+  const count = await sdk.getProgressHistoryCount(contract, user);
+  const upTo = Math.min(end ?? count, count);
+  const offset = Math.max(0, upTo - limit);
+  const entries = await sdk.getProgressHistory(contract, user, offset, upTo - offset);
+  return {
+    entries: await sdk.decryptProgressHistory(contract, instance, entries, session),
+    offset,
+    count
+  };
+}
+
+// Encrypts one score per finished exercise; the contract derives the next difficulty from them
+export async function submitSessionScores(planId: string, scores: number[]): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.submitSessionScores(contract, await getFheInstance(), planId, scores);
+}
+
+// Resolves to null until the wallet has submitted a session
+export async function revealDifficulty(): Promise<AdaptiveDifficulty | null> {
+  const { contract, session, instance } = await withSession();
+  try {
+    return await sdk.decryptAdaptiveDifficulty(contract, instance, { session });
+  } catch (e) {
+    if (e instanceof sdk.CognitiveEnhanceError && e.code === "NO_SESSION_DATA") return null;
+    throw e;
+  }
+}
+
+// Scores stay encrypted on-chain; this decrypts them locally for the owner or a granted therapist
+export async function revealScores(resultId: string): Promise<CognitiveScores> {
+  const { contract, session, instance } = await withSession();
+  return sdk.decryptTestResult(contract, instance, resultId, session);
+}
+
+// Policies are public, so anyone can see how a plan's intensities were derived
+export async function getPlanPolicy(planId: string): Promise<PlanPolicy | null> {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) return null;
+  return sdk.getPlanPolicyForPlan(contract, planId);
+}
+
+export const describePlanPolicy = (policy: PlanPolicy): string =>
+  `Policy v${policy.version}: ${sdk.describeSessionRules(policy)}`;
+
+export async function getCohortStatus(): Promise<CohortStatus | null> {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) return null;
+  return sdk.getCohortStatus(contract);
+}
+
+// The averages arrive later, once the decryption oracle calls back; track the request id to follow it
+export async function requestCohortAverages(): Promise<string> {
+  const contract = await getCognitiveContractWithSigner();
+  const { requestId } = await sdk.requestCohortAverages(contract);
+  return requestId.toString();
+}
+
+export async function getDecryptionRequest(requestId: string): Promise<DecryptionRequest | null> {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) return null;
+  return sdk.getDecryptionRequest(contract, requestId);
+}
+
+export async function cancelCohortRequest(requestId: string): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.cancelCohortRequest(contract, requestId);
+}
+
+export interface TherapistGrant {
+  address: string;
+  registered: boolean;
+  // How many of the records held at grant time have been shared with the therapist so far
+  shared: number;
+  total: number;
+}
+
+export interface TherapistAccess {
+  isAdmin: boolean;
+  isTherapist: boolean;
+  grants: TherapistGrant[];
+}
+
+export async function getTherapistAccess(account: string): Promise<TherapistAccess | null> {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) return null;
+
+  const [admin, isTherapist, therapists] = await Promise.all([
+    sdk.getAdmin(contract),
+    sdk.isTherapist(contract, account),
+    sdk.getUserTherapists(contract, account)
+  ]);
+
+  const grants = await Promise.all(therapists.map(async (address) => ({
+    address,
+    registered: await sdk.isTherapist(contract, address),
+    ...(await sdk.getHistoryShare(contract, account, address))
+  })));
+
+  return { isAdmin: admin.toLowerCase() === account.toLowerCase(), isTherapist, grants };
+}
+
+// Users whose results the therapist can currently act on, from the grant events
+export async function listPatients(therapist: string): Promise<string[]> {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) return [];
+
+  const events = await contract.queryFilter(contract.filters.TherapistAccessGranted(undefined, therapist));
+  const users = Array.from(new Set(events.map((event) => event.args.user)));
+  const active = await Promise.all(users.map((user) => sdk.hasTherapistAccess(contract, user, therapist)));
+
+  return users.filter((_, i) => active[i]);
+}
+
+// Grants access, then shares the records made before it a page per transaction
+export async function grantTherapistAccess(therapist: string): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.grantTherapistAccess(contract, therapist);
+  await sdk.shareHistoryWithTherapist(contract, therapist);
+}
+
+// Finishes sharing earlier records when a grant's sharing was interrupted
+export async function shareHistoryWithTherapist(therapist: string): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.shareHistoryWithTherapist(contract, therapist);
+}
+
+export async function revokeTherapistAccess(therapist: string): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.revokeTherapistAccess(contract, therapist);
+}
+
+export async function registerTherapist(therapist: string): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.registerTherapist(contract, therapist);
+}
+
+export async function removeTherapist(therapist: string): Promise<void> {
+  const contract = await getCognitiveContractWithSigner();
+  await sdk.removeTherapist(contract, therapist);
+}
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { CognitiveScores, CohortStatus, DOMAINS, getCohortStatus, revealScores } from "../cognitive";
+import { listTrackedRequests, onTrackedRequests, requestAndTrackCohortAverages, TrackedRequest } from "../tracker";
+
+interface CohortAnalyticsProps {
+  account: string;
+  // The connected wallet's latest result, compared against the cohort once decrypted
+  resultId: string | null;
+}
+
+export default function CohortAnalytics({ account, resultId }: CohortAnalyticsProps) {
+  const [status, setStatus] = useState<CohortStatus | null>(null);
+  const [ownScores, setOwnScores] = useState<CognitiveScores | null>(null);
+  // The notification center follows oracle requests; this panel only needs to know whether one is pending
+  const [requests, setRequests] = useState<TrackedRequest[]>(listTrackedRequests);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const refresh = async () => {
+    try {
+      const next = await getCohortStatus();
+      setStatus(next);
+      return next;
+    } catch (e: any) {
+      setMessage(e.message || "Failed to load cohort analytics");
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    setOwnScores(null);
+    setMessage("");
+  }, [account, resultId]);
+
+  useEffect(() => onTrackedRequests((next) => {
+    setRequests(next);
+    refresh();
+  }), []);
+
+  const awaiting = requests.find(r => r.status === "pending") ?? null;
+
+  const requestReveal = async () => {
+    if (!status) return;
+    setLoading(true);
+    setMessage("");
+    try {
+      await requestAndTrackCohortAverages();
+      await refresh();
+    } catch (e: any) {
+      setMessage(e.message || "Cohort reveal request failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revealOwn = async () => {
+    if (!resultId) return;
+    setLoading(true);
+    setMessage("");
+    try {
+      setOwnScores(await revealScores(resultId));
+    } catch (e: any) {
+      setMessage(e.message || "Score decryption failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="panel cohort-analytics neon-border cyber-card">
+        <h3 className="neon-text-green">Cohort Analytics</h3>
+        <p className="no-data">{message || "Loading cohort..."}</p>
+      </div>
+    );
+  }
+
+  const averages = status.averages;
+  const remaining = status.contributorsNeeded;
+
+  return (
+    <div className="panel cohort-analytics neon-border cyber-card">
+      <div className="timeline-header">
+        <h3 className="neon-text-green">Cohort Analytics</h3>
+        <span className="cohort-size">{status.cohortSize} encrypted results</span>
+      </div>
+      <p className="cohort-note">
+        Scores are summed under encryption. Only domain averages are ever decrypted, and only once at least{" "}
+        {status.minCohortSize} different users have added results since the last reveal.
+      </p>
+
+      {averages ? (
+        <div className="cohort-table">
+          <div className="cohort-row cohort-head">
+            <span>Domain</span>
+            <span>Cohort average</span>
+            <span>You</span>
+          </div>
+          {DOMAINS.map(({ key, label }) => (
+            <div key={key} className="cohort-row">
+              <span>{label}</span>
+              <span className="cohort-bar">
+                <span className="cohort-fill" style={{ width: `${averages.scores[key]}%` }} />
+                <span className="cohort-value">{averages.scores[key]}</span>
+              </span>
+              <span className="cohort-bar">
+                {ownScores ? (
+                  <>
+                    <span className="cohort-fill own" style={{ width: `${Math.min(ownScores[key], 100)}%` }} />
+                    <span className="cohort-value">{ownScores[key]}</span>
+                  </>
+                ) : (
+                  <span className="cohort-value">🔒</span>
+                )}
+              </span>
+            </div>
+          ))}
+          <div className="timeline-legend">
+            <span>
+              {averages.cohortSize} participants · revealed {new Date(averages.revealedAt * 1000).toLocaleString()}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <p className="no-data">No cohort averages have been revealed yet</p>
+      )}
+
+      <div className="cohort-actions">
+        {awaiting ? (
+          <span className="neon-text-cyan">
+            {awaiting.timedOut
+              ? "The decryption oracle timed out; cancel or retry from Activity"
+              : "Waiting for the decryption oracle..."}
+          </span>
+        ) : remaining > 0 ? (
+          <span>
+            Needs results from {remaining} more user{remaining === 1 ? "" : "s"} before the next reveal
+          </span>
+        ) : (
+          account && (
+            <button onClick={requestReveal} className="cyber-button neon-green" disabled={loading}>
+              {loading ? "Requesting..." : "Reveal Cohort Averages"}
+            </button>
+          )
+        )}
+        {account && resultId && !ownScores && (
+          <button onClick={revealOwn} className="cyber-button neon-blue" disabled={loading}>
+            {loading ? "Decrypting..." : "Decrypt My Scores"}
+          </button>
+        )}
+      </div>
+
+      {message && <div className="therapist-message neon-text-white">{message}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { exportMyData, importMyData, RestoredBackup } from "../backup";
+import { notify, updateNotification } from "../notifications";
+
+interface DataBackupPanelProps {
+  account: string;
+  onRestored: (backup: RestoredBackup) => void;
+}
+
+// The bundle holds decrypted scores, so a password is recommended whenever the file leaves the device
+const MIN_PASSWORD_LENGTH = 8;
+
+const download = ({ fileName, text }: { fileName: string; text: string }) => {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function DataBackupPanel({ account, onRestored }: DataBackupPanelProps) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [importPassword, setImportPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const passwordError =
+    password && password.length < MIN_PASSWORD_LENGTH
+      ? `Use at least ${MIN_PASSWORD_LENGTH} characters`
+      : password !== confirmation
+      ? "Passwords don't match"
+      : "";
+
+  const handleExport = async () => {
+    if (passwordError) {
+      setMessage(passwordError);
+      return;
+    }
+    setBusy(true);
+    setMessage("");
+    const notice = notify("pending", "Decrypting and signing your data export...");
+    try {
+      download(await exportMyData(password || undefined));
+      updateNotification(notice, "success", password ? "Password-protected export saved" : "Data export saved");
+      setPassword("");
+      setConfirmation("");
+    } catch (e: any) {
+      updateNotification(notice, "error", "Export failed: " + (e.message || "Unknown error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setBusy(true);
+    setMessage("");
+    const notice = notify("pending", "Verifying backup against the chain...");
+    try {
+      const restored = await importMyData(await file.text(), importPassword || undefined);
+      onRestored(restored);
+      setImportPassword("");
+      updateNotification(
+        notice,
+        "success",
+        `Restored ${restored.resultCount} result(s) and ${restored.progressCount} progress entries`
+      );
+    } catch (e: any) {
+      const text =
+        e.code === "BUNDLE_PASSWORD" ? e.message + "; enter its password and choose the file again" : e.message;
+      setMessage(text || "Import failed");
+      updateNotification(notice, "error", "Import failed: " + (text || "Unknown error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="panel backup-panel neon-border cyber-card">
+      <h3 className="neon-text-yellow">Your Data</h3>
+      <p>
+        Export every result, plan and progress entry you own as a JSON bundle signed by your wallet. Scores and
+        plans are decrypted into it, so protect it with a password if it leaves this device. Importing checks the
+        signature and every record against the chain before restoring them here.
+      </p>
+
+      {account ? (
+        <div className="therapist-form">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password (optional)"
+            className="cyber-input neon-border"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm password"
+            className="cyber-input neon-border"
+            disabled={!password}
+          />
+          <button onClick={handleExport} className="cyber-button neon-yellow" disabled={busy}>
+            Export My Data
+          </button>
+        </div>
+      ) : (
+        <p className="no-data">Connect a wallet to export its data</p>
+      )}
+
+      <div className="therapist-form">
+        <input
+          type="password"
+          value={importPassword}
+          onChange={(e) => setImportPassword(e.target.value)}
+          placeholder="Backup password, if it has one"
+          className="cyber-input neon-border"
+        />
+        <label className={`cyber-button neon-cyan backup-import ${busy ? "disabled" : ""}`}>
+          Import Backup
+          <input type="file" accept="application/json,.json" onChange={handleImport} disabled={busy} hidden />
+        </label>
+      </div>
+
+      {message && <div className="therapist-message neon-text-white">{message}</div>}
+    </div>
+  );
+}
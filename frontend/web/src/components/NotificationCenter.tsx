@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from "react";
+import {
+  AppNotification,
+  clearNotifications,
+  listNotifications,
+  markAllRead,
+  markRead,
+  notify,
+  onNotifications
+} from "../notifications";
+import {
+  cancelRequest,
+  describeRequest,
+  dismissRequest,
+  listTrackedRequests,
+  onTrackedRequests,
+  resumeTracking,
+  retryRequest,
+  TrackedRequest
+} from "../tracker";
+
+interface NotificationCenterProps {
+  account: string;
+}
+
+// Successes leave the toast stack on their own; pending and failed entries stay until dealt with
+const SUCCESS_TOAST_MS = 4000;
+const MAX_TOASTS = 3;
+
+const formatElapsed = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, "0");
+  return h > 0 ? `${h}h ${String(m).padStart(2, "0")}m` : `${m}:${rest}`;
+};
+
+const requestLabel = (request: TrackedRequest) => {
+  if (request.status === "pending") return request.timedOut ? "timed out" : "awaiting oracle";
+  return request.status;
+};
+
+const StatusIcon = ({ status }: { status: AppNotification["status"] }) => (
+  <span className="notification-icon">
+    {status === "pending" && <span className="cyber-spinner neon-blue"></span>}
+    {status === "success" && <span className="rpc-dot ok" />}
+    {status === "error" && <span className="rpc-dot down" />}
+  </span>
+);
+
+export default function NotificationCenter({ account }: NotificationCenterProps) {
+  const [notifications, setNotifications] = useState<AppNotification[]>(listNotifications);
+  const [requests, setRequests] = useState<TrackedRequest[]>(listTrackedRequests);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const unsubscribe = [onNotifications(setNotifications), onTrackedRequests(setRequests)];
+    resumeTracking().catch((e) => console.error("Error resuming request tracking:", e));
+    return () => unsubscribe.forEach(fn => fn());
+  }, []);
+
+  const pendingRequests = requests.filter(r => r.status === "pending");
+
+  // Elapsed times only move while something is still waiting on the oracle
+  useEffect(() => {
+    if (pendingRequests.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pendingRequests.length]);
+
+  const toasts = notifications.filter(n => !n.read).slice(0, MAX_TOASTS);
+
+  useEffect(() => {
+    const settled = toasts.filter(n => n.status === "success");
+    if (settled.length === 0) return;
+    const timers = settled.map(n =>
+      setTimeout(() => markRead(n.id), Math.max(0, n.updatedAt + SUCCESS_TOAST_MS - Date.now()))
+    );
+    return () => timers.forEach(clearTimeout);
+  }, [notifications]);
+
+  const act = async (requestId: string, label: string, action: () => Promise<unknown>) => {
+    setBusy(requestId);
+    try {
+      await action();
+    } catch (e: any) {
+      notify("error", `${label} failed: ${e.message || "Unknown error"}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const unread = notifications.filter(n => !n.read && n.status !== "pending").length;
+  const badge = unread + pendingRequests.length;
+
+  return (
+    <div className="notification-center">
+      <button onClick={() => setOpen(!open)} className="cyber-button neon-yellow notification-button">
+        Activity
+        {badge > 0 && <span className="notification-badge">{badge}</span>}
+      </button>
+
+      {open && (
+        <div className="notification-panel cyber-card neon-border">
+          <div className="timeline-header">
+            <strong>Oracle requests</strong>
+          </div>
+          {requests.length === 0 ? (
+            <p className="no-data">No decryption requests in flight</p>
+          ) : (
+            requests.map(request => {
+              const id = request.requestId.toString();
+              const until = request.settledAt > 0 ? request.settledAt * 1000 : now;
+              return (
+                <div key={id} className="tracked-request">
+                  <div className="tracked-request-main">
+                    <span className={`request-status ${request.status} ${request.timedOut ? "timed-out" : ""}`}>
+                      {requestLabel(request)}
+                    </span>
+                    <span>{describeRequest(request)}</span>
+                  </div>
+                  <div className="tracked-request-meta">
+                    <span>Request #{id}</span>
+                    <span>Block {request.requestedBlock}</span>
+                    <span>{formatElapsed(until / 1000 - request.requestedAt)}</span>
+                    {request.error && <span className="rpc-error" title={request.error}>status check failed</span>}
+                  </div>
+                  <div className="tracked-request-actions">
+                    {account && request.status === "pending" && request.timedOut && (
+                      <button
+                        className="cyber-button neon-red"
+                        disabled={busy === id}
+                        onClick={() => act(id, "Cancel", () => cancelRequest(id))}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {account && (request.status === "cancelled" || request.timedOut) && (
+                      <button
+                        className="cyber-button neon-green"
+                        disabled={busy === id}
+                        onClick={() => act(id, "Retry", () => retryRequest(id))}
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {request.status !== "pending" && (
+                      <button className="cyber-button neon-gray" onClick={() => dismissRequest(id)}>
+                        Dismiss
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          <div className="timeline-header notification-history-header">
+            <strong>Activity</strong>
+            <div className="tracked-request-actions">
+              <button className="cyber-button neon-gray" onClick={markAllRead}>Mark read</button>
+              <button className="cyber-button neon-gray" onClick={clearNotifications}>Clear</button>
+            </div>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="no-data">Nothing yet</p>
+          ) : (
+            notifications.map(n => (
+              <div key={n.id} className={`notification-item ${n.read ? "read" : ""}`} onClick={() => markRead(n.id)}>
+                <StatusIcon status={n.status} />
+                <span className="notification-message">{n.message}</span>
+                <span className="notification-time">{new Date(n.updatedAt).toLocaleTimeString()}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {toasts.length > 0 && (
+        <div className="toast-stack">
+          {toasts.map(n => (
+            <div key={n.id} className={`toast cyber-card neon-border ${n.status}`}>
+              <StatusIcon status={n.status} />
+              <span className="notification-message neon-text-white">{n.message}</span>
+              {n.status !== "pending" && (
+                <button className="toast-close" onClick={() => markRead(n.id)} aria-label="Dismiss">×</button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import { revealProgressHistory, DecryptedProgressEntry } from "../cognitive";
+
+interface ProgressTimelineProps {
+  account: string;
+  // Bumped by the parent after progress is logged so a revealed timeline can refresh
+  version: number;
+}
+
+const PAGE_SIZE = 20;
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+
+const toPoints = (values: number[]) =>
+  values
+    .map((value, i) => {
+      const x = values.length === 1 ? WIDTH / 2 : PADDING + (i / (values.length - 1)) * (WIDTH - PADDING * 2);
+      const y = HEIGHT - PADDING - (Math.min(value, 100) / 100) * (HEIGHT - PADDING * 2);
+      return `${x},${y}`;
+    })
+    .join(" ");
+
+export default function ProgressTimeline({ account, version }: ProgressTimelineProps) {
+  const [entries, setEntries] = useState<DecryptedProgressEntry[] | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [planFilter, setPlanFilter] = useState("all");
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const load = async (end?: number) => {
+    setLoading(true);
+    setMessage("");
+    try {
+      const page = await revealProgressHistory(PAGE_SIZE, end);
+      setEntries(current => (end === undefined || !current ? page.entries : [...page.entries, ...current]));
+      setOffset(page.offset);
+    } catch (e: any) {
+      setMessage(e.message || "Progress decryption failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setEntries(null);
+    setOffset(0);
+    setPlanFilter("all");
+    setMessage("");
+  }, [account]);
+
+  useEffect(() => {
+    if (entries) load();
+  }, [version]);
+
+  if (!account) return null;
+
+  const planIds = Array.from(new Set((entries || []).map(e => e.planId.toString())));
+  const visible = (entries || []).filter(e => planFilter === "all" || e.planId.toString() === planFilter);
+
+  return (
+    <div className="panel progress-timeline neon-border cyber-card">
+      <div className="timeline-header">
+        <h3 className="neon-text-cyan">Progress Timeline</h3>
+        {entries && planIds.length > 1 && (
+          <select
+            value={planFilter}
+            onChange={(e) => setPlanFilter(e.target.value)}
+            className="cyber-select neon-border"
+          >
+            <option value="all">All Plans</option>
+            {planIds.map(id => (
+              <option key={id} value={id}>Plan #{id}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {!entries ? (
+        <div className="no-data">
+          <p>Your progress history is encrypted; decrypting it requires a wallet signature.</p>
+          <button onClick={() => load()} className="cyber-button neon-blue" disabled={loading}>
+            {loading ? "Decrypting..." : "Reveal History"}
+          </button>
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="no-data">No progress logged yet</p>
+      ) : (
+        <>
+          <svg className="timeline-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+            {[0, 50, 100].map(level => (
+              <line
+                key={level}
+                className="timeline-grid"
+                x1={PADDING}
+                x2={WIDTH - PADDING}
+                y1={HEIGHT - PADDING - (level / 100) * (HEIGHT - PADDING * 2)}
+                y2={HEIGHT - PADDING - (level / 100) * (HEIGHT - PADDING * 2)}
+              />
+            ))}
+            <polyline className="timeline-progress" points={toPoints(visible.map(e => e.progress))} />
+            {/* Running averages are per plan, so the line only makes sense for one plan at a time */}
+            {(planFilter !== "all" || planIds.length === 1) && (
+              <polyline className="timeline-average" points={toPoints(visible.map(e => e.average))} />
+            )}
+          </svg>
+          <div className="timeline-legend">
+            <span className="neon-text-cyan">Progress</span>
+            {(planFilter !== "all" || planIds.length === 1) && <span className="neon-text-pink">Running average</span>}
+            <span>
+              {new Date(visible[0].timestamp * 1000).toLocaleDateString()} –{" "}
+              {new Date(visible[visible.length - 1].timestamp * 1000).toLocaleDateString()}
+            </span>
+          </div>
+          <div className="timeline-entries">
+            {[...visible].reverse().map(entry => (
+              <div key={`${entry.planId}-${entry.session}`} className="timeline-entry">
+                <span>Plan #{entry.planId.toString()} · session {entry.session}</span>
+                <span>{entry.progress}%</span>
+                <span>avg {entry.average}%</span>
+                <span>{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+          {offset > 0 && (
+            <button onClick={() => load(offset)} className="cyber-button neon-gray" disabled={loading}>
+              {loading ? "Decrypting..." : "Load Earlier"}
+            </button>
+          )}
+        </>
+      )}
+
+      {message && <div className="therapist-message neon-text-white">{message}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react";
+import type { NetworkProfile } from "../networks";
+import { checkRpcHealth, getRpcStatus, onRpcStatus, RpcStatus } from "../rpc";
+
+interface RpcStatusPanelProps {
+  network: NetworkProfile;
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+};
+
+const summarize = (status: RpcStatus): { label: string; level: "ok" | "degraded" | "down" } => {
+  if (!status.healthy) return { label: "RPC down", level: "down" };
+  const active = status.endpoints.find(e => e.url === status.active);
+  if (!active || active.latency === null) return { label: "Checking...", level: "degraded" };
+  const degraded = active.errorRate > 0.2 || status.endpoints.some(e => e.coolingUntil !== null);
+  return { label: `${Math.round(active.latency)} ms`, level: degraded ? "degraded" : "ok" };
+};
+
+export default function RpcStatusPanel({ network }: RpcStatusPanelProps) {
+  const [status, setStatus] = useState<RpcStatus>(() => getRpcStatus(network));
+  const [open, setOpen] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    setStatus(getRpcStatus(network));
+    return onRpcStatus((next) => {
+      if (next.chainId === network.chainId) setStatus(next);
+    });
+  }, [network]);
+
+  const recheck = async () => {
+    setChecking(true);
+    try {
+      setStatus(await checkRpcHealth(network));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    if (status.checkedAt === null) recheck();
+  }, [network]);
+
+  const { label, level } = summarize(status);
+
+  return (
+    <div className="rpc-status">
+      <button onClick={() => setOpen(!open)} className="cyber-button neon-blue rpc-status-button">
+        <span className={`rpc-dot ${level}`} />
+        {network.name} · {label}
+      </button>
+
+      {open && (
+        <div className="rpc-status-panel cyber-card neon-border">
+          <div className="timeline-header">
+            <strong>{network.name} RPC endpoints</strong>
+            <button onClick={recheck} className="cyber-button neon-gray" disabled={checking}>
+              {checking ? "Checking..." : "Re-check"}
+            </button>
+          </div>
+          {status.endpoints.map(endpoint => {
+            const cooling = endpoint.coolingUntil !== null && endpoint.coolingUntil > Date.now();
+            return (
+              <div key={endpoint.url} className={`rpc-endpoint ${endpoint.url === status.active ? "active" : ""}`}>
+                <span className={`rpc-dot ${cooling ? "down" : endpoint.errorRate > 0.2 ? "degraded" : "ok"}`} />
+                <span className="rpc-host">{hostOf(endpoint.url)}</span>
+                <span>{endpoint.latency !== null ? `${Math.round(endpoint.latency)} ms` : "–"}</span>
+                <span>{Math.round(endpoint.errorRate * 100)}% errors</span>
+                <span>{endpoint.blockNumber !== null ? `#${endpoint.blockNumber}` : "–"}</span>
+                {endpoint.lastError && <span className="rpc-error" title={endpoint.lastError}>{cooling ? "cooling down" : "last call failed"}</span>}
+              </div>
+            );
+          })}
+          {status.checkedAt && (
+            <div className="rpc-checked">Checked {new Date(status.checkedAt).toLocaleTimeString()}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
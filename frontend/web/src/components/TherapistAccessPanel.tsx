@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  getTherapistAccess,
+  grantTherapistAccess,
+  revokeTherapistAccess,
+  registerTherapist,
+  shareHistoryWithTherapist,
+  removeTherapist,
+  TherapistAccess
+} from "../cognitive";
+
+interface TherapistAccessPanelProps {
+  account: string;
+  patients: string[];
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function TherapistAccessPanel({ account, patients }: TherapistAccessPanelProps) {
+  const [access, setAccess] = useState<TherapistAccess | null>(null);
+  const [therapistAddress, setTherapistAddress] = useState("");
+  const [registryAddress, setRegistryAddress] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const load = async () => {
+    try {
+      setAccess(await getTherapistAccess(account));
+    } catch (e) {
+      console.error("Error loading therapist access:", e);
+    }
+  };
+
+  useEffect(() => {
+    setAccess(null);
+    setMessage("");
+    if (account) load();
+  }, [account]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    setMessage("");
+    try {
+      await action();
+      setMessage(success);
+      await load();
+    } catch (e: any) {
+      setMessage(e.message || "Transaction failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const withAddress = (value: string, action: (address: string) => Promise<void>, success: string) => {
+    if (!ethers.isAddress(value)) {
+      setMessage("Please enter a valid address");
+      return;
+    }
+    run(() => action(ethers.getAddress(value)), success);
+  };
+
+  if (!account) {
+    return (
+      <div className="panel therapist-panel neon-border cyber-card">
+        <h3 className="neon-text-green">Therapist Access</h3>
+        <div className="no-data">
+          <p>Connect a wallet to manage who can read your encrypted results</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="panel therapist-panel neon-border cyber-card">
+      <h3 className="neon-text-green">Therapist Access</h3>
+      <p>
+        Granted therapists can decrypt your scores and plans and request plans on your behalf.
+        Records made before a grant are shared in a few extra transactions.
+        Revoking stops new grants, but handles already shared stay readable to them.
+      </p>
+
+      <div className="therapist-list">
+        {access && access.grants.length === 0 && <p className="no-data">No therapists granted</p>}
+        {access?.grants.map(grant => (
+          <div key={grant.address} className="therapist-item neon-border">
+            <span className="owner">{shortAddress(grant.address)}</span>
+            {!grant.registered && <span className="status-badge pending neon-yellow">unregistered</span>}
+            {grant.shared < grant.total && (
+              <button
+                onClick={() => run(() => shareHistoryWithTherapist(grant.address), "Earlier records shared")}
+                className="cyber-button neon-green"
+                disabled={busy}
+              >
+                Share History ({grant.shared}/{grant.total})
+              </button>
+            )}
+            <button
+              onClick={() => run(() => revokeTherapistAccess(grant.address), "Therapist access revoked")}
+              className="cyber-button neon-gray"
+              disabled={busy}
+            >
+              Revoke
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="therapist-form">
+        <input
+          type="text"
+          value={therapistAddress}
+          onChange={(e) => setTherapistAddress(e.target.value)}
+          placeholder="Therapist address (0x...)"
+          className="cyber-input neon-border"
+        />
+        <button
+          onClick={() => withAddress(therapistAddress, grantTherapistAccess, "Therapist access granted")}
+          className="cyber-button neon-green"
+          disabled={busy}
+        >
+          Grant Access
+        </button>
+      </div>
+
+      {access?.isTherapist && (
+        <div className="therapist-list">
+          <h4 className="neon-text-cyan">Your Patients</h4>
+          {patients.length === 0 && <p className="no-data">No patients have granted you access</p>}
+          {patients.map(patient => (
+            <div key={patient} className="therapist-item neon-border">
+              <span className="owner">{shortAddress(patient)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {access?.isAdmin && (
+        <div className="therapist-form">
+          <input
+            type="text"
+            value={registryAddress}
+            onChange={(e) => setRegistryAddress(e.target.value)}
+            placeholder="Register or remove therapist (0x...)"
+            className="cyber-input neon-border"
+          />
+          <button
+            onClick={() => withAddress(registryAddress, registerTherapist, "Therapist registered")}
+            className="cyber-button neon-cyan"
+            disabled={busy}
+          >
+            Register
+          </button>
+          <button
+            onClick={() => withAddress(registryAddress, removeTherapist, "Therapist removed")}
+            className="cyber-button neon-gray"
+            disabled={busy}
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
+      {message && <div className="therapist-message neon-text-white">{message}</div>}
+    </div>
+  );
+}
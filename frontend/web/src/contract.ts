@@ -1,65 +1,68 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { connectCognitiveEnhance, CognitiveEnhanceFHE } from "../../../sdk";
+import { getNetworkProfile, NetworkProfile, resolveNetwork, UnsupportedNetworkError } from "./networks";
+import { getReadProvider, quorumRead } from "./rpc";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
+// Deployment checks are cross-checked across two RPCs and only ever need to pass once per address
+const deployed = new Set<string>();
+
+const isDeployed = async (network: NetworkProfile, address: string): Promise<boolean> => {
+  const key = `${network.chainId}:${address.toLowerCase()}`;
+  if (!deployed.has(key)) {
+    const code = await quorumRead(network, provider => provider.getCode(address));
+    if (code === "0x") return false;
+    deployed.add(key);
   }
+  return true;
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+// Read-only contracts follow the wallet's chain; null when that chain has no deployment
+const getReadOnly = async <T>(
+  pick: (network: NetworkProfile) => string,
+  connect: (address: string, provider: ethers.Provider) => T
+): Promise<T | null> => {
+  const network = await resolveNetwork();
+  const address = network && pick(network);
+  if (!network || !address) {
+    return null;
   }
-  
-  throw new Error("All RPC providers failed");
+  if (!(await isDeployed(network, address))) {
+    return null;
+  }
+  return connect(address, await getReadProvider(network));
+};
+
+// Signer-bound contracts require the wallet to be on a chain where the contract is deployed
+const getWithSigner = async <T>(
+  pick: (network: NetworkProfile) => string,
+  label: string,
+  connect: (address: string, signer: ethers.Signer) => T
+): Promise<T> => {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const network = getNetworkProfile(chainId);
+  if (!network) {
+    throw new UnsupportedNetworkError(chainId);
+  }
+  const address = pick(network);
+  if (!address) {
+    throw new Error(`${label} is not deployed on ${network.name}`);
+  }
+  return connect(address, await provider.getSigner());
 };
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
+    return await getReadOnly(n => n.contracts.legacyAdapter, (address, provider) =>
+      new ethers.Contract(address, ABI, provider)
+    );
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
     return null;
@@ -67,20 +70,34 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return await getWithSigner(n => n.contracts.legacyAdapter, "UniversalAdapter", (address, signer) =>
+      new ethers.Contract(address, ABI, signer)
+    );
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
   }
 }
 
+export async function getCognitiveContractReadOnly(): Promise<CognitiveEnhanceFHE | null> {
+  try {
+    return await getReadOnly(n => n.contracts.cognitiveEnhance, connectCognitiveEnhance);
+  } catch (error) {
+    console.error("Failed to create read-only CognitiveEnhanceFHE contract:", error);
+    return null;
+  }
+}
+
+export async function getCognitiveContractWithSigner(): Promise<CognitiveEnhanceFHE> {
+  try {
+    return await getWithSigner(n => n.contracts.cognitiveEnhance, "CognitiveEnhanceFHE", connectCognitiveEnhance);
+  } catch (error) {
+    console.error("Failed to create CognitiveEnhanceFHE contract with signer:", error);
+    throw error;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
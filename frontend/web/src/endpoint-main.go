@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\endpoint-main.go
-// Generated at: 2025-10-16T15:16:53.568Z
\ No newline at end of file
@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import { DailySession, ExerciseKind, ExerciseProps, pointsFor, starsFor } from "./engine";
+import { ExerciseResult, saveExerciseResult } from "./sessions";
+import SequenceRecall from "./SequenceRecall";
+import FocusFilter from "./FocusFilter";
+import SpeedMatch from "./SpeedMatch";
+import RuleSwitch from "./RuleSwitch";
+
+interface ExercisePlayerProps {
+  session: DailySession;
+  onFinish: (results: ExerciseResult[]) => void;
+  onCancel: () => void;
+}
+
+const COMPONENTS: Record<ExerciseKind, React.FC<ExerciseProps>> = {
+  sequenceRecall: SequenceRecall,
+  focusFilter: FocusFilter,
+  speedMatch: SpeedMatch,
+  ruleSwitch: RuleSwitch
+};
+
+const Stars = ({ count }: { count: number }) => (
+  <span className="exercise-stars">{"★".repeat(count)}{"☆".repeat(3 - count)}</span>
+);
+
+// Plays the day's exercises in order; each result is saved as soon as it is finished
+export default function ExercisePlayer({ session, onFinish, onCancel }: ExercisePlayerProps) {
+  const [step, setStep] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<ExerciseResult[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const exercise = session.exercises[step];
+  const finished = results.length > step;
+  const totalPoints = results.reduce((sum, r) => sum + r.points, 0);
+
+  const handleComplete = async (score: number) => {
+    setRunning(false);
+    setSaving(true);
+    try {
+      const result = await saveExerciseResult({
+        planId: session.planId,
+        date: session.date,
+        kind: exercise.kind,
+        domain: exercise.domain,
+        level: exercise.level,
+        score,
+        points: pointsFor(score, exercise.level),
+        completedAt: Date.now()
+      });
+      setResults([...results, result]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (results.length === session.exercises.length) {
+    return (
+      <div className="exercise-player">
+        <div className="battery-intro">
+          <h3 className="neon-text-green">Session Complete</h3>
+          <div className="exercise-points neon-text-cyan">{totalPoints} pts</div>
+          <div className="exercise-summary">
+            {results.map((r, i) => (
+              <div key={r.id} className="exercise-summary-item">
+                <span>{session.exercises[i].title}</span>
+                <span>Lv {r.level}</span>
+                <span>{r.score}%</span>
+                <Stars count={starsFor(r.score)} />
+              </div>
+            ))}
+          </div>
+          <p className="battery-meta">Results are stored on this device until you sync them as encrypted progress.</p>
+          <div className="battery-buttons">
+            <button onClick={() => onFinish(results)} className="cyber-button neon-pink">Done</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const Exercise = COMPONENTS[exercise.kind];
+
+  return (
+    <div className="exercise-player">
+      <div className="battery-progress">
+        {session.exercises.map((e, i) => (
+          <span key={e.kind} className={`battery-step ${i < results.length ? "done" : i === step ? "current" : ""}`}>
+            {e.title}
+          </span>
+        ))}
+        <span className="exercise-points-badge neon-text-cyan">{totalPoints} pts</span>
+      </div>
+
+      {running ? (
+        <Exercise level={exercise.level} rounds={exercise.rounds} onComplete={handleComplete} />
+      ) : finished ? (
+        <div className="battery-intro">
+          <h3 className="neon-text-cyan">{exercise.title}</h3>
+          <Stars count={starsFor(results[step].score)} />
+          <p>{results[step].score}% · +{results[step].points} pts</p>
+          <div className="battery-buttons">
+            <button onClick={() => setStep(step + 1)} className="cyber-button neon-pink">Next Exercise</button>
+          </div>
+        </div>
+      ) : (
+        <div className="battery-intro">
+          <h3 className="neon-text-cyan">{exercise.title}</h3>
+          <p>{exercise.description}</p>
+          <p className="battery-meta">
+            Level {exercise.level} · {exercise.rounds} rounds · intensity {exercise.intensity}
+          </p>
+          <div className="battery-buttons">
+            <button onClick={onCancel} className="cyber-button neon-gray">Quit</button>
+            <button onClick={() => setRunning(true)} className="cyber-button neon-pink" disabled={saving}>
+              {saving ? "Saving..." : "Start"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from "react";
+import { clampScore, ExerciseProps } from "./engine";
+
+const TARGET = "X";
+const TARGET_RATE = 0.3;
+const TRIALS_PER_ROUND = 4;
+// Distractors that look like the target appear from this level on
+const LOOKALIKE_LEVEL = 3;
+
+const buildStream = (length: number, level: number): string[] => {
+  const distractors = level >= LOOKALIKE_LEVEL ? "KYVZAHMN" : "AEHMNORS";
+  return Array.from({ length }, () =>
+    Math.random() < TARGET_RATE ? TARGET : distractors[Math.floor(Math.random() * distractors.length)]
+  );
+};
+
+// Attention: respond to the target only; items arrive faster at higher levels
+export default function FocusFilter({ level, rounds, onComplete }: ExerciseProps) {
+  const itemMs = 1300 - level * 150;
+  const [stream] = useState(() => buildStream(rounds * TRIALS_PER_ROUND, level));
+  const [index, setIndex] = useState(0);
+  const [responded, setResponded] = useState(false);
+  const respondedRef = useRef(false);
+  const tally = useRef({ hits: 0, targets: 0, falseAlarms: 0, lures: 0 });
+
+  useEffect(() => {
+    setResponded(false);
+    respondedRef.current = false;
+
+    const next = setTimeout(() => {
+      const isTarget = stream[index] === TARGET;
+      const counts = tally.current;
+      if (isTarget) {
+        counts.targets++;
+        if (respondedRef.current) counts.hits++;
+      } else {
+        counts.lures++;
+        if (respondedRef.current) counts.falseAlarms++;
+      }
+
+      if (index + 1 >= stream.length) {
+        const hitRate = counts.targets > 0 ? counts.hits / counts.targets : 1;
+        const falseAlarmRate = counts.lures > 0 ? counts.falseAlarms / counts.lures : 0;
+        onComplete(clampScore((hitRate - falseAlarmRate) * 100));
+      } else {
+        setIndex(index + 1);
+      }
+    }, itemMs);
+
+    return () => clearTimeout(next);
+  }, [index]);
+
+  const handleTap = () => {
+    respondedRef.current = true;
+    setResponded(true);
+  };
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Tap only when you see {TARGET}.</p>
+      <div className={`battery-stimulus ${responded && stream[index] !== TARGET ? "neon-text-pink" : "neon-text-cyan"}`}>
+        {stream[index]}
+      </div>
+      <div className="battery-buttons">
+        <button onClick={handleTap} disabled={responded} className="cyber-button neon-pink">
+          Tap
+        </button>
+      </div>
+      <div className="battery-meta">{index + 1} / {stream.length}</div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from "react";
+import { clampScore, ExerciseProps } from "./engine";
+
+type Rule = "colour" | "shape";
+
+const TRIALS_PER_ROUND = 3;
+const COLOURS = [
+  { name: "pink", value: "#ff2a6d" },
+  { name: "cyan", value: "#00f3ff" }
+];
+const SHAPES = ["●", "■"];
+
+interface Card {
+  rule: Rule;
+  colour: number;
+  shape: number;
+}
+
+// Higher levels switch the rule more often
+const buildCards = (length: number, level: number): Card[] => {
+  const switchRate = 0.15 + level * 0.1;
+  const cards: Card[] = [];
+  let rule: Rule = Math.random() < 0.5 ? "colour" : "shape";
+  for (let i = 0; i < length; i++) {
+    if (i > 0 && Math.random() < switchRate) rule = rule === "colour" ? "shape" : "colour";
+    cards.push({ rule, colour: Math.floor(Math.random() * 2), shape: Math.floor(Math.random() * 2) });
+  }
+  return cards;
+};
+
+// Flexibility: sort each card by whichever rule is cued; cards left unanswered count as wrong
+export default function RuleSwitch({ level, rounds, onComplete }: ExerciseProps) {
+  const deadlineMs = 4000 - level * 400;
+  const [cards] = useState(() => buildCards(rounds * TRIALS_PER_ROUND, level));
+  const [index, setIndex] = useState(0);
+  const correct = useRef(0);
+
+  const advance = (answer: number | null) => {
+    const card = cards[index];
+    if (answer === (card.rule === "colour" ? card.colour : card.shape)) correct.current++;
+    if (index + 1 >= cards.length) {
+      onComplete(clampScore((correct.current / cards.length) * 100));
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  useEffect(() => {
+    const timeout = setTimeout(() => advance(null), deadlineMs);
+    return () => clearTimeout(timeout);
+  }, [index]);
+
+  const card = cards[index];
+  const options = card.rule === "colour" ? COLOURS.map(c => c.name) : SHAPES;
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Sort the card by the rule shown above it.</p>
+      <div className="battery-cue neon-text-pink">{card.rule === "colour" ? "COLOUR" : "SHAPE"}</div>
+      <div className="battery-stimulus" style={{ color: COLOURS[card.colour].value }}>
+        {SHAPES[card.shape]}
+      </div>
+      <div className="battery-buttons">
+        {options.map((option, i) => (
+          <button key={option} onClick={() => advance(i)} className="cyber-button neon-border">
+            {option}
+          </button>
+        ))}
+      </div>
+      <div className="battery-meta">{index + 1} / {cards.length}</div>
+    </div>
+  );
+}
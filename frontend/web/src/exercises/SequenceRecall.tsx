@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from "react";
+import { clampScore, ExerciseProps } from "./engine";
+
+const GAP_MS = 200;
+
+const randomSequence = (length: number) => Array.from({ length }, () => Math.floor(Math.random() * 10));
+
+// Memory: each round shows level + 2 digits, faster at higher levels
+export default function SequenceRecall({ level, rounds, onComplete }: ExerciseProps) {
+  const length = level + 2;
+  const digitMs = 900 - level * 100;
+  const [round, setRound] = useState(0);
+  const [sequence, setSequence] = useState<number[]>(() => randomSequence(length));
+  const [shown, setShown] = useState(-1);
+  const [visible, setVisible] = useState(false);
+  const [input, setInput] = useState("");
+  const [correct, setCorrect] = useState(0);
+
+  const presenting = shown < sequence.length;
+
+  useEffect(() => {
+    if (!presenting) return;
+    const hide = setTimeout(() => setVisible(false), shown < 0 ? 0 : digitMs);
+    const next = setTimeout(() => {
+      setShown(i => i + 1);
+      setVisible(true);
+    }, (shown < 0 ? 0 : digitMs) + GAP_MS);
+    return () => {
+      clearTimeout(hide);
+      clearTimeout(next);
+    };
+  }, [shown, presenting]);
+
+  const handleSubmit = () => {
+    const total = correct + (input === sequence.join("") ? 1 : 0);
+    if (round + 1 >= rounds) {
+      onComplete(clampScore((total / rounds) * 100));
+      return;
+    }
+    setCorrect(total);
+    setRound(round + 1);
+    setSequence(randomSequence(length));
+    setShown(-1);
+    setInput("");
+  };
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Remember the digits, then type them back in order.</p>
+      <div className="battery-stimulus neon-text-cyan">
+        {presenting ? (visible && shown >= 0 ? sequence[shown] : "") : "?"}
+      </div>
+      {!presenting && (
+        <div className="battery-response">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoFocus
+            value={input}
+            onChange={(e) => setInput(e.target.value.replace(/\D/g, ""))}
+            onKeyDown={(e) => e.key === "Enter" && input && handleSubmit()}
+            placeholder={`${length} digits`}
+            className="cyber-input neon-border"
+          />
+          <button onClick={handleSubmit} disabled={!input} className="cyber-button neon-cyan">
+            Submit
+          </button>
+        </div>
+      )}
+      <div className="battery-meta">Round {round + 1} / {rounds} · {correct} correct</div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from "react";
+import { clampScore, ExerciseProps } from "./engine";
+
+const SYMBOLS = ["◆", "▲", "●", "■", "★", "✚", "◐", "⬟", "✖"];
+const TRIALS_PER_ROUND = 3;
+
+interface Pair {
+  left: string;
+  right: string;
+}
+
+const randomSymbol = () => SYMBOLS[Math.floor(Math.random() * SYMBOLS.length)];
+
+const buildPairs = (length: number): Pair[] =>
+  Array.from({ length }, () => {
+    const left = randomSymbol();
+    if (Math.random() < 0.5) return { left, right: left };
+    let right = left;
+    while (right === left) right = randomSymbol();
+    return { left, right };
+  });
+
+// Processing speed: judge each pair before the deadline, which tightens with the level
+export default function SpeedMatch({ level, rounds, onComplete }: ExerciseProps) {
+  const deadlineMs = 3000 - level * 400;
+  const [pairs] = useState(() => buildPairs(rounds * TRIALS_PER_ROUND));
+  const [index, setIndex] = useState(0);
+  const [remaining, setRemaining] = useState(deadlineMs);
+  const correct = useRef(0);
+
+  const advance = (answeredCorrectly: boolean) => {
+    if (answeredCorrectly) correct.current++;
+    if (index + 1 >= pairs.length) {
+      onComplete(clampScore((correct.current / pairs.length) * 100));
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  useEffect(() => {
+    const started = performance.now();
+    setRemaining(deadlineMs);
+    const tick = setInterval(() => {
+      const left = deadlineMs - (performance.now() - started);
+      if (left <= 0) {
+        clearInterval(tick);
+        advance(false);
+      } else {
+        setRemaining(left);
+      }
+    }, 100);
+    return () => clearInterval(tick);
+  }, [index]);
+
+  const pair = pairs[index];
+
+  return (
+    <div className="battery-task">
+      <p className="battery-instructions">Same symbol or different? Answer before time runs out.</p>
+      <div className="battery-stimulus neon-text-cyan">
+        {pair.left} {pair.right}
+      </div>
+      <div className="battery-buttons">
+        <button onClick={() => advance(pair.left === pair.right)} className="cyber-button neon-border">
+          Same
+        </button>
+        <button onClick={() => advance(pair.left !== pair.right)} className="cyber-button neon-border">
+          Different
+        </button>
+      </div>
+      <div className="exercise-timer">
+        <div className="exercise-timer-fill" style={{ width: `${(remaining / deadlineMs) * 100}%` }} />
+      </div>
+      <div className="battery-meta">{index + 1} / {pairs.length}</div>
+    </div>
+  );
+}
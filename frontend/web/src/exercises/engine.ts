@@ -0,0 +1,131 @@
+// exercises/engine.ts
+import { DOMAINS, Domain, Recommendation } from "../cognitive";
+
+export type ExerciseKind = "sequenceRecall" | "focusFilter" | "speedMatch" | "ruleSwitch";
+
+export interface ExerciseDefinition {
+  kind: ExerciseKind;
+  domain: Domain;
+  title: string;
+  description: string;
+}
+
+export const EXERCISES: Record<Domain, ExerciseDefinition> = {
+  memory: {
+    kind: "sequenceRecall",
+    domain: "memory",
+    title: "Sequence Recall",
+    description: "Watch the digits, then type them back in order"
+  },
+  attention: {
+    kind: "focusFilter",
+    domain: "attention",
+    title: "Focus Filter",
+    description: "Tap for the target letter and hold back for everything else"
+  },
+  processing: {
+    kind: "speedMatch",
+    domain: "processing",
+    title: "Speed Match",
+    description: "Decide whether two symbols match before the timer runs out"
+  },
+  flexibility: {
+    kind: "ruleSwitch",
+    domain: "flexibility",
+    title: "Rule Switch",
+    description: "Sort cards by colour or shape as the rule keeps changing"
+  }
+};
+
+export const LEVEL_MIN = 1;
+export const LEVEL_MAX = 5;
+export const ROUNDS_MIN = 4;
+export const ROUNDS_MAX = 12;
+// Domains whose intensity is below this get no practice today
+const SKIP_BELOW = 10;
+// Rough minutes per round, used only for the session estimate
+const MINUTES_PER_ROUND = 0.25;
+
+export interface PlannedExercise extends ExerciseDefinition {
+  intensity: number;
+  level: number;
+  rounds: number;
+}
+
+// Every exercise reports a single 0-100 score for the rounds it ran
+export interface ExerciseProps {
+  level: number;
+  rounds: number;
+  onComplete: (score: number) => void;
+}
+
+export interface DailySession {
+  planId: string;
+  date: string;
+  exercises: PlannedExercise[];
+  minutes: number;
+}
+
+const intensityOf = (plan: Recommendation, domain: Domain): number => {
+  switch (domain) {
+    case "memory":
+      return plan.memoryTraining;
+    case "attention":
+      return plan.attentionTraining;
+    case "processing":
+      return plan.processingTraining;
+    case "flexibility":
+      return plan.flexibilityTraining;
+  }
+};
+
+const scale = (intensity: number, min: number, max: number) =>
+  min + Math.round((Math.max(0, Math.min(100, intensity)) / 100) * (max - min));
+
+export const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+export const todayKey = (now = new Date()) => now.toISOString().slice(0, 10);
+
+// Weak domains (high intensity) get more rounds but start at an easier level; once the contract has
+// derived an adaptive difficulty from earlier sessions, that level applies to every exercise
+export function planExercise(domain: Domain, intensity: number, difficulty: number | null = null): PlannedExercise {
+  return {
+    ...EXERCISES[domain],
+    intensity,
+    level: difficulty !== null
+      ? Math.max(LEVEL_MIN, Math.min(LEVEL_MAX, difficulty))
+      : LEVEL_MAX + LEVEL_MIN - scale(intensity, LEVEL_MIN, LEVEL_MAX),
+    rounds: scale(intensity, ROUNDS_MIN, ROUNDS_MAX)
+  };
+}
+
+// Most intense domains come first; a plan with nothing above the cut-off still gets its top domain
+export function buildDailySession(
+  planId: string,
+  plan: Recommendation,
+  difficulty: number | null = null,
+  date = todayKey()
+): DailySession {
+  const ranked = DOMAINS
+    .map(({ key }) => planExercise(key, intensityOf(plan, key), difficulty))
+    .sort((a, b) => b.intensity - a.intensity);
+  const exercises = ranked.filter(e => e.intensity >= SKIP_BELOW);
+  if (exercises.length === 0) exercises.push(ranked[0]);
+
+  return {
+    planId,
+    date,
+    exercises,
+    minutes: Math.ceil(exercises.reduce((sum, e) => sum + e.rounds, 0) * MINUTES_PER_ROUND)
+  };
+}
+
+export function describeSession(session: DailySession): string {
+  const focus = DOMAINS.find(d => d.key === session.exercises[0].domain)?.label;
+  return `${session.exercises.length} exercises · ~${session.minutes} min · focus: ${focus}`;
+}
+
+// Three stars for near-perfect play, none below 40
+export const starsFor = (score: number) => (score >= 90 ? 3 : score >= 70 ? 2 : score >= 40 ? 1 : 0);
+
+export const pointsFor = (score: number, level: number) => Math.round(score * level);
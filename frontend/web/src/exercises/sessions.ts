@@ -0,0 +1,116 @@
+// exercises/sessions.ts
+import type { Domain } from "../cognitive";
+import type { ExerciseKind } from "./engine";
+
+// Exercise outcomes stay on this device until they are folded into an encrypted progress update
+export interface ExerciseResult {
+  id?: number;
+  planId: string;
+  date: string;
+  kind: ExerciseKind;
+  domain: Domain;
+  level: number;
+  score: number;
+  points: number;
+  completedAt: number;
+  synced: boolean;
+}
+
+const DB_NAME = "neurofhe-training";
+const DB_VERSION = 1;
+
+// Used when IndexedDB is unavailable; results then last until the tab closes
+const memory: ExerciseResult[] = [];
+let nextMemoryId = 1;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore("results", { keyPath: "id", autoIncrement: true });
+        store.createIndex("planId", "planId");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.error("IndexedDB unavailable, keeping exercise results in memory:", req.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export async function saveExerciseResult(result: Omit<ExerciseResult, "id" | "synced">): Promise<ExerciseResult> {
+  const db = await openDb();
+  const record: ExerciseResult = { ...result, synced: false };
+  if (!db) {
+    record.id = nextMemoryId++;
+    memory.push(record);
+    return record;
+  }
+
+  const tx = db.transaction("results", "readwrite");
+  record.id = Number(await request(tx.objectStore("results").add(record)));
+  return record;
+}
+
+export async function listExerciseResults(planId: string): Promise<ExerciseResult[]> {
+  const db = await openDb();
+  const results = db
+    ? await request<ExerciseResult[]>(db.transaction("results").objectStore("results").index("planId").getAll(planId))
+    : memory.filter(r => r.planId === planId);
+  return results.sort((a, b) => a.completedAt - b.completedAt);
+}
+
+// Flags the given results once their progress update has been confirmed on-chain
+export async function markSynced(results: ExerciseResult[]): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    const ids = new Set(results.map(r => r.id));
+    memory.forEach(r => {
+      if (ids.has(r.id)) r.synced = true;
+    });
+    return;
+  }
+
+  const tx = db.transaction("results", "readwrite");
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  for (const result of results) tx.objectStore("results").put({ ...result, synced: true });
+  return done;
+}
+
+// The on-chain progress value is a single 0-100 figure, so pending results are averaged
+export function pendingProgress(results: ExerciseResult[]): number | null {
+  const pending = results.filter(r => !r.synced);
+  if (pending.length === 0) return null;
+  return Math.round(pending.reduce((sum, r) => sum + r.score, 0) / pending.length);
+}
+
+// Consecutive days up to today with at least one finished exercise
+export function currentStreak(results: ExerciseResult[], today: string): number {
+  const days = new Set(results.map(r => r.date));
+  const cursor = new Date(`${today}T00:00:00Z`);
+  let streak = 0;
+  while (days.has(cursor.toISOString().slice(0, 10))) {
+    streak++;
+    cursor.setUTCDate(cursor.getUTCDate() - 1);
+  }
+  return streak;
+}
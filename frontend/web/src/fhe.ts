@@ -0,0 +1,76 @@
+// fhe.ts
+import { initSDK, createInstance, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { ethers } from "ethers";
+import type { Signer } from "ethers";
+import { createDecryptionSession, isSessionValid, DecryptionSession } from "../../../sdk";
+import { NetworkProfile, requireNetwork } from "./networks";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+let session: DecryptionSession | null = null;
+
+// The relayer SDK loads its WASM modules once; every caller shares the same instance
+export function getFheInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (!window.ethereum) {
+        throw new Error("No injected wallet");
+      }
+      const network = await requireNetwork();
+      const { fhe } = network;
+      if (!fhe.relayerUrl) {
+        return createMockInstance(network);
+      }
+      await initSDK();
+      return createInstance({
+        ...SepoliaConfig,
+        chainId: network.chainId,
+        gatewayChainId: fhe.gatewayChainId,
+        relayerUrl: fhe.relayerUrl,
+        aclContractAddress: fhe.aclContractAddress ?? SepoliaConfig.aclContractAddress,
+        kmsContractAddress: fhe.kmsContractAddress ?? SepoliaConfig.kmsContractAddress,
+        inputVerifierContractAddress: fhe.inputVerifierContractAddress ?? SepoliaConfig.inputVerifierContractAddress,
+        verifyingContractAddressDecryption: fhe.verifyingContractAddressDecryption,
+        verifyingContractAddressInputVerification: fhe.verifyingContractAddressInputVerification,
+        network: window.ethereum
+      });
+    })();
+
+    instancePromise.catch(() => {
+      instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
+
+// A local fhevm mock node has no relayer: it reports its host contracts itself and the mock
+// library encrypts and decrypts against them, so development needs no testnet access
+const createMockInstance = async (network: NetworkProfile): Promise<FhevmInstance> => {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0]);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    chainId: network.chainId,
+    gatewayChainId: network.fhe.gatewayChainId,
+    verifyingContractAddressDecryption: network.fhe.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.fhe.verifyingContractAddressInputVerification
+  });
+  return instance as unknown as FhevmInstance;
+};
+
+// One EIP-712 signature covers every reveal until it expires; the keypair is kept in memory only
+export async function getDecryptionSession(signer: Signer, contractAddress: string): Promise<DecryptionSession> {
+  const user = (await signer.getAddress()).toLowerCase();
+  if (
+    session &&
+    isSessionValid(session) &&
+    session.userAddress.toLowerCase() === user &&
+    session.contractAddress.toLowerCase() === contractAddress.toLowerCase()
+  ) {
+    return session;
+  }
+  session = await createDecryptionSession(await getFheInstance(), signer, contractAddress);
+  return session;
+}
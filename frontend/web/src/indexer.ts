@@ -0,0 +1,358 @@
+// indexer.ts
+import { ethers } from "ethers";
+import * as sdk from "../../../sdk";
+import { getCognitiveContractReadOnly, getContractReadOnly } from "./contract";
+import { getActiveChainId, resolveNetwork } from "./networks";
+import type { TestResult } from "./cognitive";
+import { isLegacyRecordKey, parseLegacyRecord, LegacyRecord } from "./legacy";
+import type { NetworkProfile } from "./networks";
+
+export interface IndexedResult extends TestResult {
+  lastProgressBlock: number | null;
+}
+
+export interface ReadModel {
+  results: IndexedResult[];
+  legacy: LegacyRecord[];
+}
+
+type Source = "cognitive" | "legacy";
+
+interface Cursor {
+  source: Source;
+  address: string;
+  block: number;
+}
+
+interface PlanLink {
+  planId: string;
+  resultId: string;
+}
+
+// One database per chain, so switching networks never mixes their records
+const DB_PREFIX = "neurofhe-index";
+// Bump whenever the stored shapes change; upgrades drop everything and re-index from the chain
+const DB_VERSION = 2;
+// Public testnet RPCs reject wide eth_getLogs ranges
+const LOG_CHUNK = 2000;
+// Results submitted in one chunk are fetched a few at a time, so replaying a busy range doesn't flood the RPC
+const FETCH_CONCURRENCY = 4;
+
+// In-memory mirror of the database; IndexedDB only persists it between visits
+const state = {
+  results: new Map<string, IndexedResult>(),
+  plans: new Map<string, PlanLink>(),
+  legacy: new Map<string, LegacyRecord>(),
+  cursors: new Map<Source, Cursor>()
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let loaded: Promise<void> | null = null;
+let syncing: Promise<ReadModel> | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Falls back to memory only when IndexedDB is unavailable, e.g. in some private browsing modes
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = getActiveChainId().then((chainId) => new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const req = indexedDB.open(`${DB_PREFIX}-${chainId}`, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        for (const name of Array.from(db.objectStoreNames)) db.deleteObjectStore(name);
+        db.createObjectStore("results", { keyPath: "resultId" });
+        db.createObjectStore("plans", { keyPath: "planId" });
+        db.createObjectStore("legacy", { keyPath: "id" });
+        db.createObjectStore("cursors", { keyPath: "source" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.error("IndexedDB unavailable, indexing in memory:", req.error);
+        resolve(null);
+      };
+    }));
+  }
+  return dbPromise;
+};
+
+const persist = async (
+  writes: { results?: IndexedResult[]; plans?: PlanLink[]; legacy?: LegacyRecord[]; cursor?: Cursor },
+  clear: string[] = []
+) => {
+  const db = await openDb();
+  if (!db) return;
+
+  const tx = db.transaction(["results", "plans", "legacy", "cursors"], "readwrite");
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  for (const store of clear) tx.objectStore(store).clear();
+  for (const result of writes.results || []) tx.objectStore("results").put(result);
+  for (const plan of writes.plans || []) tx.objectStore("plans").put(plan);
+  for (const record of writes.legacy || []) tx.objectStore("legacy").put(record);
+  if (writes.cursor) tx.objectStore("cursors").put(writes.cursor);
+
+  return done;
+};
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loaded) {
+    loaded = (async () => {
+      const db = await openDb();
+      if (!db) return;
+
+      const tx = db.transaction(["results", "plans", "legacy", "cursors"], "readonly");
+      const [results, plans, legacy, cursors] = await Promise.all([
+        request<IndexedResult[]>(tx.objectStore("results").getAll()),
+        request<PlanLink[]>(tx.objectStore("plans").getAll()),
+        request<LegacyRecord[]>(tx.objectStore("legacy").getAll()),
+        request<Cursor[]>(tx.objectStore("cursors").getAll())
+      ]);
+
+      results.forEach((r) => state.results.set(r.resultId, r));
+      plans.forEach((p) => state.plans.set(p.planId, p));
+      legacy.forEach((r) => state.legacy.set(r.id, r));
+      cursors.forEach((c) => state.cursors.set(c.source, c));
+    })();
+  }
+  return loaded;
+};
+
+const snapshot = (): ReadModel => ({
+  results: Array.from(state.results.values()),
+  legacy: Array.from(state.legacy.values())
+});
+
+// Deployments recorded without their block are found by binary search over historical code. An RPC that doesn't
+// serve historical state can't answer that, so the replay then starts from genesis.
+const findDeployBlock = async (provider: ethers.Provider, address: string, latest: number) => {
+  try {
+    let low = 0;
+    let high = latest;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await provider.getCode(address, mid)) === "0x") low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  } catch (e) {
+    console.error(`Could not locate the deployment block of ${address}, replaying from genesis:`, e);
+    return 0;
+  }
+};
+
+// The cursor sits just before the deployment block, so following it from there replays every event
+const startCursor = async (
+  source: Source,
+  contract: keyof NetworkProfile["deployBlocks"],
+  provider: ethers.Provider,
+  address: string,
+  latest: number
+): Promise<Cursor> => {
+  const recorded = (await resolveNetwork())?.deployBlocks[contract] ?? null;
+  const block = recorded ?? (await findDeployBlock(provider, address, latest));
+  return { source, address, block: block - 1 };
+};
+
+// A cursor for another deployment means the stored model is stale
+const cursorFor = (source: Source, address: string): Cursor | null => {
+  const cursor = state.cursors.get(source);
+  return cursor && cursor.address.toLowerCase() === address.toLowerCase() ? cursor : null;
+};
+
+const fetchResults = async (contract: sdk.CognitiveEnhanceFHE, resultIds: bigint[]) => {
+  const fetched = new Map<string, sdk.TestResult>();
+  for (let i = 0; i < resultIds.length; i += FETCH_CONCURRENCY) {
+    const batch = resultIds.slice(i, i + FETCH_CONCURRENCY);
+    const results = await Promise.all(batch.map((id) => sdk.getTestResult(contract, id)));
+    results.forEach((result, j) => fetched.set(batch[j].toString(), result));
+  }
+  return fetched;
+};
+
+const followCognitive = async (contract: sdk.CognitiveEnhanceFHE, cursor: Cursor, latest: number) => {
+  const provider = contract.runner!.provider!;
+
+  for (let from = cursor.block + 1; from <= latest; from += LOG_CHUNK) {
+    const to = Math.min(from + LOG_CHUNK - 1, latest);
+    const logs = await provider.getLogs({ address: cursor.address, fromBlock: from, toBlock: to });
+    const events = logs.map((log) => sdk.decodeEvent(log)).filter((e): e is sdk.CognitiveEvent => e !== null);
+    const submittedIds = events.flatMap((e) => (e.name === "TestSubmitted" ? [e.resultId] : []));
+    const submitted = await fetchResults(contract, submittedIds.filter((id) => !state.results.has(id.toString())));
+    const dirtyResults = new Map<string, IndexedResult>();
+    const dirtyPlans: PlanLink[] = [];
+
+    for (const event of events) {
+      if (event.name === "TestSubmitted") {
+        const resultId = event.resultId.toString();
+        const result = submitted.get(resultId);
+        if (!result || state.results.has(resultId)) continue;
+        const indexed: IndexedResult = {
+          resultId,
+          owner: event.owner,
+          timestamp: Number(event.timestamp),
+          handles: result.handles,
+          planId: null,
+          planStatus: null,
+          planExpiresAt: null,
+          legacyId: null,
+          lastProgressBlock: null
+        };
+        state.results.set(resultId, indexed);
+        dirtyResults.set(resultId, indexed);
+      } else if (event.name === "PlanGenerated") {
+        const link = { planId: event.planId.toString(), resultId: event.resultId.toString() };
+        state.plans.set(link.planId, link);
+        dirtyPlans.push(link);
+        const result = state.results.get(link.resultId);
+        if (result) {
+          result.planId = link.planId;
+          dirtyResults.set(result.resultId, result);
+        }
+      } else if (event.name === "PlanStatusChanged") {
+        const link = state.plans.get(event.planId.toString());
+        const result = link && state.results.get(link.resultId);
+        if (result) {
+          result.planStatus = event.next;
+          result.planExpiresAt = Number(event.expiresAt);
+          dirtyResults.set(result.resultId, result);
+        }
+      } else if (event.name === "LegacyRecordImported") {
+        const result = state.results.get(event.resultId.toString());
+        if (result) {
+          result.legacyId = event.legacyId;
+          dirtyResults.set(result.resultId, result);
+        }
+      } else if (event.name === "ProgressUpdated") {
+        const link = state.plans.get(event.planId.toString());
+        const result = link && state.results.get(link.resultId);
+        if (result && (result.lastProgressBlock ?? -1) < event.blockNumber) {
+          result.lastProgressBlock = event.blockNumber;
+          dirtyResults.set(result.resultId, result);
+        }
+      }
+    }
+
+    const next: Cursor = { ...cursor, block: to };
+    state.cursors.set("cognitive", next);
+    await persist({ results: Array.from(dirtyResults.values()), plans: dirtyPlans, cursor: next });
+  }
+};
+
+// Replays the contract's events from the block it was deployed in, the same way they are followed. The cursor is
+// saved after every chunk, so an interrupted bootstrap carries on from there on the next sync.
+const bootstrapCognitive = async (contract: sdk.CognitiveEnhanceFHE, address: string, latest: number) => {
+  const cursor = await startCursor("cognitive", "cognitiveEnhance", contract.runner!.provider!, address, latest);
+  state.results.clear();
+  state.plans.clear();
+  state.cursors.set("cognitive", cursor);
+  await persist({ cursor }, ["results", "plans"]);
+  await followCognitive(contract, cursor, latest);
+};
+
+const followLegacy = async (contract: ethers.Contract, cursor: Cursor, latest: number) => {
+  for (let from = cursor.block + 1; from <= latest; from += LOG_CHUNK) {
+    const to = Math.min(from + LOG_CHUNK - 1, latest);
+    const events = await contract.queryFilter(contract.filters.DataStored(), from, to);
+    const dirty: LegacyRecord[] = [];
+
+    for (const event of events) {
+      if (!("args" in event)) continue;
+      const { key, value } = event.args;
+      if (!isLegacyRecordKey(key)) continue;
+
+      const record = parseLegacyRecord(key.substring("training_".length), value);
+      if (record) {
+        state.legacy.set(record.id, record);
+        dirty.push(record);
+      }
+    }
+
+    const next: Cursor = { ...cursor, block: to };
+    state.cursors.set("legacy", next);
+    await persist({ legacy: dirty, cursor: next });
+  }
+};
+
+// Every record write emitted DataStored with the full value, so replaying those logs rebuilds the records
+// without reading each key back from the adapter
+const bootstrapLegacy = async (contract: ethers.Contract, address: string, latest: number) => {
+  const cursor = await startCursor("legacy", "legacyAdapter", contract.runner!.provider!, address, latest);
+  state.legacy.clear();
+  state.cursors.set("legacy", cursor);
+  await persist({ cursor }, ["legacy"]);
+  await followLegacy(contract, cursor, latest);
+};
+
+const syncCognitive = async () => {
+  const contract = await getCognitiveContractReadOnly();
+  if (!contract) return;
+
+  const address = await contract.getAddress();
+  const latest = await contract.runner!.provider!.getBlockNumber();
+  const cursor = cursorFor("cognitive", address);
+  if (!cursor) {
+    await bootstrapCognitive(contract, address, latest);
+    return;
+  }
+  await followCognitive(contract, cursor, latest);
+};
+
+const syncLegacy = async () => {
+  const contract = await getContractReadOnly();
+  if (!contract) return;
+
+  const address = await contract.getAddress();
+  const latest = await contract.runner!.provider!.getBlockNumber();
+  const cursor = cursorFor("legacy", address);
+  if (!cursor) {
+    await bootstrapLegacy(contract, address, latest);
+    return;
+  }
+  await followLegacy(contract, cursor, latest);
+};
+
+// Returns whatever was indexed on a previous visit without touching the network
+export async function loadReadModel(): Promise<ReadModel> {
+  await ensureLoaded();
+  return snapshot();
+}
+
+// Catches the read model up to the latest block; concurrent callers share one run
+export function syncIndex(): Promise<ReadModel> {
+  if (!syncing) {
+    syncing = (async () => {
+      await ensureLoaded();
+      const [cognitive, legacy] = await Promise.allSettled([syncCognitive(), syncLegacy()]);
+      if (cognitive.status === "rejected") console.error("Error indexing assessments:", cognitive.reason);
+      if (legacy.status === "rejected") console.error("Error indexing legacy records:", legacy.reason);
+      return snapshot();
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+// Adds results from a verified backup that the index doesn't hold yet; what was indexed from the chain wins.
+// Without a cursor the next sync still bootstraps from the chain, so a restore never hides newer state.
+export async function restoreReadModel(results: IndexedResult[]): Promise<ReadModel> {
+  await ensureLoaded();
+  const added = results.filter((r) => !state.results.has(r.resultId));
+  const links = added.filter((r) => r.planId).map((r) => ({ planId: r.planId as string, resultId: r.resultId }));
+  added.forEach((r) => state.results.set(r.resultId, r));
+  links.forEach((link) => state.plans.set(link.planId, link));
+  await persist({ results: added, plans: links });
+  return snapshot();
+}
@@ -0,0 +1,76 @@
+// legacy.ts
+import { ethers } from "ethers";
+import { getContractReadOnly } from "./contract";
+
+// Record shape written by the retired UniversalAdapter key-value flow
+export interface LegacyRecord {
+  id: string;
+  resultId: string | null;
+  encryptedData: string;
+  timestamp: number;
+  owner: string;
+  category: string;
+  cognitiveScore: number | null;
+  trainingPlan: string;
+  status: "pending" | "active" | "completed";
+}
+
+export const isLegacyRecordKey = (key: string) => key.startsWith("training_") && key !== "training_keys";
+
+// Returns null for empty or malformed payloads
+export function parseLegacyRecord(id: string, bytes: string): LegacyRecord | null {
+  if (ethers.dataLength(bytes) === 0) return null;
+  try {
+    const recordData = JSON.parse(ethers.toUtf8String(bytes));
+    return {
+      id,
+      resultId: recordData.resultId || null,
+      encryptedData: recordData.data,
+      timestamp: recordData.timestamp,
+      owner: recordData.owner,
+      category: recordData.category,
+      cognitiveScore: typeof recordData.cognitiveScore === "number" ? recordData.cognitiveScore : null,
+      trainingPlan: recordData.trainingPlan || "Custom FHE Plan",
+      status: recordData.status || "pending"
+    };
+  } catch (e) {
+    console.error(`Error parsing record data for ${id}:`, e);
+    return null;
+  }
+}
+
+// Read-only import of `training_*` records; nothing is ever written back to the adapter
+export async function importLegacyRecords(): Promise<LegacyRecord[]> {
+  const contract = await getContractReadOnly();
+  if (!contract) return [];
+
+  const isAvailable = await contract.isAvailable();
+  if (!isAvailable) {
+    console.error("Legacy adapter is not available");
+    return [];
+  }
+
+  const keysBytes = await contract.getData("training_keys");
+  let keys: string[] = [];
+
+  if (keysBytes.length > 0) {
+    try {
+      keys = JSON.parse(ethers.toUtf8String(keysBytes));
+    } catch (e) {
+      console.error("Error parsing training keys:", e);
+    }
+  }
+
+  const list: LegacyRecord[] = [];
+
+  for (const key of keys) {
+    try {
+      const record = parseLegacyRecord(key, await contract.getData(`training_${key}`));
+      if (record) list.push(record);
+    } catch (e) {
+      console.error(`Error loading record ${key}:`, e);
+    }
+  }
+
+  return list;
+}
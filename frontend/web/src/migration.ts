@@ -0,0 +1,46 @@
+// migration.ts
+import { importLegacyRecords, LegacyRecord } from "./legacy";
+import { importLegacyRecord, isLegacyImported, isValidScore, CognitiveScores } from "./cognitive";
+
+export interface MigrationSummary {
+  imported: number;
+  alreadyImported: number;
+  skipped: number;
+}
+
+// Legacy records carry one plaintext score and no result of their own; scores outside the valid range are skipped
+export const isMigratable = (record: LegacyRecord, account: string) =>
+  record.owner?.toLowerCase() === account.toLowerCase() &&
+  record.cognitiveScore !== null &&
+  isValidScore(record.cognitiveScore) &&
+  !record.resultId;
+
+// Rebuilds the caller's append-only on-chain index from the `training_*` keys of the retired adapter.
+// Safe to re-run: the contract refuses a second import of the same legacy id.
+export async function migrateLegacyRecords(
+  account: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<MigrationSummary> {
+  const records = await importLegacyRecords();
+  const candidates = records.filter(r => isMigratable(r, account));
+  const summary: MigrationSummary = {
+    imported: 0,
+    alreadyImported: 0,
+    skipped: records.filter(r => r.owner?.toLowerCase() === account.toLowerCase()).length - candidates.length
+  };
+
+  for (const [i, record] of candidates.entries()) {
+    if (await isLegacyImported(account, record.id)) {
+      summary.alreadyImported++;
+    } else {
+      const score = record.cognitiveScore as number;
+      // Legacy records hold one overall score, so every domain receives it
+      const scores: CognitiveScores = { memory: score, attention: score, processing: score, flexibility: score };
+      await importLegacyRecord(record.id, scores);
+      summary.imported++;
+    }
+    onProgress?.(i + 1, candidates.length);
+  }
+
+  return summary;
+}
@@ -0,0 +1,100 @@
+// networks.ts
+import registryJson from "./config.json";
+
+// A null relayer marks an fhevm mock node, which serves the host contract addresses itself
+export interface FheProfile {
+  relayerUrl: string | null;
+  gatewayChainId: number;
+  aclContractAddress: string | null;
+  kmsContractAddress: string | null;
+  inputVerifierContractAddress: string | null;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+export interface NetworkProfile {
+  chainId: number;
+  name: string;
+  currency: { name: string; symbol: string; decimals: number };
+  // Tried in order for reads; the wallet's own RPC is used for transactions
+  rpcUrls: string[];
+  explorerUrl: string | null;
+  // Empty when nothing is deployed on the chain
+  contracts: { cognitiveEnhance: string; legacyAdapter: string };
+  // Blocks the contracts were deployed in, where the indexer starts replaying their events; null when unrecorded
+  deployBlocks: { cognitiveEnhance: number | null; legacyAdapter: number | null };
+  deployer: string;
+  fhe: FheProfile;
+}
+
+interface NetworkRegistry {
+  defaultChainId: number;
+  networks: Record<string, Omit<NetworkProfile, "chainId">>;
+}
+
+const registry: NetworkRegistry = registryJson;
+
+export const DEFAULT_CHAIN_ID = registry.defaultChainId;
+
+export const NETWORKS: NetworkProfile[] = Object.entries(registry.networks).map(([chainId, profile]) => ({
+  ...profile,
+  chainId: Number(chainId)
+}));
+
+export function getNetworkProfile(chainId: number): NetworkProfile | null {
+  return NETWORKS.find(n => n.chainId === chainId) || null;
+}
+
+export const defaultNetwork = (): NetworkProfile => getNetworkProfile(DEFAULT_CHAIN_ID)!;
+
+export class UnsupportedNetworkError extends Error {
+  readonly chainId: number;
+
+  constructor(chainId: number) {
+    super(`Unsupported network (chain ${chainId}); switch to ${NETWORKS.map(n => n.name).join(" or ")}`);
+    this.name = "UnsupportedNetworkError";
+    this.chainId = chainId;
+  }
+}
+
+// The injected wallet's chain, or the default chain when no wallet is present
+export async function getActiveChainId(): Promise<number> {
+  if (!window.ethereum) return DEFAULT_CHAIN_ID;
+  try {
+    return Number(await window.ethereum.request({ method: "eth_chainId" }));
+  } catch (e) {
+    return DEFAULT_CHAIN_ID;
+  }
+}
+
+// Resolves to null when the wallet is on a chain the registry doesn't know
+export async function resolveNetwork(): Promise<NetworkProfile | null> {
+  return getNetworkProfile(await getActiveChainId());
+}
+
+export async function requireNetwork(): Promise<NetworkProfile> {
+  const chainId = await getActiveChainId();
+  const network = getNetworkProfile(chainId);
+  if (!network) throw new UnsupportedNetworkError(chainId);
+  return network;
+}
+
+// Asks the wallet to switch chains, registering the chain first if the wallet doesn't know it
+export async function switchWalletNetwork(provider: any, network: NetworkProfile = defaultNetwork()): Promise<void> {
+  const chainId = "0x" + network.chainId.toString(16);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (switchError: any) {
+    if (switchError.code !== 4902) throw switchError;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.currency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+      }]
+    });
+  }
+}
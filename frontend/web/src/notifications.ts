@@ -0,0 +1,71 @@
+// notifications.ts
+export type NotificationStatus = "pending" | "success" | "error";
+
+export interface AppNotification {
+  id: number;
+  status: NotificationStatus;
+  message: string;
+  createdAt: number;
+  updatedAt: number;
+  // Read notifications stay in the center but no longer show as toasts
+  read: boolean;
+}
+
+type Listener = (notifications: AppNotification[]) => void;
+
+// Older entries drop off the center once there are more than this
+const MAX_NOTIFICATIONS = 50;
+
+let notifications: AppNotification[] = [];
+let nextId = 1;
+const listeners = new Set<Listener>();
+
+const emit = () => {
+  const snapshot = [...notifications];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+// Returns the id to update the notification with once the operation settles
+export function notify(status: NotificationStatus, message: string): number {
+  const now = Date.now();
+  const id = nextId++;
+  notifications = [{ id, status, message, createdAt: now, updatedAt: now, read: false }, ...notifications].slice(
+    0,
+    MAX_NOTIFICATIONS
+  );
+  emit();
+  return id;
+}
+
+// A settled notification is shown again as unread, so errors aren't missed
+export function updateNotification(id: number, status: NotificationStatus, message: string): void {
+  notifications = notifications.map(n =>
+    n.id === id ? { ...n, status, message, updatedAt: Date.now(), read: n.read && status === "pending" } : n
+  );
+  emit();
+}
+
+export function markRead(id: number): void {
+  notifications = notifications.map(n => (n.id === id ? { ...n, read: true } : n));
+  emit();
+}
+
+export function markAllRead(): void {
+  notifications = notifications.map(n => (n.status === "pending" ? n : { ...n, read: true }));
+  emit();
+}
+
+export function clearNotifications(): void {
+  notifications = notifications.filter(n => n.status === "pending");
+  emit();
+}
+
+export function listNotifications(): AppNotification[] {
+  return [...notifications];
+}
+
+export function onNotifications(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
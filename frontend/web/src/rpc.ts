@@ -0,0 +1,297 @@
+// rpc.ts
+import { ethers, FetchRequest, JsonRpcApiProvider, JsonRpcProvider, Network } from "ethers";
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from "ethers";
+import type { NetworkProfile } from "./networks";
+
+const REQUEST_TIMEOUT = 10000;
+const PROBE_INTERVAL = 60000;
+// An endpoint that fails this many calls in a row sits out COOLDOWN before being tried again
+const MAX_CONSECUTIVE_FAILURES = 3;
+const COOLDOWN = 30000;
+// Error rates are taken over the last WINDOW calls; latency is an exponential moving average
+const WINDOW = 20;
+const LATENCY_SMOOTHING = 0.3;
+// Endpoints this many blocks behind the best one count as failing
+const MAX_BLOCK_LAG = 5;
+
+export interface EndpointStatus {
+  url: string;
+  latency: number | null;
+  errorRate: number;
+  blockNumber: number | null;
+  lastError: string | null;
+  coolingUntil: number | null;
+}
+
+export interface RpcStatus {
+  chainId: number;
+  network: string;
+  active: string | null;
+  // False once every endpoint is cooling down
+  healthy: boolean;
+  checkedAt: number | null;
+  endpoints: EndpointStatus[];
+}
+
+export class RpcMismatchError extends Error {
+  constructor(urls: string[]) {
+    super(`RPC endpoints disagree: ${urls.join(", ")}`);
+    this.name = "RpcMismatchError";
+  }
+}
+
+interface Endpoint {
+  provider: JsonRpcProvider;
+  status: EndpointStatus;
+  outcomes: boolean[];
+  consecutiveFailures: number;
+}
+
+interface Pool {
+  network: NetworkProfile;
+  endpoints: Endpoint[];
+  provider: ManagedProvider;
+  checkedAt: number | null;
+  probing: Promise<void> | null;
+}
+
+type Listener = (status: RpcStatus) => void;
+
+const pools = new Map<number, Pool>();
+const listeners = new Set<Listener>();
+
+const score = (endpoint: Endpoint) =>
+  (endpoint.status.latency ?? REQUEST_TIMEOUT) * (1 + endpoint.status.errorRate * 4);
+
+const isCooling = (endpoint: Endpoint, now = Date.now()) =>
+  endpoint.status.coolingUntil !== null && endpoint.status.coolingUntil > now;
+
+// Best first; cooling endpoints go last so a fully degraded pool still tries the one recovering soonest
+const ranked = (pool: Pool): Endpoint[] => {
+  const now = Date.now();
+  const available = pool.endpoints.filter(e => !isCooling(e, now)).sort((a, b) => score(a) - score(b));
+  const cooling = pool.endpoints
+    .filter(e => isCooling(e, now))
+    .sort((a, b) => a.status.coolingUntil! - b.status.coolingUntil!);
+  return [...available, ...cooling];
+};
+
+const statusOf = (pool: Pool): RpcStatus => {
+  const order = ranked(pool);
+  return {
+    chainId: pool.network.chainId,
+    network: pool.network.name,
+    active: order.length > 0 ? order[0].status.url : null,
+    healthy: pool.endpoints.some(e => !isCooling(e)),
+    checkedAt: pool.checkedAt,
+    endpoints: pool.endpoints.map(e => ({ ...e.status }))
+  };
+};
+
+const notify = (pool: Pool) => {
+  const status = statusOf(pool);
+  listeners.forEach(listener => listener(status));
+};
+
+const record = (endpoint: Endpoint, latency: number | null, error?: unknown) => {
+  const { status } = endpoint;
+  endpoint.outcomes = [...endpoint.outcomes, !error].slice(-WINDOW);
+  status.errorRate = endpoint.outcomes.filter(ok => !ok).length / endpoint.outcomes.length;
+
+  if (error) {
+    status.lastError = error instanceof Error ? error.message : String(error);
+    endpoint.consecutiveFailures += 1;
+    if (endpoint.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      status.coolingUntil = Date.now() + COOLDOWN;
+      endpoint.consecutiveFailures = 0;
+    }
+    return;
+  }
+  endpoint.consecutiveFailures = 0;
+  status.coolingUntil = null;
+  if (latency !== null) {
+    status.latency = status.latency === null ? latency : status.latency + LATENCY_SMOOTHING * (latency - status.latency);
+  }
+};
+
+const sendTo = async (endpoint: Endpoint, payload: JsonRpcPayload | Array<JsonRpcPayload>) => {
+  const started = performance.now();
+  try {
+    const result = await endpoint.provider._send(payload);
+    record(endpoint, performance.now() - started);
+    return result;
+  } catch (e) {
+    record(endpoint, null, e);
+    throw e;
+  }
+};
+
+// Transport failures move on to the next endpoint; JSON-RPC errors such as reverts are real answers and are returned
+const send = async (pool: Pool, payload: JsonRpcPayload | Array<JsonRpcPayload>) => {
+  let lastError: unknown = null;
+  try {
+    for (const endpoint of ranked(pool)) {
+      try {
+        return await sendTo(endpoint, payload);
+      } catch (e) {
+        lastError = e;
+      }
+    }
+  } finally {
+    notify(pool);
+  }
+  throw new Error(`All ${pool.network.name} RPC endpoints failed` + (lastError instanceof Error ? `: ${lastError.message}` : ""));
+};
+
+// One ethers provider per chain whose requests always go to the pool's healthiest endpoint
+class ManagedProvider extends JsonRpcApiProvider {
+  readonly #pool: Pool;
+
+  constructor(pool: Pool, network: Network) {
+    super(network, { staticNetwork: network });
+    this.#pool = pool;
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    return send(this.#pool, payload);
+  }
+}
+
+const blockNumberPayload = (): JsonRpcPayload => ({ method: "eth_blockNumber", params: [], id: 1, jsonrpc: "2.0" });
+
+// Measures every endpoint at once and fails the ones that fell behind the chain head
+const probe = (pool: Pool): Promise<void> => {
+  if (!pool.probing) {
+    pool.probing = (async () => {
+      await Promise.all(pool.endpoints.map(async (endpoint) => {
+        try {
+          const [response] = await sendTo(endpoint, blockNumberPayload());
+          endpoint.status.blockNumber = "result" in response ? Number(response.result) : null;
+        } catch (e) {
+          endpoint.status.blockNumber = null;
+        }
+      }));
+
+      // The probe itself succeeded, so a lagging endpoint is benched directly rather than through the failure
+      // count, until the next probe shows whether it caught up
+      const head = Math.max(...pool.endpoints.map(e => e.status.blockNumber ?? -1));
+      for (const endpoint of pool.endpoints) {
+        const { blockNumber } = endpoint.status;
+        if (blockNumber !== null && head - blockNumber > MAX_BLOCK_LAG) {
+          endpoint.status.lastError = `${head - blockNumber} blocks behind`;
+          endpoint.status.coolingUntil = Date.now() + PROBE_INTERVAL;
+        }
+      }
+      pool.checkedAt = Date.now();
+      notify(pool);
+    })().finally(() => {
+      pool.probing = null;
+    });
+  }
+  return pool.probing;
+};
+
+const getPool = (profile: NetworkProfile): Pool => {
+  let pool = pools.get(profile.chainId);
+  if (!pool) {
+    const network = new Network(profile.name, profile.chainId);
+    const endpoints = profile.rpcUrls.map((url): Endpoint => {
+      const request = new FetchRequest(url);
+      request.timeout = REQUEST_TIMEOUT;
+      return {
+        provider: new JsonRpcProvider(request, network, { staticNetwork: network }),
+        status: { url, latency: null, errorRate: 0, blockNumber: null, lastError: null, coolingUntil: null },
+        outcomes: [],
+        consecutiveFailures: 0
+      };
+    });
+    const created: Pool = { network: profile, endpoints, provider: null!, checkedAt: null, probing: null };
+    created.provider = new ManagedProvider(created, network);
+    pools.set(profile.chainId, created);
+    setInterval(() => probe(created), PROBE_INTERVAL);
+    pool = created;
+  }
+  return pool;
+};
+
+// The shared, failover-aware read provider for the network; the first call ranks its endpoints
+export async function getReadProvider(profile: NetworkProfile): Promise<ethers.Provider> {
+  const pool = getPool(profile);
+  if (pool.checkedAt === null) await probe(pool);
+  if (!pool.endpoints.some(e => !isCooling(e))) {
+    throw new Error(`All ${profile.name} RPC providers failed`);
+  }
+  return pool.provider;
+}
+
+const sameResult = (a: unknown, b: unknown) => {
+  const encode = (value: unknown) =>
+    JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+  return encode(a) === encode(b);
+};
+
+// Runs a read on the two best endpoints and rejects when both answer and disagree; for reads a lagging or
+// misbehaving RPC must not decide on its own. An endpoint that fails is replaced by the next healthy one, and
+// when no other endpoint can answer the one answer there is stands, as it would without a quorum.
+export async function quorumRead<T>(profile: NetworkProfile, read: (provider: ethers.Provider) => Promise<T>): Promise<T> {
+  const pool = getPool(profile);
+  if (pool.checkedAt === null) await probe(pool);
+
+  const healthy = ranked(pool).filter(e => !isCooling(e));
+  if (healthy.length < 2) {
+    return read(pool.provider);
+  }
+  const timed = async (endpoint: Endpoint) => {
+    const started = performance.now();
+    try {
+      const value = await read(endpoint.provider);
+      record(endpoint, performance.now() - started);
+      return value;
+    } catch (e) {
+      record(endpoint, null, e);
+      throw e;
+    }
+  };
+  try {
+    const answers: { endpoint: Endpoint; value: T }[] = [];
+    let lastError: unknown = null;
+    for (let next = 0; next < healthy.length && answers.length < 2; ) {
+      const batch = healthy.slice(next, next + 2 - answers.length);
+      next += batch.length;
+      const settled = await Promise.allSettled(batch.map(timed));
+      settled.forEach((outcome, i) => {
+        if (outcome.status === "fulfilled") {
+          answers.push({ endpoint: batch[i], value: outcome.value });
+        } else {
+          lastError = outcome.reason;
+        }
+      });
+    }
+    if (answers.length === 0) {
+      throw lastError;
+    }
+    const [a, b] = answers;
+    if (b && !sameResult(a.value, b.value)) {
+      throw new RpcMismatchError([a.endpoint.status.url, b.endpoint.status.url]);
+    }
+    return a.value;
+  } finally {
+    notify(pool);
+  }
+}
+
+export function getRpcStatus(profile: NetworkProfile): RpcStatus {
+  return statusOf(getPool(profile));
+}
+
+// Re-measures every endpoint now instead of waiting for the next scheduled probe
+export async function checkRpcHealth(profile: NetworkProfile): Promise<RpcStatus> {
+  const pool = getPool(profile);
+  await probe(pool);
+  return statusOf(pool);
+}
+
+export function onRpcStatus(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\service\validator-shared\factory-constants\database-endpoint.java
-// Generated at: 2025-10-16T15:16:53.575Z
\ No newline at end of file
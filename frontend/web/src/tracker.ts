@@ -0,0 +1,143 @@
+// tracker.ts
+import {
+  cancelCohortRequest,
+  DecryptionRequest,
+  getCohortStatus,
+  getDecryptionRequest,
+  requestCohortAverages
+} from "./cognitive";
+import { notify } from "./notifications";
+
+// Oracle requests the app follows until their callback lands or they are given up on. The contract records
+// every request, so nothing is persisted: the latest one is picked up again from the chain on each visit.
+export interface TrackedRequest extends DecryptionRequest {
+  // Set when the last status check failed; the request keeps being polled
+  error: string | null;
+}
+
+type Listener = (requests: TrackedRequest[]) => void;
+
+const POLL_INTERVAL = 5000;
+
+const tracked = new Map<string, TrackedRequest>();
+const listeners = new Set<Listener>();
+let timer: ReturnType<typeof setInterval> | null = null;
+
+const emit = () => {
+  const snapshot = listTrackedRequests();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const describeRequest = (request: DecryptionRequest): string => {
+  switch (request.kind) {
+    case "cohort-averages":
+      return `Cohort averages over ${request.subject} results`;
+    default:
+      return `Request #${request.requestId}`;
+  }
+};
+
+const announce = (request: DecryptionRequest) => {
+  switch (request.status) {
+    case "fulfilled":
+      notify("success", `${describeRequest(request)} revealed`);
+      break;
+    case "superseded":
+      notify("success", `${describeRequest(request)} answered after a larger cohort was revealed; kept the newer averages`);
+      break;
+    case "cancelled":
+      notify("error", `${describeRequest(request)} cancelled after the oracle timed out`);
+      break;
+  }
+};
+
+const refresh = async (requestId: string) => {
+  const current = tracked.get(requestId);
+  try {
+    const request = await getDecryptionRequest(requestId);
+    if (!request) return;
+    tracked.set(requestId, { ...request, error: null });
+    if (current && current.status === "pending" && request.status !== "pending") {
+      announce(request);
+    } else if (current && !current.timedOut && request.timedOut) {
+      notify("error", `${describeRequest(request)} has not been answered yet; it can now be cancelled and retried`);
+    }
+  } catch (e: any) {
+    if (current) tracked.set(requestId, { ...current, error: e.message || "Status check failed" });
+  }
+};
+
+const poll = async () => {
+  const pending = listTrackedRequests().filter(r => r.status === "pending");
+  await Promise.all(pending.map(r => refresh(r.requestId.toString())));
+  if (!listTrackedRequests().some(r => r.status === "pending") && timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  emit();
+};
+
+const ensurePolling = () => {
+  if (!timer && listTrackedRequests().some(r => r.status === "pending")) {
+    timer = setInterval(poll, POLL_INTERVAL);
+  }
+};
+
+export async function trackRequest(requestId: string): Promise<void> {
+  await refresh(requestId);
+  emit();
+  ensurePolling();
+}
+
+// Picks up the contract's latest cohort request, e.g. one made on another device or before a reload
+export async function resumeTracking(): Promise<void> {
+  const status = await getCohortStatus();
+  if (!status || status.lastRequestId === null) return;
+  const requestId = status.lastRequestId.toString();
+  if (tracked.has(requestId)) return;
+
+  const request = await getDecryptionRequest(requestId);
+  if (request?.status === "pending") {
+    tracked.set(requestId, { ...request, error: null });
+    emit();
+    ensurePolling();
+  }
+}
+
+export async function requestAndTrackCohortAverages(): Promise<string> {
+  const requestId = await requestCohortAverages();
+  await trackRequest(requestId);
+  return requestId;
+}
+
+export async function cancelRequest(requestId: string): Promise<void> {
+  await cancelCohortRequest(requestId);
+  await refresh(requestId);
+  emit();
+}
+
+// Timed-out requests are cancelled first; the contract lets a cancelled cohort be requested again unchanged
+export async function retryRequest(requestId: string): Promise<string> {
+  const request = tracked.get(requestId);
+  if (request?.status === "pending") {
+    await cancelRequest(requestId);
+  }
+  return requestAndTrackCohortAverages();
+}
+
+export function dismissRequest(requestId: string): void {
+  const request = tracked.get(requestId);
+  if (request && request.status !== "pending") {
+    tracked.delete(requestId);
+    emit();
+  }
+}
+
+export function listTrackedRequests(): TrackedRequest[] {
+  return Array.from(tracked.values()).sort((a, b) => b.requestedAt - a.requestedAt);
+}
+
+export function onTrackedRequests(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -1,8 +1,18 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import path from "path";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // The shared SDK and typechain bindings live outside the app root
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [path.resolve(__dirname, "../..")]
+    }
+  },
   define: {
     'process.env': process.env
   },
@@ -1,18 +1,45 @@
+import "dotenv/config";
+import fs from "fs";
+import { Wallet } from "ethers";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import "./tasks/CognitiveEnhanceFHE";
+
+// Live-network deployer: a raw DEPLOYER_PRIVATE_KEY, or an encrypted JSON keystore at DEPLOYER_KEYSTORE
+// unlocked with DEPLOYER_KEYSTORE_PASSWORD. Keys are never prompted for or written to the tree.
+function deployerAccounts(): string[] {
+  if (process.env.DEPLOYER_PRIVATE_KEY) {
+    return [process.env.DEPLOYER_PRIVATE_KEY];
+  }
+  if (process.env.DEPLOYER_KEYSTORE) {
+    const keystore = fs.readFileSync(process.env.DEPLOYER_KEYSTORE, "utf8");
+    return [Wallet.fromEncryptedJsonSync(keystore, process.env.DEPLOYER_KEYSTORE_PASSWORD ?? "").privateKey];
+  }
+  return [];
+}
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    // `npx hardhat node` runs the fhevm mock coprocessor and deploys into it on startup
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      accounts: deployerAccounts(),
     },
   },
   solidity: {
@@ -34,6 +61,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
@@ -41,7 +70,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: process.env.ETHERSCAN_API_KEY || "",
     },
   },
   gasReporter: {
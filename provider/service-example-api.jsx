@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export default function responsive-core() { return <div>Component</div>; }
@@ -0,0 +1,200 @@
+// sdk/bundle.ts
+import { decodeBase64, encodeBase64, toUtf8Bytes, toUtf8String, verifyMessage } from "ethers";
+import type { Signer } from "ethers";
+import { CognitiveEnhanceError } from "./errors";
+import { PLAN_STATUSES, PlanStatus } from "./lifecycle";
+import type { DataExport, EncryptedDataExport, SignedDataExport } from "./types";
+
+// Plain and password-protected exports share the format name; the version covers both shapes
+export const EXPORT_FORMAT = "cognitive-enhance-fhe/export";
+export const EXPORT_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310_000;
+// The iteration count comes from the file being imported, so it is bounded before any key is derived
+const MAX_PBKDF2_ITERATIONS = 5_000_000;
+
+// Keys are sorted at every level, so the signed text doesn't depend on how the JSON was produced or re-parsed
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Asks the owner's wallet for a personal_sign signature over the export
+export async function signDataExport(signer: Signer, data: DataExport): Promise<SignedDataExport> {
+  const address = await signer.getAddress();
+  if (address.toLowerCase() !== data.owner.toLowerCase()) {
+    throw new CognitiveEnhanceError("NOT_AUTHORIZED", `Only the owner ${data.owner} can sign this export`);
+  }
+  return { data, signature: await signer.signMessage(canonicalJson(data)) };
+}
+
+// The address that signed the export; it must be the owner for the export to be trusted
+export function recoverExportSigner(signed: SignedDataExport): string {
+  try {
+    return verifyMessage(canonicalJson(signed.data), signed.signature);
+  } catch (e) {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", "The export signature is malformed", { cause: e });
+  }
+}
+
+// WebCrypto only takes bytes backed by a plain ArrayBuffer; ethers' helpers aren't typed that narrowly
+const buffer = (bytes: Uint8Array) => new Uint8Array(bytes);
+
+const deriveKey = async (password: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey("raw", buffer(toUtf8Bytes(password)), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: buffer(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export async function encryptDataExport(signed: SignedDataExport, password: string): Promise<EncryptedDataExport> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const plaintext = buffer(toUtf8Bytes(JSON.stringify(signed)));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    encryption: {
+      cipher: "AES-GCM",
+      kdf: "PBKDF2-SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: encodeBase64(salt),
+      iv: encodeBase64(iv)
+    },
+    ciphertext: encodeBase64(new Uint8Array(ciphertext))
+  };
+}
+
+const decodeEncryptedFields = (encrypted: EncryptedDataExport) => {
+  const { cipher, kdf, iterations, salt, iv } = encrypted.encryption ?? {};
+  if (cipher !== "AES-GCM" || kdf !== "PBKDF2-SHA-256") {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", "The export is sealed with an unsupported cipher");
+  }
+  if (!Number.isInteger(iterations) || iterations < PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new CognitiveEnhanceError(
+      "INVALID_BUNDLE",
+      `Key derivation needs ${PBKDF2_ITERATIONS} to ${MAX_PBKDF2_ITERATIONS} iterations, not ${iterations}`
+    );
+  }
+  try {
+    return {
+      iterations,
+      salt: decodeBase64(salt),
+      iv: buffer(decodeBase64(iv)),
+      ciphertext: buffer(decodeBase64(encrypted.ciphertext))
+    };
+  } catch (e) {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", "The sealed export is not valid base64", { cause: e });
+  }
+};
+
+// AES-GCM authenticates the ciphertext, so a wrong password and a damaged file fail the same way
+export async function decryptDataExport(encrypted: EncryptedDataExport, password: string): Promise<SignedDataExport> {
+  const { iterations, salt, iv, ciphertext } = decodeEncryptedFields(encrypted);
+  const key = await deriveKey(password, salt, iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext);
+  } catch (e) {
+    throw new CognitiveEnhanceError("BUNDLE_PASSWORD", "Wrong password, or the export file is damaged", { cause: e });
+  }
+  try {
+    return JSON.parse(toUtf8String(new Uint8Array(plaintext)));
+  } catch (e) {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", "The sealed export does not hold JSON", { cause: e });
+  }
+}
+
+// Shape checks only; whether the records are true is checked against the chain on import
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+const isCount = (value: unknown) => typeof value === "number" && Number.isInteger(value) && value >= 0;
+const isId = (value: unknown) => typeof value === "string" && /^[0-9]+$/.test(value);
+const hasStrings = (value: unknown, keys: readonly string[]): value is Record<string, unknown> =>
+  isObject(value) && keys.every((key) => typeof value[key] === "string");
+const hasNumbers = (value: unknown, keys: readonly string[]) =>
+  isObject(value) && keys.every((key) => typeof value[key] === "number");
+
+const SCORE_KEYS = ["memory", "attention", "processing", "flexibility"];
+const RECOMMENDATION_KEYS = ["memoryTraining", "attentionTraining", "processingTraining", "flexibilityTraining"];
+const PROGRESS_KEYS = ["progress", "total", "average"];
+
+const isExportedPlan = (plan: unknown) =>
+  isObject(plan) &&
+  isId(plan.planId) &&
+  isId(plan.policyVersion) &&
+  PLAN_STATUSES.includes(plan.status as PlanStatus) &&
+  isCount(plan.expiresAt) &&
+  hasStrings(plan.handles, SCORE_KEYS) &&
+  (plan.recommendation === null || hasNumbers(plan.recommendation, RECOMMENDATION_KEYS));
+
+const isExportedResult = (result: unknown) =>
+  hasStrings(result, ["inRangeHandle"]) &&
+  isId(result.resultId) &&
+  isCount(result.timestamp) &&
+  (result.legacyId === null || typeof result.legacyId === "string") &&
+  hasStrings(result.handles, SCORE_KEYS) &&
+  (result.scores === null || hasNumbers(result.scores, SCORE_KEYS)) &&
+  (result.plan === null || isExportedPlan(result.plan));
+
+const isExportedProgressEntry = (entry: unknown) =>
+  isObject(entry) &&
+  isId(entry.planId) &&
+  isCount(entry.session) &&
+  isCount(entry.timestamp) &&
+  hasStrings(entry.handles, PROGRESS_KEYS) &&
+  PROGRESS_KEYS.every((key) => entry[key] === null || typeof entry[key] === "number");
+
+const isDataExport = (data: unknown): data is DataExport =>
+  hasStrings(data, ["contractAddress", "owner"]) &&
+  isCount(data.chainId) &&
+  isCount(data.exportedAt) &&
+  isCount(data.blockNumber) &&
+  Array.isArray(data.results) &&
+  data.results.every(isExportedResult) &&
+  Array.isArray(data.progress) &&
+  data.progress.every(isExportedProgressEntry);
+
+export const isEncryptedDataExport = (value: unknown): value is EncryptedDataExport =>
+  typeof value === "object" && value !== null && "ciphertext" in value && "encryption" in value;
+
+// Reads an export file, plain or password-protected; the result still has to be verified against the chain
+export async function parseDataExport(text: string, password?: string): Promise<SignedDataExport> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", "The export file is not JSON", { cause: e });
+  }
+
+  const header = isEncryptedDataExport(parsed) ? parsed : isObject(parsed) ? parsed.data : null;
+  if (!isObject(header) || header.format !== EXPORT_FORMAT || header.version !== EXPORT_VERSION) {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", `Not a version ${EXPORT_VERSION} export`);
+  }
+  if (isEncryptedDataExport(parsed)) {
+    if (!password) {
+      throw new CognitiveEnhanceError("BUNDLE_PASSWORD", "This export is password-protected");
+    }
+    return parseDataExport(JSON.stringify(await decryptDataExport(parsed, password)));
+  }
+  if (!hasStrings(parsed, ["signature"])) {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", "The export is not signed");
+  }
+  if (!isDataExport(parsed.data)) {
+    throw new CognitiveEnhanceError("INVALID_BUNDLE", "The export's records are malformed");
+  }
+  return { data: parsed.data, signature: parsed.signature as string };
+}
@@ -0,0 +1,911 @@
+// sdk/client.ts
+import { ZeroHash } from "ethers";
+import type { BigNumberish, ContractRunner, ContractTransactionResponse, Signer } from "ethers";
+import { CognitiveEnhanceFHE__factory } from "../types/factories/contracts/CognitiveEnhanceFHE__factory";
+import type { CognitiveEnhanceFHE } from "../types/contracts/CognitiveEnhanceFHE";
+import { EXPORT_FORMAT, EXPORT_VERSION, recoverExportSigner } from "./bundle";
+import { createDecryptionSession, isSessionValid, userDecryptHandles } from "./decryption";
+import { encryptScores, encryptValue, encryptValues, isValidScore, SCORE_MAX, SCORE_MIN } from "./encryption";
+import { CognitiveEnhanceError, toCognitiveError } from "./errors";
+import { CognitiveEvent, decodeReceiptEvents, findEvent } from "./events";
+import { POLICY_DOMAINS, validatePlanPolicy } from "./policies";
+import { decryptionRequestKindFromIndex, decryptionRequestStatusFromIndex, isRequestTimedOut } from "./requests";
+import {
+  effectivePlanStatus,
+  PLAN_STATUSES,
+  PlanStatus,
+  planStatusFromIndex,
+  planStatusIndex,
+  PlanTransition
+} from "./lifecycle";
+import type {
+  AdaptiveDifficulty,
+  CognitiveScores,
+  CohortStatus,
+  DecryptedProgressEntry,
+  DataExport,
+  DecryptionRequest,
+  DecryptionSession,
+  ExportedProgressEntry,
+  ExportedResult,
+  FhevmDecryptor,
+  FhevmEncryptor,
+  HistoryShare,
+  IntensityCurve,
+  PlanLifecycle,
+  PlanPolicy,
+  PlanPolicyRules,
+  ProgressEntry,
+  Recommendation,
+  SignedDataExport,
+  TestResult,
+  TrainingPlan
+} from "./types";
+
+export interface TransactionOutcome {
+  transactionHash: string;
+  blockNumber: number;
+  events: CognitiveEvent[];
+}
+
+export function connectCognitiveEnhance(address: string, runner?: ContractRunner | null): CognitiveEnhanceFHE {
+  return CognitiveEnhanceFHE__factory.connect(address, runner);
+}
+
+const withErrors = async <T>(fn: () => Promise<T>): Promise<T> => {
+  try {
+    return await fn();
+  } catch (e) {
+    throw toCognitiveError(e);
+  }
+};
+
+const confirm = async (tx: ContractTransactionResponse): Promise<TransactionOutcome> => {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new CognitiveEnhanceError("UNKNOWN", `Transaction ${tx.hash} was not mined`);
+  }
+  return {
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    events: decodeReceiptEvents(receipt)
+  };
+};
+
+const requireSigner = (contract: CognitiveEnhanceFHE, purpose: string): Signer => {
+  const runner = contract.runner as Partial<Signer> | null;
+  if (!runner?.getAddress || !runner.signTypedData) {
+    throw new CognitiveEnhanceError("UNKNOWN", `A signer is required to ${purpose}`);
+  }
+  return runner as Signer;
+};
+
+const signerAddress = (contract: CognitiveEnhanceFHE): Promise<string> =>
+  requireSigner(contract, "encrypt inputs").getAddress();
+
+// Reuses the caller's session when it still covers this contract and signer, otherwise asks for a new signature
+const resolveSession = async (
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  session?: DecryptionSession
+): Promise<DecryptionSession> => {
+  const signer = requireSigner(contract, "decrypt values");
+  const [contractAddress, userAddress] = await Promise.all([contract.getAddress(), signer.getAddress()]);
+  if (
+    session &&
+    isSessionValid(session) &&
+    session.contractAddress.toLowerCase() === contractAddress.toLowerCase() &&
+    session.userAddress.toLowerCase() === userAddress.toLowerCase()
+  ) {
+    return session;
+  }
+  return createDecryptionSession(decryptor, signer, contractAddress);
+};
+
+export function getTestResultCount(contract: CognitiveEnhanceFHE): Promise<bigint> {
+  return withErrors(() => contract.testResultCount());
+}
+
+export function getTestResult(contract: CognitiveEnhanceFHE, resultId: BigNumberish): Promise<TestResult> {
+  return withErrors(async () => {
+    const result = await contract.testResults(resultId);
+    return {
+      resultId: result.resultId,
+      owner: result.owner,
+      timestamp: Number(result.timestamp),
+      handles: {
+        memory: result.encryptedMemoryScore,
+        attention: result.encryptedAttentionScore,
+        processing: result.encryptedProcessingScore,
+        flexibility: result.encryptedFlexibilityScore
+      },
+      inRangeHandle: result.encryptedInRange
+    };
+  });
+}
+
+export function getTrainingPlan(contract: CognitiveEnhanceFHE, planId: BigNumberish): Promise<TrainingPlan> {
+  return withErrors(async () => {
+    const [plan, resultId] = await Promise.all([contract.trainingPlans(planId), contract.planResultIds(planId)]);
+    return {
+      planId: plan.planId,
+      resultId,
+      policyVersion: plan.policyVersion,
+      handles: {
+        memory: plan.encryptedMemoryExercises,
+        attention: plan.encryptedAttentionExercises,
+        processing: plan.encryptedProcessingExercises,
+        flexibility: plan.encryptedFlexibilityExercises
+      }
+    };
+  });
+}
+
+export function getPlanLifecycle(
+  contract: CognitiveEnhanceFHE,
+  planId: BigNumberish,
+  now?: number
+): Promise<PlanLifecycle> {
+  return withErrors(async () => {
+    const [status, expiresAt, ...timestamps] = await Promise.all([
+      contract.planStatuses(planId),
+      contract.planExpiresAt(planId),
+      ...PLAN_STATUSES.map((_, i) => contract.planStatusTimestamps(planId, i))
+    ]);
+    const recorded = planStatusFromIndex(status);
+    const enteredAt: Partial<Record<PlanStatus, number>> = {};
+    timestamps.forEach((timestamp, i) => {
+      if (timestamp > 0n) enteredAt[PLAN_STATUSES[i]] = Number(timestamp);
+    });
+    return {
+      planId: BigInt(planId),
+      status: recorded,
+      effectiveStatus: effectivePlanStatus(recorded, Number(expiresAt), now),
+      expiresAt: Number(expiresAt),
+      enteredAt
+    };
+  });
+}
+
+// Only the plan owner may move it; the contract rejects transitions the lifecycle doesn't allow
+export function transitionPlan(
+  contract: CognitiveEnhanceFHE,
+  planId: BigNumberish,
+  next: PlanTransition
+): Promise<TransactionOutcome> {
+  return withErrors(async () => confirm(await contract.transitionPlan(planId, planStatusIndex(next))));
+}
+
+// Decrypts the plan for the connected signer, who must be the owner or a granted therapist
+export function decryptTrainingPlan(
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  planId: BigNumberish,
+  session?: DecryptionSession
+): Promise<Recommendation> {
+  return withErrors(async () => {
+    const { handles } = await getTrainingPlan(contract, planId);
+    const [memory, attention, processing, flexibility] = await userDecryptHandles(
+      decryptor,
+      await resolveSession(contract, decryptor, session),
+      [handles.memory, handles.attention, handles.processing, handles.flexibility]
+    );
+    return {
+      memoryTraining: Number(memory),
+      attentionTraining: Number(attention),
+      processingTraining: Number(processing),
+      flexibilityTraining: Number(flexibility)
+    };
+  });
+}
+
+// Decrypts a result's scores for the connected signer, who must be the owner or a granted therapist
+export function decryptTestResult(
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  resultId: BigNumberish,
+  session?: DecryptionSession
+): Promise<CognitiveScores> {
+  return withErrors(async () => {
+    const { handles } = await getTestResult(contract, resultId);
+    const [memory, attention, processing, flexibility] = await userDecryptHandles(
+      decryptor,
+      await resolveSession(contract, decryptor, session),
+      [handles.memory, handles.attention, handles.processing, handles.flexibility]
+    );
+    return {
+      memory: Number(memory),
+      attention: Number(attention),
+      processing: Number(processing),
+      flexibility: Number(flexibility)
+    };
+  });
+}
+
+// False when the submission held a score above the maximum, which the contract stored clamped
+export function decryptResultInRange(
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  resultId: BigNumberish,
+  session?: DecryptionSession
+): Promise<boolean> {
+  return withErrors(async () => {
+    const { inRangeHandle } = await getTestResult(contract, resultId);
+    const [inRange] = await userDecryptHandles(decryptor, await resolveSession(contract, decryptor, session), [
+      inRangeHandle
+    ]);
+    return inRange === 1n;
+  });
+}
+
+const OWNER_PAGE_SIZE = 100;
+
+// Walks the owner's append-only index page by page, oldest first
+export function getOwnerResultIds(contract: CognitiveEnhanceFHE, owner: string): Promise<bigint[]> {
+  return withErrors(async () => {
+    const count = await contract.getOwnerResultCount(owner);
+    const ids: bigint[] = [];
+    for (let offset = 0n; offset < count; offset += BigInt(OWNER_PAGE_SIZE)) {
+      ids.push(...(await contract.getOwnerResultIds(owner, offset, OWNER_PAGE_SIZE)));
+    }
+    return ids;
+  });
+}
+
+export function getResultLegacyId(contract: CognitiveEnhanceFHE, resultId: BigNumberish): Promise<string | null> {
+  return withErrors(async () => (await contract.resultLegacyIds(resultId)) || null);
+}
+
+// Returns the result a legacy record was imported as, or null if the owner hasn't imported it
+export function getLegacyImport(contract: CognitiveEnhanceFHE, owner: string, legacyId: string): Promise<bigint | null> {
+  return withErrors(async () => {
+    const resultId = await contract.getLegacyImport(owner, legacyId);
+    return resultId > 0n ? resultId : null;
+  });
+}
+
+export function getResultPlanId(contract: CognitiveEnhanceFHE, resultId: BigNumberish): Promise<bigint | null> {
+  return withErrors(async () => {
+    const planId = await contract.resultPlanIds(resultId);
+    return planId > 0n ? planId : null;
+  });
+}
+
+// Checked before anything is encrypted, so out-of-range scores never reach the chain from the SDK
+const assertScoresInRange = (scores: CognitiveScores) => {
+  const invalid = Object.entries(scores).filter(([, value]) => !isValidScore(value));
+  if (invalid.length > 0) {
+    throw new CognitiveEnhanceError(
+      "INVALID_SCORE",
+      `Scores must be whole numbers from ${SCORE_MIN} to ${SCORE_MAX}: ` +
+        invalid.map(([domain, value]) => `${domain} is ${value}`).join(", ")
+    );
+  }
+};
+
+// Encrypts the scores for the connected signer and returns the id of the new result
+export function submitTestResults(
+  contract: CognitiveEnhanceFHE,
+  encryptor: FhevmEncryptor,
+  scores: CognitiveScores
+): Promise<{ resultId: bigint } & TransactionOutcome> {
+  return withErrors(async () => {
+    assertScoresInRange(scores);
+    const encrypted = await encryptScores(
+      encryptor,
+      await contract.getAddress(),
+      await signerAddress(contract),
+      scores
+    );
+
+    const outcome = await confirm(
+      await contract.submitTestResults(
+        encrypted.memory,
+        encrypted.attention,
+        encrypted.processing,
+        encrypted.flexibility,
+        encrypted.inputProof
+      )
+    );
+
+    const event = findEvent(outcome.events, "TestSubmitted");
+    if (!event) {
+      throw new CognitiveEnhanceError("MISSING_EVENT", "TestSubmitted event not found");
+    }
+    return { resultId: event.resultId, ...outcome };
+  });
+}
+
+// Imports a record from the retired key-value adapter; each legacy id can only be imported once per owner
+export function importLegacyRecord(
+  contract: CognitiveEnhanceFHE,
+  encryptor: FhevmEncryptor,
+  legacyId: string,
+  scores: CognitiveScores
+): Promise<{ resultId: bigint } & TransactionOutcome> {
+  return withErrors(async () => {
+    assertScoresInRange(scores);
+    const encrypted = await encryptScores(
+      encryptor,
+      await contract.getAddress(),
+      await signerAddress(contract),
+      scores
+    );
+
+    const outcome = await confirm(
+      await contract.importLegacyRecord(
+        legacyId,
+        encrypted.memory,
+        encrypted.attention,
+        encrypted.processing,
+        encrypted.flexibility,
+        encrypted.inputProof
+      )
+    );
+
+    const event = findEvent(outcome.events, "LegacyRecordImported");
+    if (!event) {
+      throw new CognitiveEnhanceError("MISSING_EVENT", "LegacyRecordImported event not found");
+    }
+    return { resultId: event.resultId, ...outcome };
+  });
+}
+
+// The plan is derived homomorphically in the same transaction; returns the id of the new plan. Uses the
+// contract's default plan policy unless a published version is given.
+export function requestTrainingPlan(
+  contract: CognitiveEnhanceFHE,
+  resultId: BigNumberish,
+  policyVersion?: BigNumberish
+): Promise<{ planId: bigint; policyVersion: bigint } & TransactionOutcome> {
+  return withErrors(async () => {
+    const tx =
+      policyVersion === undefined
+        ? await contract.requestTrainingPlan(resultId)
+        : await contract.requestTrainingPlanWithPolicy(resultId, policyVersion);
+    const outcome = await confirm(tx);
+    const event = findEvent(outcome.events, "PlanGenerated");
+    if (!event) {
+      throw new CognitiveEnhanceError("MISSING_EVENT", "PlanGenerated event not found");
+    }
+    return { planId: event.planId, policyVersion: event.policyVersion, ...outcome };
+  });
+}
+
+export function getDefaultPlanPolicyVersion(contract: CognitiveEnhanceFHE): Promise<bigint> {
+  return withErrors(() => contract.defaultPlanPolicy());
+}
+
+export function getPlanPolicy(contract: CognitiveEnhanceFHE, version: BigNumberish): Promise<PlanPolicy> {
+  return withErrors(async () => {
+    const [policy, publishedAt, defaultVersion] = await Promise.all([
+      contract.getPlanPolicy(version),
+      contract.planPolicyPublishedAt(version),
+      contract.defaultPlanPolicy()
+    ]);
+    const curves = {} as PlanPolicyRules["curves"];
+    POLICY_DOMAINS.forEach((domain, i) => {
+      const curve = policy.curves[i];
+      curves[domain] = {
+        base: Number(curve.base),
+        slope: Number(curve.slope),
+        floor: Number(curve.floor),
+        ceiling: Number(curve.ceiling)
+      };
+    });
+    return {
+      version: BigInt(version),
+      publishedAt: Number(publishedAt),
+      isDefault: defaultVersion === BigInt(version),
+      curves,
+      minSessions: Number(policy.minSessions),
+      maxSessions: Number(policy.maxSessions),
+      sessionsPerRestDay: Number(policy.sessionsPerRestDay)
+    };
+  });
+}
+
+// Every published version, oldest first
+export function getPlanPolicies(contract: CognitiveEnhanceFHE): Promise<PlanPolicy[]> {
+  return withErrors(async () => {
+    const count = Number(await contract.planPolicyCount());
+    return Promise.all(Array.from({ length: count }, (_, i) => getPlanPolicy(contract, i + 1)));
+  });
+}
+
+// The policy a plan's intensities were derived with
+export function getPlanPolicyForPlan(contract: CognitiveEnhanceFHE, planId: BigNumberish): Promise<PlanPolicy> {
+  return withErrors(async () => getPlanPolicy(contract, (await getTrainingPlan(contract, planId)).policyVersion));
+}
+
+// Admin only. Published versions can't be changed; plans keep using the version they were generated with.
+export function publishPlanPolicy(
+  contract: CognitiveEnhanceFHE,
+  rules: PlanPolicyRules
+): Promise<{ version: bigint } & TransactionOutcome> {
+  return withErrors(async () => {
+    validatePlanPolicy(rules);
+    const toCurve = ({ base, slope, floor, ceiling }: IntensityCurve) => ({ base, slope, floor, ceiling });
+    const outcome = await confirm(
+      await contract.publishPlanPolicy({
+        curves: [
+          toCurve(rules.curves.memory),
+          toCurve(rules.curves.attention),
+          toCurve(rules.curves.processing),
+          toCurve(rules.curves.flexibility)
+        ],
+        minSessions: rules.minSessions,
+        maxSessions: rules.maxSessions,
+        sessionsPerRestDay: rules.sessionsPerRestDay
+      })
+    );
+    const event = findEvent(outcome.events, "PlanPolicyPublished");
+    if (!event) {
+      throw new CognitiveEnhanceError("MISSING_EVENT", "PlanPolicyPublished event not found");
+    }
+    return { version: event.version, ...outcome };
+  });
+}
+
+// Admin only; plans requested without an explicit version use the default
+export function setDefaultPlanPolicy(contract: CognitiveEnhanceFHE, version: BigNumberish): Promise<TransactionOutcome> {
+  return withErrors(async () => confirm(await contract.setDefaultPlanPolicy(version)));
+}
+
+export function updateProgress(
+  contract: CognitiveEnhanceFHE,
+  encryptor: FhevmEncryptor,
+  planId: BigNumberish,
+  progress: number
+): Promise<TransactionOutcome> {
+  return withErrors(async () => {
+    const encrypted = await encryptValue(
+      encryptor,
+      await contract.getAddress(),
+      await signerAddress(contract),
+      progress
+    );
+    return confirm(await contract.updateProgress(planId, encrypted.handle, encrypted.inputProof));
+  });
+}
+
+export function getProgressHistoryCount(contract: CognitiveEnhanceFHE, user: string): Promise<number> {
+  return withErrors(async () => Number(await contract.getProgressHistoryCount(user)));
+}
+
+// One page of the user's progress history, oldest first
+export function getProgressHistory(
+  contract: CognitiveEnhanceFHE,
+  user: string,
+  offset: number,
+  limit: number
+): Promise<ProgressEntry[]> {
+  return withErrors(async () =>
+    (await contract.getProgressHistory(user, offset, limit)).map((entry) => ({
+      planId: entry.planId,
+      session: Number(entry.session),
+      timestamp: Number(entry.timestamp),
+      handles: {
+        progress: entry.encryptedProgress,
+        total: entry.encryptedTotal,
+        average: entry.encryptedAverage
+      }
+    }))
+  );
+}
+
+// Decrypts a page of history entries with a single user-decryption request
+export function decryptProgressHistory(
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  entries: ProgressEntry[],
+  session?: DecryptionSession
+): Promise<DecryptedProgressEntry[]> {
+  return withErrors(async () => {
+    if (entries.length === 0) return [];
+    const resolved = await resolveSession(contract, decryptor, session);
+    const clear = await userDecryptHandles(
+      decryptor,
+      resolved,
+      entries.flatMap(({ handles }) => [handles.progress, handles.total, handles.average])
+    );
+    return entries.map(({ planId, session, timestamp }, i) => ({
+      planId,
+      session,
+      timestamp,
+      progress: Number(clear[i * 3]),
+      total: Number(clear[i * 3 + 1]),
+      average: Number(clear[i * 3 + 2])
+    }));
+  });
+}
+
+// Submits one 0-100 score per finished exercise; the contract averages them and steps the difficulty
+export function submitSessionScores(
+  contract: CognitiveEnhanceFHE,
+  encryptor: FhevmEncryptor,
+  planId: BigNumberish,
+  scores: number[]
+): Promise<TransactionOutcome> {
+  return withErrors(async () => {
+    const encrypted = await encryptValues(
+      encryptor,
+      await contract.getAddress(),
+      await signerAddress(contract),
+      scores
+    );
+    return confirm(await contract.submitSessionScores(planId, encrypted.handles, encrypted.inputProof));
+  });
+}
+
+// Decrypts the latest session average and difficulty of `user` (the signer by default)
+export function decryptAdaptiveDifficulty(
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  options: { user?: string; session?: DecryptionSession } = {}
+): Promise<AdaptiveDifficulty> {
+  return withErrors(async () => {
+    const user = options.user ?? (await signerAddress(contract));
+    const [averageHandle, difficultyHandle] = await Promise.all([
+      contract.getEncryptedSessionAverage(user),
+      contract.getEncryptedDifficulty(user)
+    ]);
+    if (difficultyHandle === ZeroHash) {
+      throw new CognitiveEnhanceError("NO_SESSION_DATA", "No session scores submitted");
+    }
+    const session = await resolveSession(contract, decryptor, options.session);
+    const [sessionAverage, difficulty] = await userDecryptHandles(decryptor, session, [averageHandle, difficultyHandle]);
+    return { sessionAverage: Number(sessionAverage), difficulty: Number(difficulty) };
+  });
+}
+
+export function getCohortStatus(contract: CognitiveEnhanceFHE): Promise<CohortStatus> {
+  return withErrors(async () => {
+    const [cohortSize, minCohortSize, contributors, lastRequestSize, lastRequestId, averages] = await Promise.all([
+      contract.cohortSize(),
+      contract.MIN_COHORT_SIZE(),
+      contract.cohortContributors(),
+      contract.lastCohortRequestSize(),
+      contract.lastCohortRequestId(),
+      contract.cohortAverages()
+    ]);
+    // Oracle request ids start at 0, so whether a request was made is told by its size instead
+    const lastRequest = lastRequestSize > 0n ? await contract.decryptionRequests(lastRequestId) : null;
+    const retryable =
+      lastRequest !== null &&
+      decryptionRequestStatusFromIndex(lastRequest.status) === "cancelled" &&
+      cohortSize === lastRequestSize;
+    return {
+      cohortSize: Number(cohortSize),
+      minCohortSize: Number(minCohortSize),
+      contributors: Number(contributors),
+      contributorsNeeded: retryable ? 0 : Math.max(Number(minCohortSize - contributors), 0),
+      lastRequestId: lastRequest ? lastRequestId : null,
+      averages:
+        averages.revealedAt > 0n
+          ? {
+              scores: {
+                memory: Number(averages.memoryAverage),
+                attention: Number(averages.attentionAverage),
+                processing: Number(averages.processingAverage),
+                flexibility: Number(averages.flexibilityAverage)
+              },
+              cohortSize: Number(averages.cohortSize),
+              revealedAt: Number(averages.revealedAt)
+            }
+          : null
+    };
+  });
+}
+
+// Asks the decryption oracle for the cohort averages; they land on-chain with CohortAveragesRevealed
+export function requestCohortAverages(
+  contract: CognitiveEnhanceFHE
+): Promise<TransactionOutcome & { requestId: bigint }> {
+  return withErrors(async () => {
+    const outcome = await confirm(await contract.requestCohortAverages());
+    const requested = findEvent(outcome.events, "CohortRevealRequested");
+    if (!requested) {
+      throw new CognitiveEnhanceError("MISSING_EVENT", "CohortRevealRequested event not found");
+    }
+    return { ...outcome, requestId: requested.requestId };
+  });
+}
+
+// Requests the contract never issued come back with kind and status "none"; `now` is in seconds
+export function getDecryptionRequest(
+  contract: CognitiveEnhanceFHE,
+  requestId: BigNumberish,
+  now?: number
+): Promise<DecryptionRequest> {
+  return withErrors(async () => {
+    const [request, timeout] = await Promise.all([
+      contract.decryptionRequests(requestId),
+      contract.DECRYPTION_TIMEOUT()
+    ]);
+    const status = decryptionRequestStatusFromIndex(request.status);
+    return {
+      requestId: BigInt(requestId),
+      kind: decryptionRequestKindFromIndex(request.kind),
+      subject: request.subject,
+      requester: request.requester,
+      requestedBlock: Number(request.requestedBlock),
+      requestedAt: Number(request.requestedAt),
+      settledAt: Number(request.settledAt),
+      status,
+      consumed: request.consumed,
+      timedOut: isRequestTimedOut(status, Number(request.requestedAt), Number(timeout), now)
+    };
+  });
+}
+
+// Only the requester or the admin may cancel, and only once the request has timed out
+export function cancelCohortRequest(contract: CognitiveEnhanceFHE, requestId: BigNumberish): Promise<TransactionOutcome> {
+  return withErrors(async () => confirm(await contract.cancelCohortRequest(requestId)));
+}
+
+export function getAdmin(contract: CognitiveEnhanceFHE): Promise<string> {
+  return withErrors(() => contract.admin());
+}
+
+export function isTherapist(contract: CognitiveEnhanceFHE, account: string): Promise<boolean> {
+  return withErrors(() => contract.therapists(account));
+}
+
+// Therapists the user has granted, including ones the admin has since removed from the registry
+export function getUserTherapists(contract: CognitiveEnhanceFHE, user: string): Promise<string[]> {
+  return withErrors(async () => [...(await contract.getUserTherapists(user))]);
+}
+
+export function hasTherapistAccess(contract: CognitiveEnhanceFHE, user: string, therapist: string): Promise<boolean> {
+  return withErrors(() => contract.hasTherapistAccess(user, therapist));
+}
+
+// Must be called by a registered therapist the patient has granted access to
+export function getPatientResults(contract: CognitiveEnhanceFHE, patient: string): Promise<bigint[]> {
+  return withErrors(async () => [...(await contract.getPatientResults(patient))]);
+}
+
+export function registerTherapist(contract: CognitiveEnhanceFHE, therapist: string): Promise<TransactionOutcome> {
+  return withErrors(async () => confirm(await contract.registerTherapist(therapist)));
+}
+
+export function removeTherapist(contract: CognitiveEnhanceFHE, therapist: string): Promise<TransactionOutcome> {
+  return withErrors(async () => confirm(await contract.removeTherapist(therapist)));
+}
+
+export function grantTherapistAccess(contract: CognitiveEnhanceFHE, therapist: string): Promise<TransactionOutcome> {
+  return withErrors(async () => confirm(await contract.grantTherapistAccess(therapist)));
+}
+
+export function getHistoryShare(contract: CognitiveEnhanceFHE, user: string, therapist: string): Promise<HistoryShare> {
+  return withErrors(async () => {
+    const [shared, total] = await contract.getHistoryShare(user, therapist);
+    return { shared: Number(shared), total: Number(total) };
+  });
+}
+
+// Shares the records the signer held before granting `therapist` access, one transaction per page of at most
+// MAX_SHARE_PAGE records, until all of them are shared; resumes where an earlier call stopped
+export function shareHistoryWithTherapist(
+  contract: CognitiveEnhanceFHE,
+  therapist: string,
+  pageSize = 20
+): Promise<TransactionOutcome[]> {
+  return withErrors(async () => {
+    const user = await requireSigner(contract, "share history").getAddress();
+    const outcomes: TransactionOutcome[] = [];
+    let { shared, total } = await getHistoryShare(contract, user, therapist);
+    while (shared < total) {
+      outcomes.push(await confirm(await contract.shareHistoryWithTherapist(therapist, pageSize)));
+      ({ shared, total } = await getHistoryShare(contract, user, therapist));
+    }
+    return outcomes;
+  });
+}
+
+export function revokeTherapistAccess(contract: CognitiveEnhanceFHE, therapist: string): Promise<TransactionOutcome> {
+  return withErrors(async () => confirm(await contract.revokeTherapistAccess(therapist)));
+}
+
+// Returns null until the user has logged progress
+export function getProgressHandle(contract: CognitiveEnhanceFHE, user: string): Promise<string | null> {
+  return withErrors(async () => {
+    const handle = await contract.getEncryptedProgress(user);
+    return handle === ZeroHash ? null : handle;
+  });
+}
+
+// Decrypts the latest progress of `user` (the signer by default) for the connected signer
+export function decryptProgress(
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  options: { user?: string; session?: DecryptionSession } = {}
+): Promise<number> {
+  return withErrors(async () => {
+    const user = options.user ?? (await signerAddress(contract));
+    const handle = await getProgressHandle(contract, user);
+    if (!handle) {
+      throw new CognitiveEnhanceError("NO_PROGRESS_DATA", "No progress data");
+    }
+    const session = await resolveSession(contract, decryptor, options.session);
+    const [progress] = await userDecryptHandles(decryptor, session, [handle]);
+    return Number(progress);
+  });
+}
+
+const EXPORT_PAGE_SIZE = 20;
+
+// Collects every result, plan and progress entry of the connected signer. With `decrypt` (the default) the
+// scores, plan intensities and progress values are decrypted locally under one session and included in clear.
+export function createDataExport(
+  contract: CognitiveEnhanceFHE,
+  decryptor: FhevmDecryptor,
+  options: { decrypt?: boolean; session?: DecryptionSession } = {}
+): Promise<DataExport> {
+  return withErrors(async () => {
+    const owner = await requireSigner(contract, "export data").getAddress();
+    const provider = contract.runner?.provider;
+    if (!provider) {
+      throw new CognitiveEnhanceError("UNKNOWN", "A provider is required to export data");
+    }
+    const [contractAddress, network, blockNumber] = await Promise.all([
+      contract.getAddress(),
+      provider.getNetwork(),
+      provider.getBlockNumber()
+    ]);
+    const decrypt = options.decrypt ?? true;
+    const session = decrypt ? await resolveSession(contract, decryptor, options.session) : undefined;
+
+    const results: ExportedResult[] = [];
+    for (const resultId of await getOwnerResultIds(contract, owner)) {
+      const [result, planId, legacyId] = await Promise.all([
+        getTestResult(contract, resultId),
+        getResultPlanId(contract, resultId),
+        getResultLegacyId(contract, resultId)
+      ]);
+      let plan: ExportedResult["plan"] = null;
+      if (planId !== null) {
+        const [trainingPlan, lifecycle] = await Promise.all([
+          getTrainingPlan(contract, planId),
+          getPlanLifecycle(contract, planId)
+        ]);
+        plan = {
+          planId: planId.toString(),
+          policyVersion: trainingPlan.policyVersion.toString(),
+          status: lifecycle.status,
+          expiresAt: lifecycle.expiresAt,
+          handles: trainingPlan.handles,
+          recommendation: session ? await decryptTrainingPlan(contract, decryptor, planId, session) : null
+        };
+      }
+      results.push({
+        resultId: resultId.toString(),
+        timestamp: result.timestamp,
+        legacyId,
+        handles: result.handles,
+        inRangeHandle: result.inRangeHandle,
+        scores: session ? await decryptTestResult(contract, decryptor, resultId, session) : null,
+        plan
+      });
+    }
+
+    const progress: ExportedProgressEntry[] = [];
+    const count = await getProgressHistoryCount(contract, owner);
+    for (let offset = 0; offset < count; offset += EXPORT_PAGE_SIZE) {
+      const entries = await getProgressHistory(contract, owner, offset, EXPORT_PAGE_SIZE);
+      const clear = session ? await decryptProgressHistory(contract, decryptor, entries, session) : [];
+      entries.forEach((entry, i) => {
+        progress.push({
+          planId: entry.planId.toString(),
+          session: entry.session,
+          timestamp: entry.timestamp,
+          handles: entry.handles,
+          progress: clear[i]?.progress ?? null,
+          total: clear[i]?.total ?? null,
+          average: clear[i]?.average ?? null
+        });
+      });
+    }
+
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      chainId: Number(network.chainId),
+      contractAddress,
+      owner,
+      exportedAt: Math.floor(Date.now() / 1000),
+      blockNumber,
+      results,
+      progress
+    };
+  });
+}
+
+const sameHandle = (a: string, b: unknown) => typeof b === "string" && a.toLowerCase() === b.toLowerCase();
+
+// Handle sets are compared field by field, so an export with missing or extra fields doesn't match either
+const sameHandles = (stored: object, exported: object) => {
+  const a = stored as Record<string, string>;
+  const b = (exported ?? {}) as Record<string, unknown>;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => sameHandle(a[key], b[key]));
+};
+
+// Checks that the export was signed by its owner and still matches the chain: the same deployment, and every
+// exported result, plan and progress entry stored with the same owner, timestamps and ciphertext handles.
+// Plans may have changed status and new records may exist since the export; decrypted values are only vouched
+// for by the owner's signature.
+export function verifyDataExport(contract: CognitiveEnhanceFHE, signed: SignedDataExport): Promise<DataExport> {
+  return withErrors(async () => {
+    const { data } = signed;
+    const signer = recoverExportSigner(signed);
+    if (signer.toLowerCase() !== data.owner.toLowerCase()) {
+      throw new CognitiveEnhanceError("INVALID_BUNDLE", `Signed by ${signer}, not by the owner ${data.owner}`);
+    }
+
+    const provider = contract.runner?.provider;
+    if (!provider) {
+      throw new CognitiveEnhanceError("UNKNOWN", "A provider is required to verify an export");
+    }
+    const [contractAddress, network] = await Promise.all([contract.getAddress(), provider.getNetwork()]);
+    const sameDeployment =
+      Number(network.chainId) === data.chainId && contractAddress.toLowerCase() === data.contractAddress?.toLowerCase();
+    if (!sameDeployment) {
+      throw new CognitiveEnhanceError(
+        "INVALID_BUNDLE",
+        `Exported from ${data.contractAddress} on chain ${data.chainId}, not this deployment`
+      );
+    }
+
+    const problems: string[] = [];
+    for (const exported of data.results) {
+      const [result, planId, legacyId] = await Promise.all([
+        getTestResult(contract, exported.resultId),
+        getResultPlanId(contract, exported.resultId),
+        getResultLegacyId(contract, exported.resultId)
+      ]);
+      if (
+        result.owner.toLowerCase() !== data.owner.toLowerCase() ||
+        result.timestamp !== exported.timestamp ||
+        legacyId !== exported.legacyId ||
+        !sameHandles(result.handles, exported.handles) ||
+        !sameHandle(result.inRangeHandle, exported.inRangeHandle)
+      ) {
+        problems.push(`result ${exported.resultId} differs from the chain`);
+      }
+      if (exported.plan) {
+        const plan = await getTrainingPlan(contract, exported.plan.planId);
+        if (
+          planId?.toString() !== exported.plan.planId ||
+          plan.policyVersion.toString() !== exported.plan.policyVersion ||
+          !sameHandles(plan.handles, exported.plan.handles)
+        ) {
+          problems.push(`plan ${exported.plan.planId} differs from the chain`);
+        }
+      }
+    }
+
+    const onChain: ProgressEntry[] = [];
+    for (let offset = 0; offset < data.progress.length; offset += EXPORT_PAGE_SIZE) {
+      onChain.push(...(await getProgressHistory(contract, data.owner, offset, EXPORT_PAGE_SIZE)));
+    }
+    data.progress.forEach((entry, i) => {
+      const stored = onChain[i];
+      if (
+        !stored ||
+        stored.planId.toString() !== entry.planId ||
+        stored.session !== entry.session ||
+        stored.timestamp !== entry.timestamp ||
+        !sameHandles(stored.handles, entry.handles)
+      ) {
+        problems.push(`progress entry ${i + 1} differs from the chain`);
+      }
+    });
+
+    if (problems.length > 0) {
+      throw new CognitiveEnhanceError("INVALID_BUNDLE", `The export doesn't match the chain: ${problems.join(", ")}`);
+    }
+    return data;
+  });
+}
@@ -0,0 +1,71 @@
+// sdk/decryption.ts
+import { ZeroHash } from "ethers";
+import type { Signer } from "ethers";
+import type { DecryptionSession, FhevmDecryptor } from "./types";
+
+// Validity window of the signed decryption permission
+const DEFAULT_DURATION_DAYS = 1;
+
+// The wallet authorises a throwaway keypair with one EIP-712 signature; values are then re-encrypted
+// under that keypair, so cleartexts exist only locally. The private key must never be persisted.
+export async function createDecryptionSession(
+  decryptor: FhevmDecryptor,
+  signer: Signer,
+  contractAddress: string,
+  durationDays: number = DEFAULT_DURATION_DAYS
+): Promise<DecryptionSession> {
+  const keypair = decryptor.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = decryptor.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  return {
+    userAddress: await signer.getAddress(),
+    contractAddress,
+    publicKey: keypair.publicKey,
+    privateKey: keypair.privateKey,
+    signature: signature.replace("0x", ""),
+    startTimestamp,
+    durationDays
+  };
+}
+
+export function isSessionValid(session: DecryptionSession, now: number = Date.now()): boolean {
+  const expiresAt = (session.startTimestamp + session.durationDays * 24 * 60 * 60) * 1000;
+  return now < expiresAt;
+}
+
+// Reveals euint32 handles to the session's user; handles the user isn't allowed on make the relayer reject the batch
+export async function userDecryptHandles(
+  decryptor: FhevmDecryptor,
+  session: DecryptionSession,
+  handles: string[]
+): Promise<bigint[]> {
+  // Uninitialized handles are zero and have no ACL entry to check
+  const pending = Array.from(new Set(handles.filter((handle) => handle !== ZeroHash)));
+  const clear = new Map<string, bigint>();
+
+  if (pending.length > 0) {
+    const results = await decryptor.userDecrypt(
+      pending.map((handle) => ({ handle, contractAddress: session.contractAddress })),
+      session.privateKey,
+      session.publicKey,
+      session.signature,
+      [session.contractAddress],
+      session.userAddress,
+      session.startTimestamp,
+      session.durationDays
+    );
+
+    for (const handle of pending) {
+      clear.set(handle, BigInt(results[handle]));
+    }
+  }
+
+  return handles.map((handle) => clear.get(handle) ?? 0n);
+}
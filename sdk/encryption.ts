@@ -0,0 +1,89 @@
+// sdk/encryption.ts
+import { hexlify } from "ethers";
+import type { CognitiveScores, EncryptedScores, EncryptedValue, EncryptedValues, FhevmEncryptor } from "./types";
+
+const UINT32_MAX = 0xffffffff;
+
+// Scores are whole percentages. The contract stores anything above SCORE_MAX as SCORE_MAX and flags the result,
+// so clients check the range before encrypting.
+export const SCORE_MIN = 0;
+export const SCORE_MAX = 100;
+
+export const isValidScore = (value: number): boolean =>
+  Number.isInteger(value) && value >= SCORE_MIN && value <= SCORE_MAX;
+
+const assertEncryptable = (name: string, value: number) => {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new Error(`Invalid ${name} value: ${value}`);
+  }
+};
+
+// Encrypts the four domain scores into euint32 handles sharing a single input proof
+export async function encryptScores(
+  encryptor: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  scores: CognitiveScores
+): Promise<EncryptedScores> {
+  assertEncryptable("memory", scores.memory);
+  assertEncryptable("attention", scores.attention);
+  assertEncryptable("processing", scores.processing);
+  assertEncryptable("flexibility", scores.flexibility);
+
+  const input = encryptor.createEncryptedInput(contractAddress, userAddress);
+  input
+    .add32(scores.memory)
+    .add32(scores.attention)
+    .add32(scores.processing)
+    .add32(scores.flexibility);
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    memory: hexlify(handles[0]),
+    attention: hexlify(handles[1]),
+    processing: hexlify(handles[2]),
+    flexibility: hexlify(handles[3]),
+    inputProof: hexlify(inputProof)
+  };
+}
+
+// Encrypts a single euint32, e.g. a progress value
+export async function encryptValue(
+  encryptor: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  value: number
+): Promise<EncryptedValue> {
+  assertEncryptable("progress", value);
+
+  const input = encryptor.createEncryptedInput(contractAddress, userAddress);
+  input.add32(value);
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    handle: hexlify(handles[0]),
+    inputProof: hexlify(inputProof)
+  };
+}
+
+// Encrypts a list of euint32 values, e.g. per-exercise session scores, under one input proof
+export async function encryptValues(
+  encryptor: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  values: number[]
+): Promise<EncryptedValues> {
+  values.forEach((value, i) => assertEncryptable(`score ${i}`, value));
+
+  const input = encryptor.createEncryptedInput(contractAddress, userAddress);
+  values.forEach((value) => input.add32(value));
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    handles: handles.map((handle) => hexlify(handle)),
+    inputProof: hexlify(inputProof)
+  };
+}
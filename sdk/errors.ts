@@ -0,0 +1,126 @@
+// sdk/errors.ts
+import { AbiCoder, dataSlice, isError } from "ethers";
+
+export type CognitiveErrorCode =
+  | "PLAN_ALREADY_EXISTS"
+  | "PLAN_NOT_ACTIVE"
+  | "PLAN_EXPIRED"
+  | "PLAN_NOT_EXPIRED"
+  | "INVALID_TRANSITION"
+  | "NO_PROGRESS_DATA"
+  | "NO_SESSION_DATA"
+  | "INVALID_SESSION"
+  | "INVALID_SCORE"
+  | "TOO_FEW_SESSIONS"
+  | "SESSION_LIMIT_REACHED"
+  | "REST_DAY_REQUIRED"
+  | "UNKNOWN_POLICY"
+  | "INVALID_CURVE"
+  | "INVALID_SESSION_LIMITS"
+  | "COHORT_TOO_SMALL"
+  | "UNKNOWN_REQUEST"
+  | "REQUEST_CONSUMED"
+  | "REQUEST_NOT_PENDING"
+  | "REQUEST_NOT_TIMED_OUT"
+  | "RESULT_NOT_FOUND"
+  | "NOT_AUTHORIZED"
+  | "NOT_PLAN_OWNER"
+  | "NOT_ADMIN"
+  | "NOT_THERAPIST"
+  | "ACCESS_ALREADY_GRANTED"
+  | "ACCESS_NOT_GRANTED"
+  | "INVALID_PAGE_SIZE"
+  | "HISTORY_ALREADY_SHARED"
+  | "INVALID_ADDRESS"
+  | "ALREADY_IMPORTED"
+  | "INVALID_BUNDLE"
+  | "BUNDLE_PASSWORD"
+  | "MISSING_EVENT"
+  | "USER_REJECTED"
+  | "CALL_EXCEPTION"
+  | "UNKNOWN";
+
+// Revert strings emitted by CognitiveEnhanceFHE
+const REVERT_REASONS: Record<string, CognitiveErrorCode> = {
+  "Plan already exists": "PLAN_ALREADY_EXISTS",
+  "Plan not active": "PLAN_NOT_ACTIVE",
+  "Plan expired": "PLAN_EXPIRED",
+  "Plan not expired": "PLAN_NOT_EXPIRED",
+  "Invalid transition": "INVALID_TRANSITION",
+  "Invalid session size": "INVALID_SESSION",
+  "Too few sessions": "TOO_FEW_SESSIONS",
+  "Session limit reached": "SESSION_LIMIT_REACHED",
+  "Rest day required": "REST_DAY_REQUIRED",
+  "Unknown policy": "UNKNOWN_POLICY",
+  "Invalid curve": "INVALID_CURVE",
+  "Invalid session limits": "INVALID_SESSION_LIMITS",
+  "Cohort too small": "COHORT_TOO_SMALL",
+  "Unknown request": "UNKNOWN_REQUEST",
+  "Request already consumed": "REQUEST_CONSUMED",
+  "Request not pending": "REQUEST_NOT_PENDING",
+  "Request not timed out": "REQUEST_NOT_TIMED_OUT",
+  "Result not found": "RESULT_NOT_FOUND",
+  "Not authorized": "NOT_AUTHORIZED",
+  "Not plan owner": "NOT_PLAN_OWNER",
+  "Not admin": "NOT_ADMIN",
+  "Not a therapist": "NOT_THERAPIST",
+  "Access already granted": "ACCESS_ALREADY_GRANTED",
+  "Access not granted": "ACCESS_NOT_GRANTED",
+  "Invalid page size": "INVALID_PAGE_SIZE",
+  "History already shared": "HISTORY_ALREADY_SHARED",
+  "Invalid address": "INVALID_ADDRESS",
+  "Already imported": "ALREADY_IMPORTED"
+};
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+function decodeRevertData(data: unknown): string | undefined {
+  if (typeof data !== "string" || !data.startsWith(ERROR_STRING_SELECTOR)) return undefined;
+  try {
+    return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4))[0];
+  } catch (e) {
+    return undefined;
+  }
+}
+
+export class CognitiveEnhanceError extends Error {
+  readonly code: CognitiveErrorCode;
+  readonly reason?: string;
+
+  constructor(code: CognitiveErrorCode, message: string, options?: { reason?: string; cause?: unknown }) {
+    super(message, { cause: options?.cause });
+    this.name = "CognitiveEnhanceError";
+    this.code = code;
+    this.reason = options?.reason;
+  }
+}
+
+export function toCognitiveError(e: unknown): CognitiveEnhanceError {
+  if (e instanceof CognitiveEnhanceError) return e;
+
+  if (isError(e, "ACTION_REJECTED")) {
+    return new CognitiveEnhanceError("USER_REJECTED", "Transaction rejected by user", { cause: e });
+  }
+
+  if (isError(e, "CALL_EXCEPTION")) {
+    const reason = e.reason || undefined;
+    const code = (reason && REVERT_REASONS[reason]) || "CALL_EXCEPTION";
+    return new CognitiveEnhanceError(code, reason || e.shortMessage, { reason, cause: e });
+  }
+
+  // Some node errors skip ethers' decoding and only carry the raw Error(string) revert data
+  const reason = decodeRevertData((e as { data?: unknown } | null)?.data);
+  if (reason && REVERT_REASONS[reason]) {
+    return new CognitiveEnhanceError(REVERT_REASONS[reason], reason, { reason, cause: e });
+  }
+
+  // Providers that don't surface a structured revert still include the reason in the message
+  const message = e instanceof Error ? e.message : String(e);
+  for (const [reason, code] of Object.entries(REVERT_REASONS)) {
+    if (message.includes(reason)) {
+      return new CognitiveEnhanceError(code, reason, { reason, cause: e });
+    }
+  }
+
+  return new CognitiveEnhanceError("UNKNOWN", message, { cause: e });
+}
@@ -0,0 +1,271 @@
+// sdk/events.ts
+import type { Log, TransactionReceipt } from "ethers";
+import { CognitiveEnhanceFHE__factory } from "../types/factories/contracts/CognitiveEnhanceFHE__factory";
+import type {
+  AdminTransferredEvent,
+  CohortAveragesRevealedEvent,
+  CohortRevealCancelledEvent,
+  CohortRevealRequestedEvent,
+  CohortRevealSupersededEvent,
+  DefaultPlanPolicyChangedEvent,
+  LegacyRecordImportedEvent,
+  PlanGeneratedEvent,
+  PlanPolicyPublishedEvent,
+  PlanStatusChangedEvent,
+  ProgressUpdatedEvent,
+  SessionScoredEvent,
+  TestSubmittedEvent,
+  TherapistAccessGrantedEvent,
+  TherapistAccessRevokedEvent,
+  TherapistHistorySharedEvent,
+  TherapistRegisteredEvent,
+  TherapistRemovedEvent
+} from "../types/contracts/CognitiveEnhanceFHE";
+import { PlanStatus, planStatusFromIndex } from "./lifecycle";
+
+export interface EventMeta {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type TestSubmitted = { name: "TestSubmitted" } & TestSubmittedEvent.OutputObject & EventMeta;
+export type PlanGenerated = { name: "PlanGenerated" } & PlanGeneratedEvent.OutputObject & EventMeta;
+// Statuses are decoded from the enum index to their names
+export type PlanStatusChanged = { name: "PlanStatusChanged"; previous: PlanStatus; next: PlanStatus } & Omit<
+  PlanStatusChangedEvent.OutputObject,
+  "previous" | "next"
+> &
+  EventMeta;
+export type ProgressUpdated = { name: "ProgressUpdated" } & ProgressUpdatedEvent.OutputObject & EventMeta;
+export type SessionScored = { name: "SessionScored" } & SessionScoredEvent.OutputObject & EventMeta;
+export type CohortRevealRequested = { name: "CohortRevealRequested" } &
+  CohortRevealRequestedEvent.OutputObject &
+  EventMeta;
+export type CohortAveragesRevealed = { name: "CohortAveragesRevealed" } &
+  CohortAveragesRevealedEvent.OutputObject &
+  EventMeta;
+export type CohortRevealSuperseded = { name: "CohortRevealSuperseded" } &
+  CohortRevealSupersededEvent.OutputObject &
+  EventMeta;
+export type CohortRevealCancelled = { name: "CohortRevealCancelled" } &
+  CohortRevealCancelledEvent.OutputObject &
+  EventMeta;
+export type PlanPolicyPublished = { name: "PlanPolicyPublished" } & PlanPolicyPublishedEvent.OutputObject & EventMeta;
+export type DefaultPlanPolicyChanged = { name: "DefaultPlanPolicyChanged" } &
+  DefaultPlanPolicyChangedEvent.OutputObject &
+  EventMeta;
+export type AdminTransferred = { name: "AdminTransferred" } & AdminTransferredEvent.OutputObject & EventMeta;
+export type TherapistRegistered = { name: "TherapistRegistered" } & TherapistRegisteredEvent.OutputObject & EventMeta;
+export type TherapistRemoved = { name: "TherapistRemoved" } & TherapistRemovedEvent.OutputObject & EventMeta;
+export type TherapistAccessGranted = { name: "TherapistAccessGranted" } &
+  TherapistAccessGrantedEvent.OutputObject &
+  EventMeta;
+export type TherapistAccessRevoked = { name: "TherapistAccessRevoked" } &
+  TherapistAccessRevokedEvent.OutputObject &
+  EventMeta;
+export type TherapistHistoryShared = { name: "TherapistHistoryShared" } &
+  TherapistHistorySharedEvent.OutputObject &
+  EventMeta;
+export type LegacyRecordImported = { name: "LegacyRecordImported" } &
+  LegacyRecordImportedEvent.OutputObject &
+  EventMeta;
+
+export type CognitiveEvent =
+  | TestSubmitted
+  | PlanGenerated
+  | PlanStatusChanged
+  | ProgressUpdated
+  | SessionScored
+  | CohortRevealRequested
+  | CohortAveragesRevealed
+  | CohortRevealSuperseded
+  | CohortRevealCancelled
+  | PlanPolicyPublished
+  | DefaultPlanPolicyChanged
+  | AdminTransferred
+  | TherapistRegistered
+  | TherapistRemoved
+  | TherapistAccessGranted
+  | TherapistAccessRevoked
+  | TherapistHistoryShared
+  | LegacyRecordImported;
+export type CognitiveEventName = CognitiveEvent["name"];
+
+export const COGNITIVE_EVENT_NAMES: CognitiveEventName[] = [
+  "TestSubmitted",
+  "PlanGenerated",
+  "PlanStatusChanged",
+  "ProgressUpdated",
+  "SessionScored",
+  "CohortRevealRequested",
+  "CohortAveragesRevealed",
+  "CohortRevealSuperseded",
+  "CohortRevealCancelled",
+  "PlanPolicyPublished",
+  "DefaultPlanPolicyChanged",
+  "AdminTransferred",
+  "TherapistRegistered",
+  "TherapistRemoved",
+  "TherapistAccessGranted",
+  "TherapistAccessRevoked",
+  "TherapistHistoryShared",
+  "LegacyRecordImported"
+];
+
+const iface = CognitiveEnhanceFHE__factory.createInterface();
+
+// Returns null for logs that belong to other contracts or to events outside the SDK surface
+export function decodeEvent(log: Log): CognitiveEvent | null {
+  let parsed;
+  try {
+    parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch (e) {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const meta: EventMeta = {
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.index
+  };
+
+  switch (parsed.name) {
+    case "TestSubmitted":
+      return {
+        name: "TestSubmitted",
+        resultId: parsed.args.resultId,
+        owner: parsed.args.owner,
+        timestamp: parsed.args.timestamp,
+        ...meta
+      };
+    case "PlanGenerated":
+      return {
+        name: "PlanGenerated",
+        resultId: parsed.args.resultId,
+        planId: parsed.args.planId,
+        policyVersion: parsed.args.policyVersion,
+        ...meta
+      };
+    case "PlanStatusChanged":
+      return {
+        name: "PlanStatusChanged",
+        planId: parsed.args.planId,
+        previous: planStatusFromIndex(parsed.args.previous),
+        next: planStatusFromIndex(parsed.args.next),
+        timestamp: parsed.args.timestamp,
+        expiresAt: parsed.args.expiresAt,
+        ...meta
+      };
+    case "ProgressUpdated":
+      return {
+        name: "ProgressUpdated",
+        planId: parsed.args.planId,
+        user: parsed.args.user,
+        session: parsed.args.session,
+        timestamp: parsed.args.timestamp,
+        ...meta
+      };
+    case "SessionScored":
+      return {
+        name: "SessionScored",
+        user: parsed.args.user,
+        planId: parsed.args.planId,
+        exerciseCount: parsed.args.exerciseCount,
+        ...meta
+      };
+    case "CohortRevealRequested":
+      return {
+        name: "CohortRevealRequested",
+        requestId: parsed.args.requestId,
+        cohortSize: parsed.args.cohortSize,
+        ...meta
+      };
+    case "CohortAveragesRevealed":
+      return {
+        name: "CohortAveragesRevealed",
+        requestId: parsed.args.requestId,
+        cohortSize: parsed.args.cohortSize,
+        ...meta
+      };
+    case "CohortRevealSuperseded":
+      return {
+        name: "CohortRevealSuperseded",
+        requestId: parsed.args.requestId,
+        cohortSize: parsed.args.cohortSize,
+        ...meta
+      };
+    case "CohortRevealCancelled":
+      return {
+        name: "CohortRevealCancelled",
+        requestId: parsed.args.requestId,
+        cancelledBy: parsed.args.cancelledBy,
+        ...meta
+      };
+    case "PlanPolicyPublished":
+      return {
+        name: "PlanPolicyPublished",
+        version: parsed.args.version,
+        publisher: parsed.args.publisher,
+        ...meta
+      };
+    case "DefaultPlanPolicyChanged":
+      return {
+        name: "DefaultPlanPolicyChanged",
+        previousVersion: parsed.args.previousVersion,
+        newVersion: parsed.args.newVersion,
+        ...meta
+      };
+    case "AdminTransferred":
+      return {
+        name: "AdminTransferred",
+        previousAdmin: parsed.args.previousAdmin,
+        newAdmin: parsed.args.newAdmin,
+        ...meta
+      };
+    case "TherapistRegistered":
+      return { name: "TherapistRegistered", therapist: parsed.args.therapist, ...meta };
+    case "TherapistRemoved":
+      return { name: "TherapistRemoved", therapist: parsed.args.therapist, ...meta };
+    case "TherapistAccessGranted":
+      return { name: "TherapistAccessGranted", user: parsed.args.user, therapist: parsed.args.therapist, ...meta };
+    case "TherapistAccessRevoked":
+      return { name: "TherapistAccessRevoked", user: parsed.args.user, therapist: parsed.args.therapist, ...meta };
+    case "TherapistHistoryShared":
+      return {
+        name: "TherapistHistoryShared",
+        user: parsed.args.user,
+        therapist: parsed.args.therapist,
+        shared: parsed.args.shared,
+        total: parsed.args.total,
+        ...meta
+      };
+    case "LegacyRecordImported":
+      return {
+        name: "LegacyRecordImported",
+        owner: parsed.args.owner,
+        resultId: parsed.args.resultId,
+        legacyId: parsed.args.legacyId,
+        ...meta
+      };
+    default:
+      return null;
+  }
+}
+
+export function decodeReceiptEvents(receipt: TransactionReceipt | null): CognitiveEvent[] {
+  const events: CognitiveEvent[] = [];
+  for (const log of receipt?.logs || []) {
+    const event = decodeEvent(log);
+    if (event) events.push(event);
+  }
+  return events;
+}
+
+export function findEvent<N extends CognitiveEventName>(
+  events: CognitiveEvent[],
+  name: N
+): Extract<CognitiveEvent, { name: N }> | undefined {
+  return events.find((e): e is Extract<CognitiveEvent, { name: N }> => e.name === name);
+}
@@ -0,0 +1,12 @@
+// sdk/index.ts
+export * from "./types";
+export * from "./encryption";
+export * from "./decryption";
+export * from "./lifecycle";
+export * from "./requests";
+export * from "./policies";
+export * from "./bundle";
+export * from "./events";
+export * from "./errors";
+export * from "./client";
+export type { CognitiveEnhanceFHE } from "../types/contracts/CognitiveEnhanceFHE";
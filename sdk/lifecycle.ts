@@ -0,0 +1,46 @@
+// sdk/lifecycle.ts
+
+// Same order as CognitiveEnhanceFHE.PlanStatus, so a status's index is its on-chain value
+export const PLAN_STATUSES = ["none", "pending", "active", "paused", "completed", "abandoned", "expired"] as const;
+
+export type PlanStatus = (typeof PLAN_STATUSES)[number];
+
+// Statuses a plan can be moved into; plans are only ever created pending
+export type PlanTransition = Exclude<PlanStatus, "none" | "pending">;
+
+export function planStatusFromIndex(index: bigint | number): PlanStatus {
+  const status = PLAN_STATUSES[Number(index)];
+  if (!status) {
+    throw new Error(`Unknown plan status: ${index}`);
+  }
+  return status;
+}
+
+export const planStatusIndex = (status: PlanStatus): number => PLAN_STATUSES.indexOf(status);
+
+export const isOpenStatus = (status: PlanStatus): boolean =>
+  status === "pending" || status === "active" || status === "paused";
+
+// Open plans past their deadline can only be abandoned or marked expired, mirroring the contract
+export function effectivePlanStatus(status: PlanStatus, expiresAt: number, now = Math.floor(Date.now() / 1000)): PlanStatus {
+  return isOpenStatus(status) && now > expiresAt ? "expired" : status;
+}
+
+// Transitions the owner may make from `status`; `expiresAt` decides between the timed and expiry transitions
+export function allowedTransitions(
+  status: PlanStatus,
+  expiresAt: number,
+  now = Math.floor(Date.now() / 1000)
+): PlanTransition[] {
+  if (!isOpenStatus(status)) return [];
+  if (now > expiresAt) return ["expired", "abandoned"];
+
+  switch (status) {
+    case "pending":
+      return ["active", "abandoned"];
+    case "active":
+      return ["paused", "completed", "abandoned"];
+    default:
+      return ["active", "abandoned"];
+  }
+}
@@ -0,0 +1,62 @@
+// sdk/policies.ts
+import { CognitiveEnhanceError } from "./errors";
+import type { CognitiveScores, IntensityCurve, PlanPolicyRules, Recommendation } from "./types";
+
+// Same order as the curves in CognitiveEnhanceFHE.PlanPolicy
+export const POLICY_DOMAINS = ["memory", "attention", "processing", "flexibility"] as const;
+
+// Mirrors the contract's bounds
+export const MAX_CURVE_SLOPE = 1000;
+
+// The curve of policy version 1, i.e. 100 - score
+export const LINEAR_INTENSITY_CURVE: IntensityCurve = { base: 100, slope: 100, floor: 0, ceiling: 100 };
+
+// Same integer arithmetic as the contract, so a plan can be checked against its scores and policy
+export function applyIntensityCurve(score: number, curve: IntensityCurve): number {
+  const scaled = Math.floor((Math.min(score, 100) * curve.slope) / 100);
+  const intensity = curve.base - Math.min(scaled, curve.base);
+  return Math.max(Math.min(intensity, curve.ceiling), curve.floor);
+}
+
+export function previewTrainingPlan(rules: PlanPolicyRules, scores: CognitiveScores): Recommendation {
+  return {
+    memoryTraining: applyIntensityCurve(scores.memory, rules.curves.memory),
+    attentionTraining: applyIntensityCurve(scores.attention, rules.curves.attention),
+    processingTraining: applyIntensityCurve(scores.processing, rules.curves.processing),
+    flexibilityTraining: applyIntensityCurve(scores.flexibility, rules.curves.flexibility)
+  };
+}
+
+export function describeSessionRules(rules: PlanPolicyRules): string {
+  const parts = [
+    rules.minSessions > 0 ? `at least ${rules.minSessions} sessions` : null,
+    rules.maxSessions > 0 ? `at most ${rules.maxSessions} sessions` : null,
+    rules.sessionsPerRestDay > 0 ? `a rest day after every ${rules.sessionsPerRestDay} sessions` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "no session rules";
+}
+
+const isUint32 = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+
+// Rejects what the contract would revert on, before a transaction is sent
+export function validatePlanPolicy(rules: PlanPolicyRules): void {
+  for (const domain of POLICY_DOMAINS) {
+    const curve = rules.curves?.[domain];
+    if (!curve || ![curve.base, curve.slope, curve.floor, curve.ceiling].every(isUint32)) {
+      throw new CognitiveEnhanceError("INVALID_CURVE", `The ${domain} curve needs integer base, slope, floor, ceiling`);
+    }
+    if (curve.base > 100 || curve.ceiling > 100 || curve.floor > curve.ceiling || curve.slope > MAX_CURVE_SLOPE) {
+      throw new CognitiveEnhanceError(
+        "INVALID_CURVE",
+        `The ${domain} curve needs base and ceiling <= 100, floor <= ceiling and slope <= ${MAX_CURVE_SLOPE}`
+      );
+    }
+  }
+  if (![rules.minSessions, rules.maxSessions, rules.sessionsPerRestDay].every(isUint32)) {
+    throw new CognitiveEnhanceError("INVALID_SESSION_LIMITS", "Session rules must be non-negative integers");
+  }
+  if (rules.maxSessions > 0 && rules.minSessions > rules.maxSessions) {
+    throw new CognitiveEnhanceError("INVALID_SESSION_LIMITS", "minSessions can't exceed maxSessions");
+  }
+}
@@ -0,0 +1,41 @@
+// sdk/requests.ts
+
+// Same order as CognitiveEnhanceFHE.RequestKind; each oracle callback only accepts its own kind
+export const DECRYPTION_REQUEST_KINDS = ["none", "cohort-averages"] as const;
+
+export type DecryptionRequestKind = (typeof DECRYPTION_REQUEST_KINDS)[number];
+
+export function decryptionRequestKindFromIndex(index: bigint | number): DecryptionRequestKind {
+  const kind = DECRYPTION_REQUEST_KINDS[Number(index)];
+  if (!kind) {
+    throw new Error(`Unknown decryption request kind: ${index}`);
+  }
+  return kind;
+}
+
+// Same order as CognitiveEnhanceFHE.DecryptionRequestStatus, so a status's index is its on-chain value
+export const DECRYPTION_REQUEST_STATUSES = ["none", "pending", "fulfilled", "superseded", "cancelled"] as const;
+
+export type DecryptionRequestStatus = (typeof DECRYPTION_REQUEST_STATUSES)[number];
+
+export function decryptionRequestStatusFromIndex(index: bigint | number): DecryptionRequestStatus {
+  const status = DECRYPTION_REQUEST_STATUSES[Number(index)];
+  if (!status) {
+    throw new Error(`Unknown decryption request status: ${index}`);
+  }
+  return status;
+}
+
+// Settled requests got a callback (fulfilled or superseded) or were given up on
+export const isSettledRequest = (status: DecryptionRequestStatus): boolean =>
+  status === "fulfilled" || status === "superseded" || status === "cancelled";
+
+// A pending request past its timeout may be cancelled by its requester or the admin, then retried
+export function isRequestTimedOut(
+  status: DecryptionRequestStatus,
+  requestedAt: number,
+  timeout: number,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  return status === "pending" && now >= requestedAt + timeout;
+}
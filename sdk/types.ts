@@ -0,0 +1,264 @@
+// sdk/types.ts
+import type { PlanStatus } from "./lifecycle";
+import type { DecryptionRequestKind, DecryptionRequestStatus } from "./requests";
+
+export interface CognitiveScores {
+  memory: number;
+  attention: number;
+  processing: number;
+  flexibility: number;
+}
+
+export interface ScoreHandles {
+  memory: string;
+  attention: string;
+  processing: string;
+  flexibility: string;
+}
+
+export interface EncryptedScores extends ScoreHandles {
+  inputProof: string;
+}
+
+export interface EncryptedValue {
+  handle: string;
+  inputProof: string;
+}
+
+export interface EncryptedValues {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface Recommendation {
+  memoryTraining: number;
+  attentionTraining: number;
+  processingTraining: number;
+  flexibilityTraining: number;
+}
+
+// `inRangeHandle` is an encrypted bool, false when any submitted score exceeded the maximum and was clamped
+export interface TestResult {
+  resultId: bigint;
+  owner: string;
+  timestamp: number;
+  handles: ScoreHandles;
+  inRangeHandle: string;
+}
+
+// One encrypted exercise intensity per domain, derived with plan policy `policyVersion`
+export interface TrainingPlan {
+  planId: bigint;
+  resultId: bigint;
+  policyVersion: bigint;
+  handles: ScoreHandles;
+}
+
+// intensity = base - min(score, 100) * slope / 100, then clamped to [floor, ceiling]
+export interface IntensityCurve {
+  base: number;
+  slope: number;
+  floor: number;
+  ceiling: number;
+}
+
+// What an admin publishes: a curve per domain and the session rules for plan progress. Zero session limits mean
+// no limit, and after every `sessionsPerRestDay` sessions the next one waits for the contract's rest period.
+export interface PlanPolicyRules {
+  curves: Record<keyof CognitiveScores, IntensityCurve>;
+  minSessions: number;
+  maxSessions: number;
+  sessionsPerRestDay: number;
+}
+
+export interface PlanPolicy extends PlanPolicyRules {
+  version: bigint;
+  publishedAt: number;
+  isDefault: boolean;
+}
+
+export interface ProgressHandles {
+  progress: string;
+  total: string;
+  average: string;
+}
+
+// One logged progress value; `session` counts the plan's entries from 1
+export interface ProgressEntry {
+  planId: bigint;
+  session: number;
+  timestamp: number;
+  handles: ProgressHandles;
+}
+
+export interface DecryptedProgressEntry {
+  planId: bigint;
+  session: number;
+  timestamp: number;
+  progress: number;
+  total: number;
+  average: number;
+}
+
+// The user's latest session average (0-100) and the exercise level it led to
+export interface AdaptiveDifficulty {
+  sessionAverage: number;
+  difficulty: number;
+}
+
+// Domain averages over `cohortSize` results, decrypted by the oracle at `revealedAt`
+export interface CohortAverages {
+  scores: CognitiveScores;
+  cohortSize: number;
+  revealedAt: number;
+}
+
+// `contributors` counts the distinct owners who submitted since the last request, and `contributorsNeeded` how
+// many more must before fresh averages may be requested; it is 0 while a cancelled request may be retried
+export interface CohortStatus {
+  cohortSize: number;
+  minCohortSize: number;
+  contributors: number;
+  contributorsNeeded: number;
+  lastRequestId: bigint | null;
+  averages: CohortAverages | null;
+}
+
+// How many of the `total` records a user held when granting a therapist access have been shared with them so far
+export interface HistoryShare {
+  shared: number;
+  total: number;
+}
+
+// A request sent to the decryption oracle; `subject` is what it decrypts, e.g. the cohort size for a cohort reveal.
+// `settledAt` is 0 while it is pending, and `consumed` is set once a callback for it has been accepted.
+export interface DecryptionRequest {
+  requestId: bigint;
+  kind: DecryptionRequestKind;
+  subject: bigint;
+  requester: string;
+  requestedBlock: number;
+  requestedAt: number;
+  settledAt: number;
+  status: DecryptionRequestStatus;
+  consumed: boolean;
+  // Pending past the contract's timeout, so it may be cancelled and retried
+  timedOut: boolean;
+}
+
+// `status` is what the contract stored; `effectiveStatus` also accounts for a lapsed deadline
+export interface PlanLifecycle {
+  planId: bigint;
+  status: PlanStatus;
+  effectiveStatus: PlanStatus;
+  expiresAt: number;
+  enteredAt: Partial<Record<PlanStatus, number>>;
+}
+
+// A plan as exported; `recommendation` holds the locally decrypted intensities, null if the export skipped decryption
+export interface ExportedPlan {
+  planId: string;
+  policyVersion: string;
+  status: PlanStatus;
+  expiresAt: number;
+  handles: ScoreHandles;
+  recommendation: Recommendation | null;
+}
+
+// Ids are strings so the export is plain JSON; `scores` are the locally decrypted scores, or null
+export interface ExportedResult {
+  resultId: string;
+  timestamp: number;
+  legacyId: string | null;
+  handles: ScoreHandles;
+  inRangeHandle: string;
+  scores: CognitiveScores | null;
+  plan: ExportedPlan | null;
+}
+
+// The owner's whole progress history, oldest first, so an entry's position is its on-chain index
+export interface ExportedProgressEntry {
+  planId: string;
+  session: number;
+  timestamp: number;
+  handles: ProgressHandles;
+  progress: number | null;
+  total: number | null;
+  average: number | null;
+}
+
+// Everything one owner holds on one deployment, as of `blockNumber`
+export interface DataExport {
+  format: string;
+  version: number;
+  chainId: number;
+  contractAddress: string;
+  owner: string;
+  exportedAt: number;
+  blockNumber: number;
+  results: ExportedResult[];
+  progress: ExportedProgressEntry[];
+}
+
+// `signature` is the owner's personal_sign over the canonical JSON of `data`
+export interface SignedDataExport {
+  data: DataExport;
+  signature: string;
+}
+
+// A signed export sealed with AES-GCM under a PBKDF2-derived key; binary fields are base64
+export interface EncryptedDataExport {
+  format: string;
+  version: number;
+  encryption: { cipher: "AES-GCM"; kdf: "PBKDF2-SHA-256"; iterations: number; salt: string; iv: string };
+  ciphertext: string;
+}
+
+// Subset of the relayer SDK's encrypted input shared by the browser instance and the hardhat mock
+export interface EncryptedInputBuilder {
+  add32(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export interface FhevmEncryptor {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+}
+
+// A signed user-decryption permission; it holds a private key and must stay in memory
+export interface DecryptionSession {
+  userAddress: string;
+  contractAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface UserDecryptTypedData {
+  domain: { chainId: number; name: string; verifyingContract: string; version: string };
+  types: Record<string, { name: string; type: string }[]>;
+  message: Record<string, any>;
+  primaryType: string;
+}
+
+// Subset of the relayer SDK's user-decryption API, also implemented by the hardhat mock
+export interface FhevmDecryptor {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): UserDecryptTypedData;
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
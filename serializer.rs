@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\serializer.rs
-// Generated at: 2025-10-16T15:16:53.559Z
\ No newline at end of file
@@ -0,0 +1,296 @@
+// tasks/CognitiveEnhanceFHE.ts
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { ActionType, HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import * as sdk from "../sdk";
+
+// Every task acts as one of the network's configured accounts, `--account` picking it by index, on the
+// deployment hardhat-deploy recorded for the network unless `--address` overrides it. Against the local
+// mock run `npx hardhat node` and pass `--network localhost`; the in-process network forgets its state
+// between invocations.
+//
+//   npx hardhat --network localhost task:submit-results --file results.json
+//   npx hardhat --network localhost task:request-plan --result 1
+//   npx hardhat --network localhost task:recommendation --result 1
+//   npx hardhat --network localhost task:list-results
+//   npx hardhat --network localhost task:grant-therapist --therapist 0x...
+//   npx hardhat --network localhost task:revoke-therapist --therapist 0x...
+//   npx hardhat --network localhost task:decrypt-progress --history
+//   npx hardhat --network localhost task:list-policies
+//   npx hardhat --network localhost task:publish-policy --file policy.json --make-default
+//   npx hardhat --network localhost task:set-default-policy --policy 2
+
+const PLUGIN_NAME = "CognitiveEnhanceFHE";
+
+const fail = (message: string): never => {
+  throw new HardhatPluginError(PLUGIN_NAME, message);
+};
+
+// Contract and relayer errors are reported by their SDK code instead of as a crash with a stack trace
+const reportErrors =
+  (action: ActionType<TaskArguments>): ActionType<TaskArguments> =>
+  async (taskArguments, hre, runSuper) => {
+    try {
+      return await action(taskArguments, hre, runSuper);
+    } catch (e) {
+      if (e instanceof sdk.CognitiveEnhanceError) {
+        throw new HardhatPluginError(PLUGIN_NAME, `${e.code}: ${e.message}`, e);
+      }
+      throw e;
+    }
+  };
+
+const connect = async (hre: HardhatRuntimeEnvironment, args: TaskArguments) => {
+  const { deployments, ethers, fhevm } = hre;
+  await fhevm.initializeCLIApi();
+
+  const address: string = args.address ?? (await deployments.get("CognitiveEnhanceFHE")).address;
+  const signers = await ethers.getSigners();
+  const signer = signers[args.account];
+  if (!signer) {
+    fail(`No account #${args.account} on ${hre.network.name}; ${signers.length} configured`);
+  }
+  return { contract: sdk.connectCognitiveEnhance(address, signer), signer, fhevm };
+};
+
+// Each task gets the same contract and account options
+const cognitiveTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam("address", "CognitiveEnhanceFHE address, instead of the recorded deployment")
+    .addOptionalParam("account", "Index of the account to act as", 0, types.int);
+
+const SCORE_FIELDS = ["memory", "attention", "processing", "flexibility"] as const;
+
+// Accepts one set of scores or an array of them
+const readScores = (file: string): sdk.CognitiveScores[] => {
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+  return entries.map((entry, i) => {
+    const record = entry as Record<string, unknown>;
+    const missing = SCORE_FIELDS.filter((field) => typeof record?.[field] !== "number");
+    if (missing.length > 0) {
+      fail(`${file} entry ${i}: missing numeric ${missing.join(", ")}`);
+    }
+    return {
+      memory: record.memory as number,
+      attention: record.attention as number,
+      processing: record.processing as number,
+      flexibility: record.flexibility as number,
+    };
+  });
+};
+
+// History entries decrypted per relayer request
+const HISTORY_PAGE_SIZE = 20;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const formatTime = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+// A policy file holds { curves: { memory, attention, processing, flexibility }, minSessions, maxSessions,
+// sessionsPerRestDay }, each curve being { base, slope, floor, ceiling }; the SDK checks it before publishing
+const readPolicy = (file: string): sdk.PlanPolicyRules => {
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  return {
+    curves: parsed.curves,
+    minSessions: parsed.minSessions ?? 0,
+    maxSessions: parsed.maxSessions ?? 0,
+    sessionsPerRestDay: parsed.sessionsPerRestDay ?? 0,
+  };
+};
+
+const describePolicy = (policy: sdk.PlanPolicy) => {
+  console.log(
+    `Policy v${policy.version}${policy.isDefault ? " (default)" : ""}, published ${formatTime(policy.publishedAt)}` +
+      `: ${sdk.describeSessionRules(policy)}`,
+  );
+  for (const domain of sdk.POLICY_DOMAINS) {
+    const { base, slope, floor, ceiling } = policy.curves[domain];
+    console.log(`  ${`${domain}:`.padEnd(13)} ${base} - score * ${slope}% within [${floor}, ${ceiling}]`);
+  }
+};
+
+task("task:address", "Prints the recorded CognitiveEnhanceFHE address").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
+  const deployment = await hre.deployments.get("CognitiveEnhanceFHE");
+  console.log(`CognitiveEnhanceFHE address is ${deployment.address}`);
+});
+
+cognitiveTask("task:submit-results", "Encrypts test results from a JSON file and submits them")
+  .addParam("file", "JSON file with { memory, attention, processing, flexibility } scores, or an array of them")
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const entries = readScores(taskArguments.file);
+      const { contract, signer, fhevm } = await connect(hre, taskArguments);
+
+      for (const scores of entries) {
+        const { resultId, transactionHash } = await sdk.submitTestResults(contract, fhevm, scores);
+        console.log(`Submitted result ${resultId} for ${signer.address} (tx ${transactionHash})`);
+      }
+    }),
+  );
+
+cognitiveTask("task:request-plan", "Requests a training plan for one of the account's results")
+  .addParam("result", "Result id", undefined, types.int)
+  .addOptionalParam("policy", "Plan policy version, instead of the default", undefined, types.int)
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const { contract } = await connect(hre, taskArguments);
+      const { planId, policyVersion, transactionHash } = await sdk.requestTrainingPlan(
+        contract,
+        taskArguments.result,
+        taskArguments.policy,
+      );
+      console.log(
+        `Requested plan ${planId} for result ${taskArguments.result} with policy v${policyVersion} ` +
+          `(tx ${transactionHash})`,
+      );
+    }),
+  );
+
+cognitiveTask("task:recommendation", "Waits for a result's training plan, then decrypts and prints it")
+  .addOptionalParam("result", "Result id whose plan to wait for", undefined, types.int)
+  .addOptionalParam("plan", "Plan id, instead of a result id", undefined, types.int)
+  .addOptionalParam("interval", "Seconds between polls", 5, types.int)
+  .addOptionalParam("timeout", "Seconds to wait before giving up", 300, types.int)
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      if ((taskArguments.result === undefined) === (taskArguments.plan === undefined)) {
+        fail("Pass exactly one of --result or --plan");
+      }
+      const { contract, fhevm } = await connect(hre, taskArguments);
+
+      let planId: bigint | null = taskArguments.plan !== undefined ? BigInt(taskArguments.plan) : null;
+      const deadline = Date.now() + taskArguments.timeout * 1000;
+      while (planId === null) {
+        planId = await sdk.getResultPlanId(contract, taskArguments.result);
+        if (planId !== null) break;
+        if (Date.now() >= deadline) {
+          fail(`Result ${taskArguments.result} has no plan after ${taskArguments.timeout}s`);
+        }
+        console.log(`Result ${taskArguments.result} has no plan yet, checking again in ${taskArguments.interval}s`);
+        await sleep(taskArguments.interval * 1000);
+      }
+
+      const [lifecycle, plan, recommendation] = await Promise.all([
+        sdk.getPlanLifecycle(contract, planId),
+        sdk.getTrainingPlan(contract, planId),
+        sdk.decryptTrainingPlan(contract, fhevm, planId),
+      ]);
+      console.log(
+        `Plan ${planId} (${lifecycle.effectiveStatus}, expires ${formatTime(lifecycle.expiresAt)}, ` +
+          `policy v${plan.policyVersion})`,
+      );
+      console.log(`  memory training:      ${recommendation.memoryTraining}`);
+      console.log(`  attention training:   ${recommendation.attentionTraining}`);
+      console.log(`  processing training:  ${recommendation.processingTraining}`);
+      console.log(`  flexibility training: ${recommendation.flexibilityTraining}`);
+    }),
+  );
+
+cognitiveTask("task:list-results", "Lists an owner's test results and their plans")
+  .addOptionalParam("owner", "Owner address, instead of the acting account")
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const { contract, signer } = await connect(hre, taskArguments);
+      const owner: string = taskArguments.owner ?? signer.address;
+
+      const ids = await sdk.getOwnerResultIds(contract, owner);
+      console.log(`${ids.length} result(s) for ${owner}`);
+      for (const id of ids) {
+        const [result, planId] = await Promise.all([sdk.getTestResult(contract, id), sdk.getResultPlanId(contract, id)]);
+        console.log(`  #${id}  ${formatTime(result.timestamp)}  ${planId !== null ? `plan ${planId}` : "no plan"}`);
+      }
+    }),
+  );
+
+cognitiveTask("task:grant-therapist", "Gives a registered therapist access to the account's results")
+  .addParam("therapist", "Therapist address")
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const { contract } = await connect(hre, taskArguments);
+      const { transactionHash } = await sdk.grantTherapistAccess(contract, taskArguments.therapist);
+      console.log(`Granted ${taskArguments.therapist} access (tx ${transactionHash})`);
+      const pages = await sdk.shareHistoryWithTherapist(contract, taskArguments.therapist);
+      if (pages.length > 0) {
+        console.log(`Shared earlier records in ${pages.length} transaction(s)`);
+      }
+    }),
+  );
+
+cognitiveTask("task:revoke-therapist", "Withdraws a therapist's access to the account's results")
+  .addParam("therapist", "Therapist address")
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const { contract } = await connect(hre, taskArguments);
+      const { transactionHash } = await sdk.revokeTherapistAccess(contract, taskArguments.therapist);
+      console.log(`Revoked ${taskArguments.therapist}'s access (tx ${transactionHash})`);
+    }),
+  );
+
+cognitiveTask("task:decrypt-progress", "Decrypts the account's latest progress")
+  .addFlag("history", "Also decrypt every logged progress entry")
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const { contract, signer, fhevm } = await connect(hre, taskArguments);
+      const address = await contract.getAddress();
+      // One signature covers the latest value and the history
+      const session = await sdk.createDecryptionSession(fhevm, signer, address);
+
+      const progress = await sdk.decryptProgress(contract, fhevm, { session });
+      console.log(`Latest progress for ${signer.address}: ${progress}`);
+      if (!taskArguments.history) return;
+
+      const count = await sdk.getProgressHistoryCount(contract, signer.address);
+      for (let offset = 0; offset < count; offset += HISTORY_PAGE_SIZE) {
+        const entries = await sdk.getProgressHistory(contract, signer.address, offset, HISTORY_PAGE_SIZE);
+        for (const entry of await sdk.decryptProgressHistory(contract, fhevm, entries, session)) {
+          console.log(
+            `  plan ${entry.planId} session ${entry.session}  ${formatTime(entry.timestamp)}  ` +
+              `progress ${entry.progress}  total ${entry.total}  average ${entry.average}`,
+          );
+        }
+      }
+    }),
+  );
+
+cognitiveTask("task:list-policies", "Lists every published plan policy version")
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const { contract } = await connect(hre, taskArguments);
+      for (const policy of await sdk.getPlanPolicies(contract)) {
+        describePolicy(policy);
+      }
+    }),
+  );
+
+cognitiveTask("task:publish-policy", "Publishes a new plan policy version from a JSON file (admin only)")
+  .addParam("file", "JSON file with the policy's curves and session rules")
+  .addFlag("makeDefault", "Also make it the default for new plans")
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const rules = readPolicy(taskArguments.file);
+      const { contract } = await connect(hre, taskArguments);
+
+      const { version, transactionHash } = await sdk.publishPlanPolicy(contract, rules);
+      console.log(`Published policy v${version} (tx ${transactionHash})`);
+      if (taskArguments.makeDefault) {
+        const outcome = await sdk.setDefaultPlanPolicy(contract, version);
+        console.log(`Policy v${version} is now the default (tx ${outcome.transactionHash})`);
+      }
+      describePolicy(await sdk.getPlanPolicy(contract, version));
+    }),
+  );
+
+cognitiveTask("task:set-default-policy", "Makes a published policy version the default for new plans (admin only)")
+  .addParam("policy", "Plan policy version", undefined, types.int)
+  .setAction(
+    reportErrors(async function (taskArguments: TaskArguments, hre) {
+      const { contract } = await connect(hre, taskArguments);
+      const { transactionHash } = await sdk.setDefaultPlanPolicy(contract, taskArguments.policy);
+      console.log(`Policy v${taskArguments.policy} is now the default (tx ${transactionHash})`);
+    }),
+  );
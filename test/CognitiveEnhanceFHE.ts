@@ -0,0 +1,854 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import * as sdk from "../sdk";
+import type { CognitiveEnhanceFHE } from "../types";
+
+async function deployFixture() {
+  const factory = await ethers.getContractFactory("CognitiveEnhanceFHE");
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return contract;
+}
+
+describe("CognitiveEnhanceFHE", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let therapist: HardhatEthersSigner;
+  // Distinct owners, since a cohort reveal needs results from MIN_COHORT_SIZE of them
+  let members: HardhatEthersSigner[];
+  let contract: CognitiveEnhanceFHE;
+  let contractAddress: string;
+
+  const scores: sdk.CognitiveScores = { memory: 20, attention: 55, processing: 80, flexibility: 100 };
+
+  before(async function () {
+    // The suite relies on the mock coprocessor and oracle; it is not meant for live networks
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    [alice, bob, therapist, ...members] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    contract = await deployFixture();
+    contractAddress = await contract.getAddress();
+    await fhevm.assertCoprocessorInitialized(contract, "CognitiveEnhanceFHE");
+  });
+
+  const submit = async (signer: HardhatEthersSigner, values = scores) => {
+    const { resultId } = await sdk.submitTestResults(contract.connect(signer), fhevm, values);
+    return resultId;
+  };
+
+  // Skips the SDK's range check, as a client that doesn't use it could
+  const submitUnchecked = async (signer: HardhatEthersSigner, values: sdk.CognitiveScores) => {
+    const encrypted = await sdk.encryptScores(fhevm, contractAddress, signer.address, values);
+    await contract
+      .connect(signer)
+      .submitTestResults(
+        encrypted.memory,
+        encrypted.attention,
+        encrypted.processing,
+        encrypted.flexibility,
+        encrypted.inputProof,
+      );
+    return contract.testResultCount();
+  };
+
+  // Plans start pending; most tests need one that accepts progress, so it is started by default
+  const createPlan = async (signer: HardhatEthersSigner, start = true) => {
+    const resultId = await submit(signer);
+    const { planId } = await sdk.requestTrainingPlan(contract.connect(signer), resultId);
+    if (start) {
+      await sdk.transitionPlan(contract.connect(signer), planId, "active");
+    }
+    return planId;
+  };
+
+  describe("submitTestResults", function () {
+    it("stores the four encrypted scores and emits TestSubmitted", async function () {
+      const resultId = await submit(alice);
+
+      expect(resultId).to.eq(1n);
+      expect(await contract.testResultCount()).to.eq(1n);
+
+      const result = await sdk.getTestResult(contract, resultId);
+      expect(result.owner).to.eq(alice.address);
+      // Decrypt one at a time: the mock coprocessor replays events with a single cursor
+      const { memory, attention, processing, flexibility } = result.handles;
+      const clear: bigint[] = [];
+      for (const handle of [memory, attention, processing, flexibility]) {
+        clear.push(await fhevm.debugger.decryptEuint(FhevmType.euint32, handle));
+      }
+      expect(clear).to.deep.eq([20n, 55n, 80n, 100n]);
+    });
+
+    it("assigns sequential result ids", async function () {
+      expect(await submit(alice)).to.eq(1n);
+      expect(await submit(bob)).to.eq(2n);
+      expect(await contract.testResultCount()).to.eq(2n);
+    });
+
+    it("starts without a plan", async function () {
+      const resultId = await submit(alice);
+      expect(await sdk.getResultPlanId(contract, resultId)).to.eq(null);
+    });
+
+    it("rejects an input proof created for another user", async function () {
+      const encrypted = await sdk.encryptScores(fhevm, contractAddress, bob.address, scores);
+
+      await expect(
+        contract
+          .connect(alice)
+          .submitTestResults(
+            encrypted.memory,
+            encrypted.attention,
+            encrypted.processing,
+            encrypted.flexibility,
+            encrypted.inputProof,
+          ),
+      ).to.be.reverted;
+    });
+
+    it("refuses out-of-range scores before encrypting them", async function () {
+      const error = await sdk.submitTestResults(contract, fhevm, { ...scores, attention: 101 }).catch((e) => e);
+      expect(error.code).to.eq("INVALID_SCORE");
+      expect(error.message).to.contain("attention is 101");
+      expect(await contract.testResultCount()).to.eq(0n);
+    });
+
+    it("clamps out-of-range scores on-chain and flags the result", async function () {
+      const values = { memory: 20, attention: 4_000_000, processing: 101, flexibility: 100 };
+      const resultId = await submitUnchecked(alice, values);
+      expect(await sdk.decryptTestResult(contract.connect(alice), fhevm, resultId)).to.deep.eq({
+        memory: 20,
+        attention: 100,
+        processing: 100,
+        flexibility: 100,
+      });
+      expect(await sdk.decryptResultInRange(contract.connect(alice), fhevm, resultId)).to.eq(false);
+      expect(await sdk.decryptResultInRange(contract.connect(alice), fhevm, await submit(alice))).to.eq(true);
+    });
+  });
+
+  describe("owner index", function () {
+    it("lists each owner's results in submission order", async function () {
+      await submit(alice);
+      await submit(bob);
+      await submit(alice);
+
+      expect(await sdk.getOwnerResultIds(contract, alice.address)).to.deep.eq([1n, 3n]);
+      expect(await sdk.getOwnerResultIds(contract, bob.address)).to.deep.eq([2n]);
+      expect(await contract.getOwnerResultIds(alice.address, 1, 10)).to.deep.eq([3n]);
+      expect(await contract.getOwnerResultIds(alice.address, 5, 10)).to.deep.eq([]);
+    });
+
+    it("imports a legacy record once per owner", async function () {
+      const { resultId } = await sdk.importLegacyRecord(contract.connect(alice), fhevm, "1700000000-abc", scores);
+
+      expect(await sdk.getLegacyImport(contract, alice.address, "1700000000-abc")).to.eq(resultId);
+      expect(await sdk.getResultLegacyId(contract, resultId)).to.eq("1700000000-abc");
+      expect(await sdk.getOwnerResultIds(contract, alice.address)).to.deep.eq([resultId]);
+      expect(await sdk.getLegacyImport(contract, bob.address, "1700000000-abc")).to.eq(null);
+
+      const error = await sdk
+        .importLegacyRecord(contract.connect(alice), fhevm, "1700000000-abc", scores)
+        .catch((e) => e);
+      expect(error.code).to.eq("ALREADY_IMPORTED");
+    });
+  });
+
+  describe("requestTrainingPlan", function () {
+    it("generates the encrypted plan in the same transaction", async function () {
+      const resultId = await submit(alice);
+
+      const { planId, events } = await sdk.requestTrainingPlan(contract.connect(alice), resultId);
+      expect(planId).to.eq(1n);
+      expect(sdk.findEvent(events, "PlanGenerated")?.resultId).to.eq(resultId);
+
+      expect(await sdk.getResultPlanId(contract, resultId)).to.eq(planId);
+      expect((await sdk.getTrainingPlan(contract, planId)).resultId).to.eq(resultId);
+      expect(await contract.trainingPlanCount()).to.eq(1n);
+    });
+
+    it("reverts with 'Plan already exists' once the plan is generated", async function () {
+      const resultId = await submit(alice);
+      await sdk.requestTrainingPlan(contract.connect(alice), resultId);
+
+      await expect(contract.connect(alice).requestTrainingPlan(resultId)).to.be.revertedWith("Plan already exists");
+    });
+
+    it("reverts with 'Not authorized' for another user's result", async function () {
+      const resultId = await submit(alice);
+      await expect(contract.connect(bob).requestTrainingPlan(resultId)).to.be.revertedWith("Not authorized");
+    });
+
+    it("reverts with 'Result not found' for an unknown result", async function () {
+      await expect(contract.connect(alice).requestTrainingPlan(7)).to.be.revertedWith("Result not found");
+    });
+
+    it("maps the revert to a typed SDK error", async function () {
+      const resultId = await submit(alice);
+      await sdk.requestTrainingPlan(contract.connect(alice), resultId);
+
+      const error = await sdk.requestTrainingPlan(contract.connect(alice), resultId).catch((e) => e);
+      expect(error).to.be.instanceOf(sdk.CognitiveEnhanceError);
+      expect(error.code).to.eq("PLAN_ALREADY_EXISTS");
+    });
+  });
+
+  describe("calculateTrainingIntensity", function () {
+    const planFor = async (values: sdk.CognitiveScores) => {
+      const resultId = await submitUnchecked(alice, values);
+      const { planId } = await sdk.requestTrainingPlan(contract.connect(alice), resultId);
+      return sdk.decryptTrainingPlan(contract.connect(alice), fhevm, planId);
+    };
+
+    it("derives each domain intensity as 100 - score", async function () {
+      expect(await planFor(scores)).to.deep.eq({
+        memoryTraining: 80,
+        attentionTraining: 45,
+        processingTraining: 20,
+        flexibilityTraining: 0,
+      });
+    });
+
+    it("gives the highest intensity to the weakest domain", async function () {
+      expect(await planFor({ memory: 0, attention: 99, processing: 50, flexibility: 1 })).to.deep.eq({
+        memoryTraining: 100,
+        attentionTraining: 1,
+        processingTraining: 50,
+        flexibilityTraining: 99,
+      });
+    });
+
+    it("clamps scores above 100 instead of wrapping", async function () {
+      expect(await planFor({ memory: 101, attention: 250, processing: 100, flexibility: 4_000_000_000 })).to.deep.eq({
+        memoryTraining: 0,
+        attentionTraining: 0,
+        processingTraining: 0,
+        flexibilityTraining: 0,
+      });
+    });
+
+    it("only decrypts the plan for the owner", async function () {
+      const resultId = await submit(alice);
+      const { planId } = await sdk.requestTrainingPlan(contract.connect(alice), resultId);
+
+      const error = await sdk.decryptTrainingPlan(contract.connect(bob), fhevm, planId).catch((e) => e);
+      expect(error).to.be.instanceOf(sdk.CognitiveEnhanceError);
+    });
+  });
+
+  describe("plan policies", function () {
+    const rules = (overrides: Partial<sdk.PlanPolicyRules> = {}): sdk.PlanPolicyRules => ({
+      curves: {
+        memory: { base: 90, slope: 50, floor: 20, ceiling: 70 },
+        attention: { base: 100, slope: 200, floor: 0, ceiling: 100 },
+        processing: sdk.LINEAR_INTENSITY_CURVE,
+        flexibility: { base: 60, slope: 100, floor: 10, ceiling: 100 },
+      },
+      minSessions: 0,
+      maxSessions: 0,
+      sessionsPerRestDay: 0,
+      ...overrides,
+    });
+
+    it("publishes the original 100 - score curves as the default version 1", async function () {
+      const [original] = await sdk.getPlanPolicies(contract);
+      expect(original).to.deep.include({ version: 1n, isDefault: true, minSessions: 0, maxSessions: 0 });
+      expect(Object.values(original.curves)).to.deep.eq(Array(4).fill(sdk.LINEAR_INTENSITY_CURVE));
+
+      const planId = await createPlan(alice, false);
+      expect((await sdk.getTrainingPlan(contract, planId)).policyVersion).to.eq(1n);
+    });
+
+    it("lets only the admin publish policies, and only valid ones", async function () {
+      const foreign = await sdk.publishPlanPolicy(contract.connect(bob), rules()).catch((e) => e);
+      expect(foreign.code).to.eq("NOT_ADMIN");
+
+      const limits = await sdk.publishPlanPolicy(contract, rules({ minSessions: 5, maxSessions: 3 })).catch((e) => e);
+      expect(limits.code).to.eq("INVALID_SESSION_LIMITS");
+
+      const curve = { base: 100, slope: 100, floor: 50, ceiling: 40 };
+      // Bypasses the SDK's own check to hit the contract's
+      await expect(
+        contract.publishPlanPolicy({
+          curves: [curve, curve, curve, curve],
+          minSessions: 0,
+          maxSessions: 0,
+          sessionsPerRestDay: 0,
+        }),
+      ).to.be.revertedWith("Invalid curve");
+
+      const unknown = await sdk.setDefaultPlanPolicy(contract, 2).catch((e) => e);
+      expect(unknown.code).to.eq("UNKNOWN_POLICY");
+    });
+
+    it("derives intensities with the selected version and records it on the plan", async function () {
+      const { version } = await sdk.publishPlanPolicy(contract, rules());
+      expect(version).to.eq(2n);
+
+      const resultId = await submit(alice);
+      const { planId, policyVersion } = await sdk.requestTrainingPlan(contract.connect(alice), resultId, version);
+      expect(policyVersion).to.eq(version);
+      const expected = { memoryTraining: 70, attentionTraining: 0, processingTraining: 20, flexibilityTraining: 10 };
+      expect(sdk.previewTrainingPlan(rules(), scores)).to.deep.eq(expected);
+      expect(await sdk.decryptTrainingPlan(contract.connect(alice), fhevm, planId)).to.deep.eq(expected);
+
+      // Plans without an explicit version follow the default, and keep the version they were generated with
+      expect((await sdk.requestTrainingPlan(contract.connect(alice), await submit(alice))).policyVersion).to.eq(1n);
+      await sdk.setDefaultPlanPolicy(contract, version);
+      expect((await sdk.requestTrainingPlan(contract.connect(alice), await submit(alice))).policyVersion).to.eq(2n);
+      expect((await sdk.getPlanPolicyForPlan(contract, planId)).isDefault).to.eq(true);
+
+      const missing = await sdk.requestTrainingPlan(contract.connect(alice), await submit(alice), 9).catch((e) => e);
+      expect(missing.code).to.eq("UNKNOWN_POLICY");
+    });
+
+    it("holds progress to the plan's session limits and rest days", async function () {
+      const { version } = await sdk.publishPlanPolicy(
+        contract,
+        rules({ minSessions: 2, maxSessions: 3, sessionsPerRestDay: 2 }),
+      );
+      const { planId } = await sdk.requestTrainingPlan(contract.connect(alice), await submit(alice), version);
+      await sdk.transitionPlan(contract.connect(alice), planId, "active");
+      const log = () => sdk.updateProgress(contract.connect(alice), fhevm, planId, 50).catch((e) => e);
+
+      const early = await sdk.transitionPlan(contract.connect(alice), planId, "completed").catch((e) => e);
+      expect(early.code).to.eq("TOO_FEW_SESSIONS");
+
+      await log();
+      await log();
+      expect((await log()).code).to.eq("REST_DAY_REQUIRED");
+      await time.increase(24 * 60 * 60);
+      await log();
+      expect((await log()).code).to.eq("SESSION_LIMIT_REACHED");
+
+      await sdk.transitionPlan(contract.connect(alice), planId, "completed");
+      expect(await contract.planSessionCounts(planId)).to.eq(3n);
+    });
+  });
+
+  describe("progress", function () {
+    it("emits ProgressUpdated for an encrypted progress value", async function () {
+      const planId = await createPlan(alice);
+      const outcome = await sdk.updateProgress(contract.connect(alice), fhevm, planId, 42);
+      expect(sdk.findEvent(outcome.events, "ProgressUpdated")?.planId).to.eq(planId);
+    });
+
+    it("reverts with 'Not plan owner' for another user's plan", async function () {
+      const planId = await createPlan(alice);
+      const error = await sdk.updateProgress(contract.connect(bob), fhevm, planId, 42).catch((e) => e);
+      expect(error.code).to.eq("NOT_PLAN_OWNER");
+    });
+
+    it("reports missing progress before any update", async function () {
+      expect(await sdk.getProgressHandle(contract, alice.address)).to.eq(null);
+
+      const error = await sdk.decryptProgress(contract.connect(alice), fhevm).catch((e) => e);
+      expect(error.code).to.eq("NO_PROGRESS_DATA");
+    });
+
+    it("reveals the latest progress only to its user", async function () {
+      const planId = await createPlan(alice);
+      await sdk.updateProgress(contract.connect(alice), fhevm, planId, 42);
+      await sdk.updateProgress(contract.connect(alice), fhevm, planId, 57);
+
+      expect(await sdk.decryptProgress(contract.connect(alice), fhevm)).to.eq(57);
+
+      const error = await sdk.decryptProgress(contract.connect(bob), fhevm, { user: alice.address }).catch((e) => e);
+      expect(error).to.be.instanceOf(sdk.CognitiveEnhanceError);
+    });
+
+    it("keeps every entry with per-plan running totals and averages", async function () {
+      const first = await createPlan(alice);
+      const second = await createPlan(alice);
+      await sdk.updateProgress(contract.connect(alice), fhevm, first, 40);
+      await sdk.updateProgress(contract.connect(alice), fhevm, second, 90);
+      await sdk.updateProgress(contract.connect(alice), fhevm, first, 70);
+      await sdk.updateProgress(contract.connect(alice), fhevm, first, 150);
+
+      expect(await sdk.getProgressHistoryCount(contract, alice.address)).to.eq(4);
+      const page = await sdk.getProgressHistory(contract, alice.address, 2, 10);
+      expect(page.map((e) => [e.planId, e.session])).to.deep.eq([
+        [first, 2],
+        [first, 3],
+      ]);
+
+      const history = await sdk.decryptProgressHistory(
+        contract.connect(alice),
+        fhevm,
+        await sdk.getProgressHistory(contract, alice.address, 0, 10),
+      );
+      expect(history.map(({ progress, total, average }) => [progress, total, average])).to.deep.eq([
+        [40, 40, 40],
+        [90, 90, 90],
+        [70, 110, 55],
+        [100, 210, 70],
+      ]);
+      expect(await contract.planSessionCounts(first)).to.eq(3n);
+    });
+
+    it("reuses one signed session for the plan and progress", async function () {
+      const planId = await createPlan(alice);
+      await sdk.updateProgress(contract.connect(alice), fhevm, planId, 42);
+
+      const session = await sdk.createDecryptionSession(fhevm, alice, contractAddress);
+      expect(sdk.isSessionValid(session)).to.eq(true);
+      expect((await sdk.decryptTrainingPlan(contract.connect(alice), fhevm, planId, session)).memoryTraining).to.eq(80);
+      expect(await sdk.decryptProgress(contract.connect(alice), fhevm, { session })).to.eq(42);
+    });
+  });
+
+  describe("adaptive difficulty", function () {
+    const scoreSession = async (planId: bigint, values: number[]) => {
+      await sdk.submitSessionScores(contract.connect(alice), fhevm, planId, values);
+      return sdk.decryptAdaptiveDifficulty(contract.connect(alice), fhevm);
+    };
+
+    it("reports missing session data before any session", async function () {
+      const error = await sdk.decryptAdaptiveDifficulty(contract.connect(alice), fhevm).catch((e) => e);
+      expect(error.code).to.eq("NO_SESSION_DATA");
+    });
+
+    it("averages the session and steps the difficulty from the starting level", async function () {
+      const planId = await createPlan(alice);
+
+      expect(await scoreSession(planId, [90, 80, 100])).to.deep.eq({ sessionAverage: 90, difficulty: 4 });
+      expect(await scoreSession(planId, [60, 70])).to.deep.eq({ sessionAverage: 65, difficulty: 4 });
+      expect(await scoreSession(planId, [20, 40])).to.deep.eq({ sessionAverage: 30, difficulty: 3 });
+    });
+
+    it("keeps the difficulty within 1 to 5 and clamps scores above 100", async function () {
+      const planId = await createPlan(alice);
+      for (let i = 0; i < 3; i++) {
+        await sdk.submitSessionScores(contract.connect(alice), fhevm, planId, [100]);
+      }
+      expect(await scoreSession(planId, [1000, 100])).to.deep.eq({ sessionAverage: 100, difficulty: 5 });
+    });
+
+    it("rejects empty sessions and other users' plans", async function () {
+      const planId = await createPlan(alice);
+
+      const empty = await sdk.submitSessionScores(contract.connect(alice), fhevm, planId, []).catch((e) => e);
+      expect(empty.code).to.eq("INVALID_SESSION");
+
+      const foreign = await sdk.submitSessionScores(contract.connect(bob), fhevm, planId, [50]).catch((e) => e);
+      expect(foreign.code).to.eq("NOT_PLAN_OWNER");
+    });
+  });
+
+  describe("plan lifecycle", function () {
+    const DAY = 24 * 60 * 60;
+
+    it("starts pending with a deadline and records when each status was entered", async function () {
+      const planId = await createPlan(alice, false);
+      const created = await time.latest();
+
+      const pending = await sdk.getPlanLifecycle(contract, planId);
+      expect(pending.status).to.eq("pending");
+      expect(pending.expiresAt).to.eq(created + 90 * DAY);
+      expect(pending.enteredAt).to.deep.eq({ pending: created });
+
+      const outcome = await sdk.transitionPlan(contract.connect(alice), planId, "active");
+      const event = sdk.findEvent(outcome.events, "PlanStatusChanged");
+      expect([event?.previous, event?.next]).to.deep.eq(["pending", "active"]);
+
+      await sdk.transitionPlan(contract.connect(alice), planId, "paused");
+      await sdk.transitionPlan(contract.connect(alice), planId, "active");
+      await sdk.transitionPlan(contract.connect(alice), planId, "completed");
+
+      const completed = await sdk.getPlanLifecycle(contract, planId);
+      expect(completed.status).to.eq("completed");
+      expect(Object.keys(completed.enteredAt)).to.deep.eq(["pending", "active", "paused", "completed"]);
+    });
+
+    it("rejects illegal transitions, other users and progress outside the active state", async function () {
+      const planId = await createPlan(alice, false);
+
+      const skip = await sdk.transitionPlan(contract.connect(alice), planId, "completed").catch((e) => e);
+      expect(skip.code).to.eq("INVALID_TRANSITION");
+
+      const foreign = await sdk.transitionPlan(contract.connect(bob), planId, "active").catch((e) => e);
+      expect(foreign.code).to.eq("NOT_PLAN_OWNER");
+
+      const early = await sdk.updateProgress(contract.connect(alice), fhevm, planId, 10).catch((e) => e);
+      expect(early.code).to.eq("PLAN_NOT_ACTIVE");
+
+      await sdk.transitionPlan(contract.connect(alice), planId, "abandoned");
+      const reopen = await sdk.transitionPlan(contract.connect(alice), planId, "active").catch((e) => e);
+      expect(reopen.code).to.eq("INVALID_TRANSITION");
+    });
+
+    it("only lets a plan be marked expired after its deadline", async function () {
+      const planId = await createPlan(alice);
+
+      const early = await sdk.transitionPlan(contract.connect(alice), planId, "expired").catch((e) => e);
+      expect(early.code).to.eq("PLAN_NOT_EXPIRED");
+
+      await time.increase(91 * DAY);
+      // Effective status is judged against the caller's clock, here the chain's
+      const now = await time.latest();
+      const lapsed = await sdk.getPlanLifecycle(contract, planId, now);
+      expect(lapsed.effectiveStatus).to.eq("expired");
+      expect(sdk.allowedTransitions(lapsed.status, lapsed.expiresAt, now)).to.deep.eq(["expired", "abandoned"]);
+
+      const late = await sdk.transitionPlan(contract.connect(alice), planId, "completed").catch((e) => e);
+      expect(late.code).to.eq("PLAN_EXPIRED");
+      const progress = await sdk.updateProgress(contract.connect(alice), fhevm, planId, 10).catch((e) => e);
+      expect(progress.code).to.eq("PLAN_NOT_ACTIVE");
+
+      await sdk.transitionPlan(contract.connect(alice), planId, "expired");
+      expect((await sdk.getPlanLifecycle(contract, planId)).status).to.eq("expired");
+    });
+  });
+
+  describe("cohort analytics", function () {
+    const cohort: sdk.CognitiveScores[] = [
+      { memory: 10, attention: 40, processing: 70, flexibility: 100 },
+      { memory: 20, attention: 50, processing: 80, flexibility: 90 },
+      { memory: 30, attention: 60, processing: 90, flexibility: 80 },
+      { memory: 40, attention: 70, processing: 100, flexibility: 70 },
+    ];
+
+    it("refuses to reveal averages below the minimum cohort size", async function () {
+      for (const [i, values] of cohort.entries()) {
+        await submit(members[i], values);
+      }
+      const status = await sdk.getCohortStatus(contract);
+      expect(status).to.deep.eq({
+        cohortSize: 4,
+        minCohortSize: 5,
+        contributors: 4,
+        contributorsNeeded: 1,
+        lastRequestId: null,
+        averages: null,
+      });
+
+      const error = await sdk.requestCohortAverages(contract.connect(bob)).catch((e) => e);
+      expect(error.code).to.eq("COHORT_TOO_SMALL");
+    });
+
+    it("counts distinct owners, so one sender can't pad the cohort around another user's result", async function () {
+      await submit(alice);
+      for (const values of cohort) {
+        await submit(bob, values);
+      }
+      const status = await sdk.getCohortStatus(contract);
+      expect(status).to.include({ cohortSize: 5, contributors: 2, contributorsNeeded: 3 });
+
+      const error = await sdk.requestCohortAverages(contract.connect(bob)).catch((e) => e);
+      expect(error.code).to.eq("COHORT_TOO_SMALL");
+    });
+
+    it("reveals only the per-domain averages through the oracle", async function () {
+      for (const [i, values] of cohort.entries()) {
+        await submit(members[i], values);
+      }
+      // Out-of-range scores are stored as 100, so that is what they add to the totals
+      await submitUnchecked(bob, { memory: 50, attention: 80, processing: 160, flexibility: 60 });
+
+      const { requestId } = await sdk.requestCohortAverages(contract.connect(bob));
+      expect(requestId).to.be.a("bigint");
+      await fhevm.awaitDecryptionOracle();
+
+      const status = await sdk.getCohortStatus(contract);
+      expect(status.averages?.scores).to.deep.eq({ memory: 30, attention: 60, processing: 88, flexibility: 80 });
+      expect(status.averages?.cohortSize).to.eq(5);
+      expect(status).to.include({ contributors: 0, contributorsNeeded: 5 });
+
+      // A second reveal after results from fewer owners would narrow the difference down to them
+      for (const member of members.slice(0, 4)) {
+        await submit(member);
+      }
+      const again = await sdk.requestCohortAverages(contract.connect(bob)).catch((e) => e);
+      expect(again.code).to.eq("COHORT_TOO_SMALL");
+    });
+
+    it("records each oracle request from submission to callback", async function () {
+      for (const [i, values] of [...cohort, scores].entries()) {
+        await submit(members[i], values);
+      }
+      const { requestId, blockNumber } = await sdk.requestCohortAverages(contract.connect(bob));
+
+      const pending = await sdk.getDecryptionRequest(contract, requestId);
+      expect(pending).to.include({ kind: "cohort-averages", subject: 5n, requester: bob.address });
+      expect(pending).to.include({ requestedBlock: blockNumber, status: "pending", settledAt: 0, timedOut: false });
+      expect(pending.consumed).to.eq(false);
+      expect((await sdk.getCohortStatus(contract)).lastRequestId).to.eq(requestId);
+
+      await fhevm.awaitDecryptionOracle();
+      const fulfilled = await sdk.getDecryptionRequest(contract, requestId);
+      expect(fulfilled).to.include({ status: "fulfilled", consumed: true });
+      expect(fulfilled.settledAt).to.be.greaterThan(0);
+
+      const unknown = await sdk.getDecryptionRequest(contract, requestId + 100n);
+      expect(unknown).to.include({ kind: "none", status: "none" });
+    });
+
+    it("lets a timed-out request be cancelled and retried for the same cohort", async function () {
+      for (const [i, values] of [...cohort, scores].entries()) {
+        await submit(members[i], values);
+      }
+      const { requestId } = await sdk.requestCohortAverages(contract.connect(bob));
+
+      const early = await sdk.cancelCohortRequest(contract.connect(bob), requestId).catch((e) => e);
+      expect(early.code).to.eq("REQUEST_NOT_TIMED_OUT");
+
+      await time.increase(Number(await contract.DECRYPTION_TIMEOUT()));
+      expect((await sdk.getDecryptionRequest(contract, requestId, await time.latest())).timedOut).to.eq(true);
+      const stranger = await sdk.cancelCohortRequest(contract.connect(therapist), requestId).catch((e) => e);
+      expect(stranger.code).to.eq("NOT_AUTHORIZED");
+
+      const outcome = await sdk.cancelCohortRequest(contract.connect(bob), requestId);
+      expect(sdk.findEvent(outcome.events, "CohortRevealCancelled")?.cancelledBy).to.eq(bob.address);
+      expect((await sdk.getDecryptionRequest(contract, requestId)).status).to.eq("cancelled");
+      expect((await sdk.getCohortStatus(contract)).contributorsNeeded).to.eq(0);
+
+      // The late callback for the cancelled request is ignored; the retry is answered
+      const retry = await sdk.requestCohortAverages(contract.connect(bob));
+      await fhevm.awaitDecryptionOracle();
+      expect((await sdk.getDecryptionRequest(contract, requestId)).status).to.eq("cancelled");
+      expect((await sdk.getDecryptionRequest(contract, retry.requestId)).status).to.eq("fulfilled");
+      expect((await sdk.getCohortStatus(contract)).averages?.cohortSize).to.eq(5);
+
+      const again = await sdk.requestCohortAverages(contract.connect(bob)).catch((e) => e);
+      expect(again.code).to.eq("COHORT_TOO_SMALL");
+    });
+  });
+
+  describe("oracle callbacks", function () {
+    const revealCohort = async () => {
+      for (const member of members.slice(0, 5)) {
+        await submit(member);
+      }
+      const { requestId } = await sdk.requestCohortAverages(contract.connect(bob));
+      return requestId;
+    };
+
+    it("accepts only one callback per request", async function () {
+      const requestId = await revealCohort();
+      await fhevm.awaitDecryptionOracle();
+
+      // Signatures are checked after the record, so a replay fails on the consumed flag whatever proof it carries
+      await expect(contract.revealCohortAverages(requestId, "0x", "0x")).to.be.revertedWith("Request already consumed");
+      expect((await sdk.getCohortStatus(contract)).averages?.cohortSize).to.eq(5);
+    });
+
+    it("rejects ids that were never issued as cohort requests", async function () {
+      await revealCohort();
+      await fhevm.awaitDecryptionOracle();
+
+      // Ids derived from other values, such as a sender address, have no record
+      for (const forged of [BigInt(alice.address), 1n, 2n ** 255n]) {
+        await expect(contract.connect(bob).revealCohortAverages(forged, "0x", "0x")).to.be.revertedWith(
+          "Unknown request",
+        );
+      }
+      const error = await sdk.cancelCohortRequest(contract.connect(alice), BigInt(alice.address)).catch((e) => e);
+      expect(error.code).to.eq("UNKNOWN_REQUEST");
+    });
+
+    it("does not let a cancelled request's late answer be applied or replayed", async function () {
+      const requestId = await revealCohort();
+      await time.increase(Number(await contract.DECRYPTION_TIMEOUT()));
+      await sdk.cancelCohortRequest(contract.connect(bob), requestId);
+
+      await fhevm.awaitDecryptionOracle();
+      const request = await sdk.getDecryptionRequest(contract, requestId);
+      expect(request).to.include({ status: "cancelled", consumed: true });
+      expect((await sdk.getCohortStatus(contract)).averages).to.eq(null);
+      await expect(contract.revealCohortAverages(requestId, "0x", "0x")).to.be.revertedWith("Request already consumed");
+    });
+  });
+
+  describe("data export", function () {
+    const exportFor = async (signer: HardhatEthersSigner) => {
+      const data = await sdk.createDataExport(contract.connect(signer), fhevm);
+      return sdk.signDataExport(signer, data);
+    };
+
+    beforeEach(async function () {
+      const planId = await createPlan(alice);
+      await sdk.updateProgress(contract.connect(alice), fhevm, planId, 40);
+      await submit(bob);
+    });
+
+    it("exports the owner's records with their handles and decrypted values", async function () {
+      const { data } = await exportFor(alice);
+
+      expect(data).to.include({ owner: alice.address, contractAddress, chainId: 31337 });
+      expect(data.results).to.have.length(1);
+      const [result] = data.results;
+      expect(result.scores).to.deep.eq(scores);
+      expect(result.handles).to.deep.eq((await sdk.getTestResult(contract, 1)).handles);
+      expect(result.plan).to.deep.include({ planId: "1", policyVersion: "1", status: "active" });
+      expect(result.plan?.recommendation).to.deep.eq(
+        sdk.previewTrainingPlan(await sdk.getPlanPolicy(contract, 1), scores),
+      );
+      expect(data.progress).to.have.length(1);
+      expect(data.progress[0]).to.include({ planId: "1", session: 1, progress: 40, total: 40, average: 40 });
+    });
+
+    it("round-trips through a file, optionally sealed with a password", async function () {
+      const signed = await exportFor(alice);
+
+      const plain = await sdk.parseDataExport(JSON.stringify(signed));
+      expect(await sdk.verifyDataExport(contract, plain)).to.deep.eq(signed.data);
+
+      const sealed = JSON.stringify(await sdk.encryptDataExport(signed, "correct horse"));
+      expect(sealed).to.not.contain(alice.address);
+      expect((await sdk.parseDataExport(sealed).catch((e) => e)).code).to.eq("BUNDLE_PASSWORD");
+      expect((await sdk.parseDataExport(sealed, "wrong").catch((e) => e)).code).to.eq("BUNDLE_PASSWORD");
+      const opened = await sdk.parseDataExport(sealed, "correct horse");
+      expect(await sdk.verifyDataExport(contract, opened)).to.deep.eq(signed.data);
+    });
+
+    it("rejects exports that weren't signed by their owner or don't match the chain", async function () {
+      const signed = await exportFor(alice);
+
+      const tampered = structuredClone(signed);
+      tampered.data.results[0].timestamp += 1;
+      const unsigned = await sdk.verifyDataExport(contract, tampered).catch((e) => e);
+      expect(unsigned.code).to.eq("INVALID_BUNDLE");
+
+      const forged = { data: signed.data, signature: await bob.signMessage(sdk.canonicalJson(signed.data)) };
+      expect((await sdk.verifyDataExport(contract, forged).catch((e) => e)).code).to.eq("INVALID_BUNDLE");
+      expect((await sdk.signDataExport(bob, signed.data).catch((e) => e)).code).to.eq("NOT_AUTHORIZED");
+
+      // Even the owner can't vouch for handles the chain doesn't hold
+      const swapped = structuredClone(signed.data);
+      swapped.results[0].handles.memory = swapped.results[0].handles.attention;
+      const resigned = await sdk.signDataExport(alice, swapped);
+      const mismatch = await sdk.verifyDataExport(contract, resigned).catch((e) => e);
+      expect(mismatch.code).to.eq("INVALID_BUNDLE");
+      expect(mismatch.message).to.contain("result 1 differs from the chain");
+    });
+
+    it("rejects malformed files with a typed error before deriving keys or verifying", async function () {
+      const signed = await exportFor(alice);
+      const codeOf = async (text: string, password?: string) =>
+        (await sdk.parseDataExport(text, password).catch((e) => e)).code;
+
+      const malformed = structuredClone(signed) as any;
+      malformed.data.results[0].handles = null;
+      expect(await codeOf(JSON.stringify(malformed))).to.eq("INVALID_BUNDLE");
+      malformed.data.results = "everything";
+      expect(await codeOf(JSON.stringify(malformed))).to.eq("INVALID_BUNDLE");
+
+      const sealed = await sdk.encryptDataExport(signed, "correct horse");
+      for (const iterations of [0, 1.5, 1e12]) {
+        const bounded = { ...sealed, encryption: { ...sealed.encryption, iterations } };
+        expect(await codeOf(JSON.stringify(bounded), "correct horse")).to.eq("INVALID_BUNDLE");
+      }
+
+      // Sealed content that decrypts but isn't a signed export
+      const unsigned = { signature: signed.signature } as any;
+      const opaque = await sdk.encryptDataExport(unsigned, "correct horse");
+      expect(await codeOf(JSON.stringify(opaque), "correct horse")).to.eq("INVALID_BUNDLE");
+    });
+  });
+
+  describe("therapist access", function () {
+    const decryptAs = (signer: HardhatEthersSigner, handle: string) =>
+      fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signer);
+
+    it("lets only the admin manage the registry", async function () {
+      expect(await sdk.getAdmin(contract)).to.eq(alice.address);
+
+      const error = await sdk.registerTherapist(contract.connect(bob), therapist.address).catch((e) => e);
+      expect(error.code).to.eq("NOT_ADMIN");
+
+      const outcome = await sdk.registerTherapist(contract.connect(alice), therapist.address);
+      expect(sdk.findEvent(outcome.events, "TherapistRegistered")?.therapist).to.eq(therapist.address);
+      expect(await sdk.isTherapist(contract, therapist.address)).to.eq(true);
+    });
+
+    it("only grants access to registered therapists", async function () {
+      await expect(contract.connect(bob).grantTherapistAccess(therapist.address)).to.be.revertedWith(
+        "Not a therapist",
+      );
+    });
+
+    it("lets the owner and granted therapists decrypt scores", async function () {
+      await sdk.registerTherapist(contract.connect(alice), therapist.address);
+      const resultId = await submit(bob);
+      const { handles } = await sdk.getTestResult(contract, resultId);
+
+      expect(await decryptAs(bob, handles.memory)).to.eq(20n);
+      const denied = await decryptAs(therapist, handles.memory).catch((e) => e);
+      expect(denied).to.be.instanceOf(Error);
+
+      await sdk.grantTherapistAccess(contract.connect(bob), therapist.address);
+      expect(await decryptAs(therapist, handles.memory).catch((e) => e)).to.be.instanceOf(Error);
+      await sdk.shareHistoryWithTherapist(contract.connect(bob), therapist.address);
+      expect(await decryptAs(therapist, handles.memory)).to.eq(20n);
+      expect(await sdk.getUserTherapists(contract, bob.address)).to.deep.eq([therapist.address]);
+      expect(await sdk.getPatientResults(contract.connect(therapist), bob.address)).to.deep.eq([resultId]);
+    });
+
+    it("shares a long history in bounded pages", async function () {
+      await sdk.registerTherapist(contract.connect(alice), therapist.address);
+      const planId = await createPlan(bob);
+      for (let i = 0; i < 23; i++) {
+        await submit(bob);
+      }
+      await sdk.updateProgress(contract.connect(bob), fhevm, planId, 30);
+      await sdk.updateProgress(contract.connect(bob), fhevm, planId, 45);
+      const [first] = await sdk.getOwnerResultIds(contract, bob.address);
+      const { handles } = await sdk.getTestResult(contract, first);
+      const [earlier] = await sdk.getProgressHistory(contract, bob.address, 0, 2);
+
+      // Granting costs the same however long the history is
+      const { transactionHash } = await sdk.grantTherapistAccess(contract.connect(bob), therapist.address);
+      expect((await ethers.provider.getTransactionReceipt(transactionHash))!.gasUsed).to.be.lessThan(500_000n);
+      expect(await sdk.getHistoryShare(contract, bob.address, therapist.address)).to.deep.eq({ shared: 0, total: 26 });
+      expect(await decryptAs(therapist, earlier.handles.progress).catch((e) => e)).to.be.instanceOf(Error);
+
+      await expect(contract.connect(bob).shareHistoryWithTherapist(therapist.address, 21)).to.be.revertedWith(
+        "Invalid page size",
+      );
+      await expect(contract.connect(alice).shareHistoryWithTherapist(therapist.address, 20)).to.be.revertedWith(
+        "Not authorized",
+      );
+
+      const pages = await sdk.shareHistoryWithTherapist(contract.connect(bob), therapist.address);
+      expect(pages.map((page) => sdk.findEvent(page.events, "TherapistHistoryShared")?.shared)).to.deep.eq([20n, 26n]);
+      expect(await decryptAs(therapist, handles.memory)).to.eq(20n);
+      expect(await decryptAs(therapist, earlier.handles.progress)).to.eq(30n);
+
+      expect(await sdk.shareHistoryWithTherapist(contract.connect(bob), therapist.address)).to.deep.eq([]);
+      await expect(contract.connect(bob).shareHistoryWithTherapist(therapist.address, 1)).to.be.revertedWith(
+        "History already shared",
+      );
+    });
+
+    it("lets a granted therapist request the patient's plan", async function () {
+      await sdk.registerTherapist(contract.connect(alice), therapist.address);
+      await sdk.grantTherapistAccess(contract.connect(bob), therapist.address);
+      const resultId = await submit(bob);
+
+      const { planId } = await sdk.requestTrainingPlan(contract.connect(therapist), resultId);
+      expect(await sdk.decryptTrainingPlan(contract.connect(therapist), fhevm, planId)).to.deep.eq(
+        await sdk.decryptTrainingPlan(contract.connect(bob), fhevm, planId),
+      );
+    });
+
+    it("blocks the therapist after revocation or removal", async function () {
+      await sdk.registerTherapist(contract.connect(alice), therapist.address);
+      await sdk.grantTherapistAccess(contract.connect(bob), therapist.address);
+      const resultId = await submit(bob);
+
+      await sdk.removeTherapist(contract.connect(alice), therapist.address);
+      expect(await sdk.hasTherapistAccess(contract, bob.address, therapist.address)).to.eq(false);
+      await expect(contract.connect(therapist).requestTrainingPlan(resultId)).to.be.revertedWith("Not authorized");
+
+      await sdk.revokeTherapistAccess(contract.connect(bob), therapist.address);
+      expect(await sdk.getUserTherapists(contract, bob.address)).to.deep.eq([]);
+    });
+  });
+});
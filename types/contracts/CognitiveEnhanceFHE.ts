@@ -0,0 +1,2063 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace CognitiveEnhanceFHE {
+  export type IntensityCurveStruct = {
+    base: BigNumberish;
+    slope: BigNumberish;
+    floor: BigNumberish;
+    ceiling: BigNumberish;
+  };
+
+  export type IntensityCurveStructOutput = [
+    base: bigint,
+    slope: bigint,
+    floor: bigint,
+    ceiling: bigint
+  ] & { base: bigint; slope: bigint; floor: bigint; ceiling: bigint };
+
+  export type PlanPolicyStruct = {
+    curves: [
+      CognitiveEnhanceFHE.IntensityCurveStruct,
+      CognitiveEnhanceFHE.IntensityCurveStruct,
+      CognitiveEnhanceFHE.IntensityCurveStruct,
+      CognitiveEnhanceFHE.IntensityCurveStruct
+    ];
+    minSessions: BigNumberish;
+    maxSessions: BigNumberish;
+    sessionsPerRestDay: BigNumberish;
+  };
+
+  export type PlanPolicyStructOutput = [
+    curves: [
+      CognitiveEnhanceFHE.IntensityCurveStructOutput,
+      CognitiveEnhanceFHE.IntensityCurveStructOutput,
+      CognitiveEnhanceFHE.IntensityCurveStructOutput,
+      CognitiveEnhanceFHE.IntensityCurveStructOutput
+    ],
+    minSessions: bigint,
+    maxSessions: bigint,
+    sessionsPerRestDay: bigint
+  ] & {
+    curves: [
+      CognitiveEnhanceFHE.IntensityCurveStructOutput,
+      CognitiveEnhanceFHE.IntensityCurveStructOutput,
+      CognitiveEnhanceFHE.IntensityCurveStructOutput,
+      CognitiveEnhanceFHE.IntensityCurveStructOutput
+    ];
+    minSessions: bigint;
+    maxSessions: bigint;
+    sessionsPerRestDay: bigint;
+  };
+
+  export type ProgressEntryStruct = {
+    planId: BigNumberish;
+    session: BigNumberish;
+    encryptedProgress: BytesLike;
+    encryptedTotal: BytesLike;
+    encryptedAverage: BytesLike;
+    timestamp: BigNumberish;
+  };
+
+  export type ProgressEntryStructOutput = [
+    planId: bigint,
+    session: bigint,
+    encryptedProgress: string,
+    encryptedTotal: string,
+    encryptedAverage: string,
+    timestamp: bigint
+  ] & {
+    planId: bigint;
+    session: bigint;
+    encryptedProgress: string;
+    encryptedTotal: string;
+    encryptedAverage: string;
+    timestamp: bigint;
+  };
+}
+
+export interface CognitiveEnhanceFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DECRYPTION_TIMEOUT"
+      | "MAX_CURVE_SLOPE"
+      | "MAX_SCORE"
+      | "MAX_SHARE_PAGE"
+      | "MIN_COHORT_SIZE"
+      | "PLAN_DURATION"
+      | "REST_PERIOD"
+      | "admin"
+      | "cancelCohortRequest"
+      | "cohortAverages"
+      | "cohortContributors"
+      | "cohortRound"
+      | "cohortSize"
+      | "decryptionRequests"
+      | "defaultPlanPolicy"
+      | "getEncryptedDifficulty"
+      | "getEncryptedProgress"
+      | "getEncryptedSessionAverage"
+      | "getHistoryShare"
+      | "getLegacyImport"
+      | "getOwnerResultCount"
+      | "getOwnerResultIds"
+      | "getPatientResults"
+      | "getPlanPolicy"
+      | "getProgressHistory"
+      | "getProgressHistoryCount"
+      | "getUserTherapists"
+      | "grantTherapistAccess"
+      | "hasTherapistAccess"
+      | "importLegacyRecord"
+      | "lastCohortRequestId"
+      | "lastCohortRequestSize"
+      | "planExpiresAt"
+      | "planLastSessionAt"
+      | "planPolicyCount"
+      | "planPolicyPublishedAt"
+      | "planResultIds"
+      | "planSessionCounts"
+      | "planStatusTimestamps"
+      | "planStatuses"
+      | "protocolId"
+      | "publishPlanPolicy"
+      | "registerTherapist"
+      | "removeTherapist"
+      | "requestCohortAverages"
+      | "requestTrainingPlan"
+      | "requestTrainingPlanWithPolicy"
+      | "resultLegacyIds"
+      | "resultPlanIds"
+      | "revealCohortAverages"
+      | "revokeTherapistAccess"
+      | "setDefaultPlanPolicy"
+      | "shareHistoryWithTherapist"
+      | "submitSessionScores"
+      | "submitTestResults"
+      | "testResultCount"
+      | "testResults"
+      | "therapistAccess"
+      | "therapists"
+      | "trainingPlanCount"
+      | "trainingPlans"
+      | "transferAdmin"
+      | "transitionPlan"
+      | "updateProgress"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AdminTransferred"
+      | "CohortAveragesRevealed"
+      | "CohortRevealCancelled"
+      | "CohortRevealRequested"
+      | "CohortRevealSuperseded"
+      | "DecryptionFulfilled"
+      | "DefaultPlanPolicyChanged"
+      | "LegacyRecordImported"
+      | "PlanGenerated"
+      | "PlanPolicyPublished"
+      | "PlanStatusChanged"
+      | "ProgressUpdated"
+      | "SessionScored"
+      | "TestSubmitted"
+      | "TherapistAccessGranted"
+      | "TherapistAccessRevoked"
+      | "TherapistHistoryShared"
+      | "TherapistRegistered"
+      | "TherapistRemoved"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DECRYPTION_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CURVE_SLOPE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_SCORE", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SHARE_PAGE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_COHORT_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PLAN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REST_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "cancelCohortRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cohortAverages",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cohortContributors",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cohortRound",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cohortSize",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultPlanPolicy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedDifficulty",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedProgress",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedSessionAverage",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getHistoryShare",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLegacyImport",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOwnerResultCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOwnerResultIds",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPatientResults",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlanPolicy",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProgressHistory",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProgressHistoryCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserTherapists",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantTherapistAccess",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasTherapistAccess",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "importLegacyRecord",
+    values: [string, BytesLike, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastCohortRequestId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastCohortRequestSize",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planExpiresAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planLastSessionAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planPolicyCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planPolicyPublishedAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planResultIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planSessionCounts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planStatusTimestamps",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "planStatuses",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishPlanPolicy",
+    values: [CognitiveEnhanceFHE.PlanPolicyStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerTherapist",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeTherapist",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestCohortAverages",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestTrainingPlan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestTrainingPlanWithPolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resultLegacyIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resultPlanIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealCohortAverages",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeTherapistAccess",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDefaultPlanPolicy",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareHistoryWithTherapist",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitSessionScores",
+    values: [BigNumberish, BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitTestResults",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "testResultCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "testResults",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "therapistAccess",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "therapists",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trainingPlanCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trainingPlans",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transitionPlan",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateProgress",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DECRYPTION_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CURVE_SLOPE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_SCORE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SHARE_PAGE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_COHORT_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PLAN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REST_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelCohortRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cohortAverages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cohortContributors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cohortRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cohortSize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultPlanPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedDifficulty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedProgress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedSessionAverage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getHistoryShare",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLegacyImport",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOwnerResultCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOwnerResultIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPatientResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlanPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProgressHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProgressHistoryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserTherapists",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantTherapistAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasTherapistAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "importLegacyRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastCohortRequestId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastCohortRequestSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planExpiresAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planLastSessionAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planPolicyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planPolicyPublishedAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planResultIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planSessionCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planStatusTimestamps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "planStatuses",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "publishPlanPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerTherapist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeTherapist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestCohortAverages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTrainingPlan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTrainingPlanWithPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resultLegacyIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resultPlanIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealCohortAverages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeTherapistAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDefaultPlanPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareHistoryWithTherapist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitSessionScores",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitTestResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "testResultCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "testResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "therapistAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "therapists", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "trainingPlanCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trainingPlans",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transitionPlan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateProgress",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AdminTransferredEvent {
+  export type InputTuple = [previousAdmin: AddressLike, newAdmin: AddressLike];
+  export type OutputTuple = [previousAdmin: string, newAdmin: string];
+  export interface OutputObject {
+    previousAdmin: string;
+    newAdmin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CohortAveragesRevealedEvent {
+  export type InputTuple = [requestId: BigNumberish, cohortSize: BigNumberish];
+  export type OutputTuple = [requestId: bigint, cohortSize: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    cohortSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CohortRevealCancelledEvent {
+  export type InputTuple = [requestId: BigNumberish, cancelledBy: AddressLike];
+  export type OutputTuple = [requestId: bigint, cancelledBy: string];
+  export interface OutputObject {
+    requestId: bigint;
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CohortRevealRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, cohortSize: BigNumberish];
+  export type OutputTuple = [requestId: bigint, cohortSize: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    cohortSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CohortRevealSupersededEvent {
+  export type InputTuple = [requestId: BigNumberish, cohortSize: BigNumberish];
+  export type OutputTuple = [requestId: bigint, cohortSize: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    cohortSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DefaultPlanPolicyChangedEvent {
+  export type InputTuple = [
+    previousVersion: BigNumberish,
+    newVersion: BigNumberish
+  ];
+  export type OutputTuple = [previousVersion: bigint, newVersion: bigint];
+  export interface OutputObject {
+    previousVersion: bigint;
+    newVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LegacyRecordImportedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    resultId: BigNumberish,
+    legacyId: string
+  ];
+  export type OutputTuple = [owner: string, resultId: bigint, legacyId: string];
+  export interface OutputObject {
+    owner: string;
+    resultId: bigint;
+    legacyId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlanGeneratedEvent {
+  export type InputTuple = [
+    resultId: BigNumberish,
+    planId: BigNumberish,
+    policyVersion: BigNumberish
+  ];
+  export type OutputTuple = [
+    resultId: bigint,
+    planId: bigint,
+    policyVersion: bigint
+  ];
+  export interface OutputObject {
+    resultId: bigint;
+    planId: bigint;
+    policyVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlanPolicyPublishedEvent {
+  export type InputTuple = [version: BigNumberish, publisher: AddressLike];
+  export type OutputTuple = [version: bigint, publisher: string];
+  export interface OutputObject {
+    version: bigint;
+    publisher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlanStatusChangedEvent {
+  export type InputTuple = [
+    planId: BigNumberish,
+    previous: BigNumberish,
+    next: BigNumberish,
+    timestamp: BigNumberish,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    planId: bigint,
+    previous: bigint,
+    next: bigint,
+    timestamp: bigint,
+    expiresAt: bigint
+  ];
+  export interface OutputObject {
+    planId: bigint;
+    previous: bigint;
+    next: bigint;
+    timestamp: bigint;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProgressUpdatedEvent {
+  export type InputTuple = [
+    planId: BigNumberish,
+    user: AddressLike,
+    session: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    planId: bigint,
+    user: string,
+    session: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    planId: bigint;
+    user: string;
+    session: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionScoredEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    planId: BigNumberish,
+    exerciseCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    planId: bigint,
+    exerciseCount: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    planId: bigint;
+    exerciseCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TestSubmittedEvent {
+  export type InputTuple = [
+    resultId: BigNumberish,
+    owner: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    resultId: bigint,
+    owner: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    resultId: bigint;
+    owner: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TherapistAccessGrantedEvent {
+  export type InputTuple = [user: AddressLike, therapist: AddressLike];
+  export type OutputTuple = [user: string, therapist: string];
+  export interface OutputObject {
+    user: string;
+    therapist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TherapistAccessRevokedEvent {
+  export type InputTuple = [user: AddressLike, therapist: AddressLike];
+  export type OutputTuple = [user: string, therapist: string];
+  export interface OutputObject {
+    user: string;
+    therapist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TherapistHistorySharedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    therapist: AddressLike,
+    shared: BigNumberish,
+    total: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    therapist: string,
+    shared: bigint,
+    total: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    therapist: string;
+    shared: bigint;
+    total: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TherapistRegisteredEvent {
+  export type InputTuple = [therapist: AddressLike];
+  export type OutputTuple = [therapist: string];
+  export interface OutputObject {
+    therapist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TherapistRemovedEvent {
+  export type InputTuple = [therapist: AddressLike];
+  export type OutputTuple = [therapist: string];
+  export interface OutputObject {
+    therapist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CognitiveEnhanceFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): CognitiveEnhanceFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: CognitiveEnhanceFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DECRYPTION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CURVE_SLOPE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SCORE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SHARE_PAGE: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_COHORT_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  PLAN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  REST_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  admin: TypedContractMethod<[], [string], "view">;
+
+  cancelCohortRequest: TypedContractMethod<
+    [requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cohortAverages: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        memoryAverage: bigint;
+        attentionAverage: bigint;
+        processingAverage: bigint;
+        flexibilityAverage: bigint;
+        cohortSize: bigint;
+        revealedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  cohortContributors: TypedContractMethod<[], [bigint], "view">;
+
+  cohortRound: TypedContractMethod<[], [bigint], "view">;
+
+  cohortSize: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, bigint, bigint, bigint, bigint, boolean] & {
+        kind: bigint;
+        subject: bigint;
+        requester: string;
+        requestedBlock: bigint;
+        requestedAt: bigint;
+        settledAt: bigint;
+        status: bigint;
+        consumed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  defaultPlanPolicy: TypedContractMethod<[], [bigint], "view">;
+
+  getEncryptedDifficulty: TypedContractMethod<
+    [user: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getEncryptedProgress: TypedContractMethod<
+    [user: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getEncryptedSessionAverage: TypedContractMethod<
+    [user: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getHistoryShare: TypedContractMethod<
+    [user: AddressLike, therapist: AddressLike],
+    [[bigint, bigint] & { shared: bigint; total: bigint }],
+    "view"
+  >;
+
+  getLegacyImport: TypedContractMethod<
+    [owner: AddressLike, legacyId: string],
+    [bigint],
+    "view"
+  >;
+
+  getOwnerResultCount: TypedContractMethod<
+    [owner: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getOwnerResultIds: TypedContractMethod<
+    [owner: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getPatientResults: TypedContractMethod<
+    [user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getPlanPolicy: TypedContractMethod<
+    [version: BigNumberish],
+    [CognitiveEnhanceFHE.PlanPolicyStructOutput],
+    "view"
+  >;
+
+  getProgressHistory: TypedContractMethod<
+    [user: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [CognitiveEnhanceFHE.ProgressEntryStructOutput[]],
+    "view"
+  >;
+
+  getProgressHistoryCount: TypedContractMethod<
+    [user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getUserTherapists: TypedContractMethod<
+    [user: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  grantTherapistAccess: TypedContractMethod<
+    [therapist: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasTherapistAccess: TypedContractMethod<
+    [user: AddressLike, therapist: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  importLegacyRecord: TypedContractMethod<
+    [
+      legacyId: string,
+      memoryScore: BytesLike,
+      attentionScore: BytesLike,
+      processingScore: BytesLike,
+      flexibilityScore: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  lastCohortRequestId: TypedContractMethod<[], [bigint], "view">;
+
+  lastCohortRequestSize: TypedContractMethod<[], [bigint], "view">;
+
+  planExpiresAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  planLastSessionAt: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  planPolicyCount: TypedContractMethod<[], [bigint], "view">;
+
+  planPolicyPublishedAt: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  planResultIds: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  planSessionCounts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  planStatusTimestamps: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  planStatuses: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  publishPlanPolicy: TypedContractMethod<
+    [policy: CognitiveEnhanceFHE.PlanPolicyStruct],
+    [bigint],
+    "nonpayable"
+  >;
+
+  registerTherapist: TypedContractMethod<
+    [therapist: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeTherapist: TypedContractMethod<
+    [therapist: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestCohortAverages: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  requestTrainingPlan: TypedContractMethod<
+    [resultId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestTrainingPlanWithPolicy: TypedContractMethod<
+    [resultId: BigNumberish, policyVersion: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  resultLegacyIds: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  resultPlanIds: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  revealCohortAverages: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeTherapistAccess: TypedContractMethod<
+    [therapist: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setDefaultPlanPolicy: TypedContractMethod<
+    [version: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  shareHistoryWithTherapist: TypedContractMethod<
+    [therapist: AddressLike, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitSessionScores: TypedContractMethod<
+    [planId: BigNumberish, scores: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitTestResults: TypedContractMethod<
+    [
+      memoryScore: BytesLike,
+      attentionScore: BytesLike,
+      processingScore: BytesLike,
+      flexibilityScore: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  testResultCount: TypedContractMethod<[], [bigint], "view">;
+
+  testResults: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, string, bigint] & {
+        resultId: bigint;
+        owner: string;
+        encryptedMemoryScore: string;
+        encryptedAttentionScore: string;
+        encryptedProcessingScore: string;
+        encryptedFlexibilityScore: string;
+        encryptedInRange: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  therapistAccess: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  therapists: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  trainingPlanCount: TypedContractMethod<[], [bigint], "view">;
+
+  trainingPlans: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint] & {
+        planId: bigint;
+        encryptedMemoryExercises: string;
+        encryptedAttentionExercises: string;
+        encryptedProcessingExercises: string;
+        encryptedFlexibilityExercises: string;
+        policyVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  transferAdmin: TypedContractMethod<
+    [newAdmin: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transitionPlan: TypedContractMethod<
+    [planId: BigNumberish, next: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  updateProgress: TypedContractMethod<
+    [planId: BigNumberish, progress: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DECRYPTION_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CURVE_SLOPE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SCORE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SHARE_PAGE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_COHORT_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PLAN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REST_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "admin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "cancelCohortRequest"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cohortAverages"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        memoryAverage: bigint;
+        attentionAverage: bigint;
+        processingAverage: bigint;
+        flexibilityAverage: bigint;
+        cohortSize: bigint;
+        revealedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cohortContributors"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cohortRound"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cohortSize"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, bigint, bigint, bigint, bigint, boolean] & {
+        kind: bigint;
+        subject: bigint;
+        requester: string;
+        requestedBlock: bigint;
+        requestedAt: bigint;
+        settledAt: bigint;
+        status: bigint;
+        consumed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "defaultPlanPolicy"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedDifficulty"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedProgress"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedSessionAverage"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getHistoryShare"
+  ): TypedContractMethod<
+    [user: AddressLike, therapist: AddressLike],
+    [[bigint, bigint] & { shared: bigint; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLegacyImport"
+  ): TypedContractMethod<
+    [owner: AddressLike, legacyId: string],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOwnerResultCount"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOwnerResultIds"
+  ): TypedContractMethod<
+    [owner: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPatientResults"
+  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getPlanPolicy"
+  ): TypedContractMethod<
+    [version: BigNumberish],
+    [CognitiveEnhanceFHE.PlanPolicyStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProgressHistory"
+  ): TypedContractMethod<
+    [user: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [CognitiveEnhanceFHE.ProgressEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProgressHistoryCount"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getUserTherapists"
+  ): TypedContractMethod<[user: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "grantTherapistAccess"
+  ): TypedContractMethod<[therapist: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "hasTherapistAccess"
+  ): TypedContractMethod<
+    [user: AddressLike, therapist: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "importLegacyRecord"
+  ): TypedContractMethod<
+    [
+      legacyId: string,
+      memoryScore: BytesLike,
+      attentionScore: BytesLike,
+      processingScore: BytesLike,
+      flexibilityScore: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "lastCohortRequestId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastCohortRequestSize"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planExpiresAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planLastSessionAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planPolicyCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planPolicyPublishedAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planResultIds"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planSessionCounts"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planStatusTimestamps"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "planStatuses"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "publishPlanPolicy"
+  ): TypedContractMethod<
+    [policy: CognitiveEnhanceFHE.PlanPolicyStruct],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerTherapist"
+  ): TypedContractMethod<[therapist: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeTherapist"
+  ): TypedContractMethod<[therapist: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestCohortAverages"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestTrainingPlan"
+  ): TypedContractMethod<[resultId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestTrainingPlanWithPolicy"
+  ): TypedContractMethod<
+    [resultId: BigNumberish, policyVersion: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resultLegacyIds"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "resultPlanIds"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revealCohortAverages"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeTherapistAccess"
+  ): TypedContractMethod<[therapist: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDefaultPlanPolicy"
+  ): TypedContractMethod<[version: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "shareHistoryWithTherapist"
+  ): TypedContractMethod<
+    [therapist: AddressLike, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitSessionScores"
+  ): TypedContractMethod<
+    [planId: BigNumberish, scores: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitTestResults"
+  ): TypedContractMethod<
+    [
+      memoryScore: BytesLike,
+      attentionScore: BytesLike,
+      processingScore: BytesLike,
+      flexibilityScore: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "testResultCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "testResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, string, bigint] & {
+        resultId: bigint;
+        owner: string;
+        encryptedMemoryScore: string;
+        encryptedAttentionScore: string;
+        encryptedProcessingScore: string;
+        encryptedFlexibilityScore: string;
+        encryptedInRange: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "therapistAccess"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "therapists"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "trainingPlanCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "trainingPlans"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint] & {
+        planId: bigint;
+        encryptedMemoryExercises: string;
+        encryptedAttentionExercises: string;
+        encryptedProcessingExercises: string;
+        encryptedFlexibilityExercises: string;
+        policyVersion: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "transferAdmin"
+  ): TypedContractMethod<[newAdmin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transitionPlan"
+  ): TypedContractMethod<
+    [planId: BigNumberish, next: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateProgress"
+  ): TypedContractMethod<
+    [planId: BigNumberish, progress: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AdminTransferred"
+  ): TypedContractEvent<
+    AdminTransferredEvent.InputTuple,
+    AdminTransferredEvent.OutputTuple,
+    AdminTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CohortAveragesRevealed"
+  ): TypedContractEvent<
+    CohortAveragesRevealedEvent.InputTuple,
+    CohortAveragesRevealedEvent.OutputTuple,
+    CohortAveragesRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CohortRevealCancelled"
+  ): TypedContractEvent<
+    CohortRevealCancelledEvent.InputTuple,
+    CohortRevealCancelledEvent.OutputTuple,
+    CohortRevealCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "CohortRevealRequested"
+  ): TypedContractEvent<
+    CohortRevealRequestedEvent.InputTuple,
+    CohortRevealRequestedEvent.OutputTuple,
+    CohortRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CohortRevealSuperseded"
+  ): TypedContractEvent<
+    CohortRevealSupersededEvent.InputTuple,
+    CohortRevealSupersededEvent.OutputTuple,
+    CohortRevealSupersededEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DefaultPlanPolicyChanged"
+  ): TypedContractEvent<
+    DefaultPlanPolicyChangedEvent.InputTuple,
+    DefaultPlanPolicyChangedEvent.OutputTuple,
+    DefaultPlanPolicyChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LegacyRecordImported"
+  ): TypedContractEvent<
+    LegacyRecordImportedEvent.InputTuple,
+    LegacyRecordImportedEvent.OutputTuple,
+    LegacyRecordImportedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlanGenerated"
+  ): TypedContractEvent<
+    PlanGeneratedEvent.InputTuple,
+    PlanGeneratedEvent.OutputTuple,
+    PlanGeneratedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlanPolicyPublished"
+  ): TypedContractEvent<
+    PlanPolicyPublishedEvent.InputTuple,
+    PlanPolicyPublishedEvent.OutputTuple,
+    PlanPolicyPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlanStatusChanged"
+  ): TypedContractEvent<
+    PlanStatusChangedEvent.InputTuple,
+    PlanStatusChangedEvent.OutputTuple,
+    PlanStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProgressUpdated"
+  ): TypedContractEvent<
+    ProgressUpdatedEvent.InputTuple,
+    ProgressUpdatedEvent.OutputTuple,
+    ProgressUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionScored"
+  ): TypedContractEvent<
+    SessionScoredEvent.InputTuple,
+    SessionScoredEvent.OutputTuple,
+    SessionScoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "TestSubmitted"
+  ): TypedContractEvent<
+    TestSubmittedEvent.InputTuple,
+    TestSubmittedEvent.OutputTuple,
+    TestSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TherapistAccessGranted"
+  ): TypedContractEvent<
+    TherapistAccessGrantedEvent.InputTuple,
+    TherapistAccessGrantedEvent.OutputTuple,
+    TherapistAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TherapistAccessRevoked"
+  ): TypedContractEvent<
+    TherapistAccessRevokedEvent.InputTuple,
+    TherapistAccessRevokedEvent.OutputTuple,
+    TherapistAccessRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TherapistHistoryShared"
+  ): TypedContractEvent<
+    TherapistHistorySharedEvent.InputTuple,
+    TherapistHistorySharedEvent.OutputTuple,
+    TherapistHistorySharedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TherapistRegistered"
+  ): TypedContractEvent<
+    TherapistRegisteredEvent.InputTuple,
+    TherapistRegisteredEvent.OutputTuple,
+    TherapistRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "TherapistRemoved"
+  ): TypedContractEvent<
+    TherapistRemovedEvent.InputTuple,
+    TherapistRemovedEvent.OutputTuple,
+    TherapistRemovedEvent.OutputObject
+  >;
+
+  filters: {
+    "AdminTransferred(address,address)": TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+    AdminTransferred: TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+
+    "CohortAveragesRevealed(uint256,uint256)": TypedContractEvent<
+      CohortAveragesRevealedEvent.InputTuple,
+      CohortAveragesRevealedEvent.OutputTuple,
+      CohortAveragesRevealedEvent.OutputObject
+    >;
+    CohortAveragesRevealed: TypedContractEvent<
+      CohortAveragesRevealedEvent.InputTuple,
+      CohortAveragesRevealedEvent.OutputTuple,
+      CohortAveragesRevealedEvent.OutputObject
+    >;
+
+    "CohortRevealCancelled(uint256,address)": TypedContractEvent<
+      CohortRevealCancelledEvent.InputTuple,
+      CohortRevealCancelledEvent.OutputTuple,
+      CohortRevealCancelledEvent.OutputObject
+    >;
+    CohortRevealCancelled: TypedContractEvent<
+      CohortRevealCancelledEvent.InputTuple,
+      CohortRevealCancelledEvent.OutputTuple,
+      CohortRevealCancelledEvent.OutputObject
+    >;
+
+    "CohortRevealRequested(uint256,uint256)": TypedContractEvent<
+      CohortRevealRequestedEvent.InputTuple,
+      CohortRevealRequestedEvent.OutputTuple,
+      CohortRevealRequestedEvent.OutputObject
+    >;
+    CohortRevealRequested: TypedContractEvent<
+      CohortRevealRequestedEvent.InputTuple,
+      CohortRevealRequestedEvent.OutputTuple,
+      CohortRevealRequestedEvent.OutputObject
+    >;
+
+    "CohortRevealSuperseded(uint256,uint256)": TypedContractEvent<
+      CohortRevealSupersededEvent.InputTuple,
+      CohortRevealSupersededEvent.OutputTuple,
+      CohortRevealSupersededEvent.OutputObject
+    >;
+    CohortRevealSuperseded: TypedContractEvent<
+      CohortRevealSupersededEvent.InputTuple,
+      CohortRevealSupersededEvent.OutputTuple,
+      CohortRevealSupersededEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DefaultPlanPolicyChanged(uint256,uint256)": TypedContractEvent<
+      DefaultPlanPolicyChangedEvent.InputTuple,
+      DefaultPlanPolicyChangedEvent.OutputTuple,
+      DefaultPlanPolicyChangedEvent.OutputObject
+    >;
+    DefaultPlanPolicyChanged: TypedContractEvent<
+      DefaultPlanPolicyChangedEvent.InputTuple,
+      DefaultPlanPolicyChangedEvent.OutputTuple,
+      DefaultPlanPolicyChangedEvent.OutputObject
+    >;
+
+    "LegacyRecordImported(address,uint256,string)": TypedContractEvent<
+      LegacyRecordImportedEvent.InputTuple,
+      LegacyRecordImportedEvent.OutputTuple,
+      LegacyRecordImportedEvent.OutputObject
+    >;
+    LegacyRecordImported: TypedContractEvent<
+      LegacyRecordImportedEvent.InputTuple,
+      LegacyRecordImportedEvent.OutputTuple,
+      LegacyRecordImportedEvent.OutputObject
+    >;
+
+    "PlanGenerated(uint256,uint256,uint256)": TypedContractEvent<
+      PlanGeneratedEvent.InputTuple,
+      PlanGeneratedEvent.OutputTuple,
+      PlanGeneratedEvent.OutputObject
+    >;
+    PlanGenerated: TypedContractEvent<
+      PlanGeneratedEvent.InputTuple,
+      PlanGeneratedEvent.OutputTuple,
+      PlanGeneratedEvent.OutputObject
+    >;
+
+    "PlanPolicyPublished(uint256,address)": TypedContractEvent<
+      PlanPolicyPublishedEvent.InputTuple,
+      PlanPolicyPublishedEvent.OutputTuple,
+      PlanPolicyPublishedEvent.OutputObject
+    >;
+    PlanPolicyPublished: TypedContractEvent<
+      PlanPolicyPublishedEvent.InputTuple,
+      PlanPolicyPublishedEvent.OutputTuple,
+      PlanPolicyPublishedEvent.OutputObject
+    >;
+
+    "PlanStatusChanged(uint256,uint8,uint8,uint256,uint256)": TypedContractEvent<
+      PlanStatusChangedEvent.InputTuple,
+      PlanStatusChangedEvent.OutputTuple,
+      PlanStatusChangedEvent.OutputObject
+    >;
+    PlanStatusChanged: TypedContractEvent<
+      PlanStatusChangedEvent.InputTuple,
+      PlanStatusChangedEvent.OutputTuple,
+      PlanStatusChangedEvent.OutputObject
+    >;
+
+    "ProgressUpdated(uint256,address,uint256,uint256)": TypedContractEvent<
+      ProgressUpdatedEvent.InputTuple,
+      ProgressUpdatedEvent.OutputTuple,
+      ProgressUpdatedEvent.OutputObject
+    >;
+    ProgressUpdated: TypedContractEvent<
+      ProgressUpdatedEvent.InputTuple,
+      ProgressUpdatedEvent.OutputTuple,
+      ProgressUpdatedEvent.OutputObject
+    >;
+
+    "SessionScored(address,uint256,uint256)": TypedContractEvent<
+      SessionScoredEvent.InputTuple,
+      SessionScoredEvent.OutputTuple,
+      SessionScoredEvent.OutputObject
+    >;
+    SessionScored: TypedContractEvent<
+      SessionScoredEvent.InputTuple,
+      SessionScoredEvent.OutputTuple,
+      SessionScoredEvent.OutputObject
+    >;
+
+    "TestSubmitted(uint256,address,uint256)": TypedContractEvent<
+      TestSubmittedEvent.InputTuple,
+      TestSubmittedEvent.OutputTuple,
+      TestSubmittedEvent.OutputObject
+    >;
+    TestSubmitted: TypedContractEvent<
+      TestSubmittedEvent.InputTuple,
+      TestSubmittedEvent.OutputTuple,
+      TestSubmittedEvent.OutputObject
+    >;
+
+    "TherapistAccessGranted(address,address)": TypedContractEvent<
+      TherapistAccessGrantedEvent.InputTuple,
+      TherapistAccessGrantedEvent.OutputTuple,
+      TherapistAccessGrantedEvent.OutputObject
+    >;
+    TherapistAccessGranted: TypedContractEvent<
+      TherapistAccessGrantedEvent.InputTuple,
+      TherapistAccessGrantedEvent.OutputTuple,
+      TherapistAccessGrantedEvent.OutputObject
+    >;
+
+    "TherapistAccessRevoked(address,address)": TypedContractEvent<
+      TherapistAccessRevokedEvent.InputTuple,
+      TherapistAccessRevokedEvent.OutputTuple,
+      TherapistAccessRevokedEvent.OutputObject
+    >;
+    TherapistAccessRevoked: TypedContractEvent<
+      TherapistAccessRevokedEvent.InputTuple,
+      TherapistAccessRevokedEvent.OutputTuple,
+      TherapistAccessRevokedEvent.OutputObject
+    >;
+
+    "TherapistHistoryShared(address,address,uint256,uint256)": TypedContractEvent<
+      TherapistHistorySharedEvent.InputTuple,
+      TherapistHistorySharedEvent.OutputTuple,
+      TherapistHistorySharedEvent.OutputObject
+    >;
+    TherapistHistoryShared: TypedContractEvent<
+      TherapistHistorySharedEvent.InputTuple,
+      TherapistHistorySharedEvent.OutputTuple,
+      TherapistHistorySharedEvent.OutputObject
+    >;
+
+    "TherapistRegistered(address)": TypedContractEvent<
+      TherapistRegisteredEvent.InputTuple,
+      TherapistRegisteredEvent.OutputTuple,
+      TherapistRegisteredEvent.OutputObject
+    >;
+    TherapistRegistered: TypedContractEvent<
+      TherapistRegisteredEvent.InputTuple,
+      TherapistRegisteredEvent.OutputTuple,
+      TherapistRegisteredEvent.OutputObject
+    >;
+
+    "TherapistRemoved(address)": TypedContractEvent<
+      TherapistRemovedEvent.InputTuple,
+      TherapistRemovedEvent.OutputTuple,
+      TherapistRemovedEvent.OutputObject
+    >;
+    TherapistRemoved: TypedContractEvent<
+      TherapistRemovedEvent.InputTuple,
+      TherapistRemovedEvent.OutputTuple,
+      TherapistRemovedEvent.OutputObject
+    >;
+  };
+}
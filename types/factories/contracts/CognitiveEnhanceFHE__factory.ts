@@ -0,0 +1,1882 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CognitiveEnhanceFHE,
+  CognitiveEnhanceFHEInterface,
+} from "../../contracts/CognitiveEnhanceFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousAdmin",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "AdminTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cohortSize",
+        type: "uint256",
+      },
+    ],
+    name: "CohortAveragesRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "CohortRevealCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cohortSize",
+        type: "uint256",
+      },
+    ],
+    name: "CohortRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cohortSize",
+        type: "uint256",
+      },
+    ],
+    name: "CohortRevealSuperseded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "previousVersion",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newVersion",
+        type: "uint256",
+      },
+    ],
+    name: "DefaultPlanPolicyChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "legacyId",
+        type: "string",
+      },
+    ],
+    name: "LegacyRecordImported",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "policyVersion",
+        type: "uint256",
+      },
+    ],
+    name: "PlanGenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "publisher",
+        type: "address",
+      },
+    ],
+    name: "PlanPolicyPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum CognitiveEnhanceFHE.PlanStatus",
+        name: "previous",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum CognitiveEnhanceFHE.PlanStatus",
+        name: "next",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "PlanStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "session",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ProgressUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "exerciseCount",
+        type: "uint256",
+      },
+    ],
+    name: "SessionScored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "TestSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "TherapistAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "TherapistAccessRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shared",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    name: "TherapistHistoryShared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "TherapistRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "TherapistRemoved",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DECRYPTION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CURVE_SLOPE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SCORE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SHARE_PAGE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_COHORT_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PLAN_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "REST_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelCohortRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cohortAverages",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "memoryAverage",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "attentionAverage",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "processingAverage",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "flexibilityAverage",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "cohortSize",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cohortContributors",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cohortRound",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cohortSize",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionRequests",
+    outputs: [
+      {
+        internalType: "enum CognitiveEnhanceFHE.RequestKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "subject",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedBlock",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "settledAt",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CognitiveEnhanceFHE.DecryptionRequestStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "consumed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultPlanPolicy",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedDifficulty",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedProgress",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedSessionAverage",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "getHistoryShare",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "shared",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "legacyId",
+        type: "string",
+      },
+    ],
+    name: "getLegacyImport",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getOwnerResultCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getOwnerResultIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getPatientResults",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "getPlanPolicy",
+    outputs: [
+      {
+        components: [
+          {
+            components: [
+              {
+                internalType: "uint32",
+                name: "base",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "slope",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "floor",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "ceiling",
+                type: "uint32",
+              },
+            ],
+            internalType: "struct CognitiveEnhanceFHE.IntensityCurve[4]",
+            name: "curves",
+            type: "tuple[4]",
+          },
+          {
+            internalType: "uint32",
+            name: "minSessions",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxSessions",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "sessionsPerRestDay",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CognitiveEnhanceFHE.PlanPolicy",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getProgressHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "planId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "session",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedProgress",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedTotal",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedAverage",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct CognitiveEnhanceFHE.ProgressEntry[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getProgressHistoryCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserTherapists",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "grantTherapistAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "hasTherapistAccess",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "legacyId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "memoryScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "attentionScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "processingScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "flexibilityScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "importLegacyRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lastCohortRequestId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lastCohortRequestSize",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "planExpiresAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "planLastSessionAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "planPolicyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "planPolicyPublishedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "planResultIds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "planSessionCounts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CognitiveEnhanceFHE.PlanStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "planStatusTimestamps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "planStatuses",
+    outputs: [
+      {
+        internalType: "enum CognitiveEnhanceFHE.PlanStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            components: [
+              {
+                internalType: "uint32",
+                name: "base",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "slope",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "floor",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "ceiling",
+                type: "uint32",
+              },
+            ],
+            internalType: "struct CognitiveEnhanceFHE.IntensityCurve[4]",
+            name: "curves",
+            type: "tuple[4]",
+          },
+          {
+            internalType: "uint32",
+            name: "minSessions",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxSessions",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "sessionsPerRestDay",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CognitiveEnhanceFHE.PlanPolicy",
+        name: "policy",
+        type: "tuple",
+      },
+    ],
+    name: "publishPlanPolicy",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "registerTherapist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "removeTherapist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestCohortAverages",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+    ],
+    name: "requestTrainingPlan",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "policyVersion",
+        type: "uint256",
+      },
+    ],
+    name: "requestTrainingPlanWithPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "resultLegacyIds",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "resultPlanIds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "revealCohortAverages",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+    ],
+    name: "revokeTherapistAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "setDefaultPlanPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "therapist",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "shareHistoryWithTherapist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "scores",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitSessionScores",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "memoryScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "attentionScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "processingScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "flexibilityScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitTestResults",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "testResultCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "testResults",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedMemoryScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAttentionScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedProcessingScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedFlexibilityScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedInRange",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "therapistAccess",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "therapists",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "trainingPlanCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "trainingPlans",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedMemoryExercises",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAttentionExercises",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedProcessingExercises",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedFlexibilityExercises",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "policyVersion",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "transferAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CognitiveEnhanceFHE.PlanStatus",
+        name: "next",
+        type: "uint8",
+      },
+    ],
+    name: "transitionPlan",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "planId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "progress",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateProgress",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620005d75762000015620005fb565b5062000020620005db565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80825273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6990602091808385015273a02cda4ca3a71d7c46997716f4283aa851c288128086860152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac918260608097015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039082825416179055600190816013553390601b541617601b55335f7ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec68180a36200017b620005db565b845190919060808082016001600160401b03811183821017620005c3578752845f5b828110620005ac575050508252828201915f83528581015f8152858201915f8352835f5b600481106200056857505f905b62000498575b5063ffffffff9384835116801590811562000489575b50156200044557600b5497818901809911620004315788600b55885f5260098852895f20925183895f925b8d6004851062000380578d836200028e8e8e8e620002698f8f9084600481930196511663ffffffff198754161786555116849067ffffffff0000000082549160201b169067ffffffff000000001916179055565b51825463ffffffff60401b1916911660401b6bffffffff000000000000000016179055565b600a815242835f205533827f02e6cb2f9c916a983d68b1252c39d23c82cd2c1e461ac2291818e87f856f4aa85f80a3601b546001600160a01b031633036200035157815f52600a8152825f2054156200031d575080600c549251927f2b2d6ac13535bee56351384ebf489be35aabc52965b6164fa332f75e92a6cae25f80a3600c556150a69081620006448239f35b60649083519062461bcd60e51b82526004820152600e60248201526d556e6b6e6f776e20706f6c69637960901b6044820152fd5b60649083519062461bcd60e51b8252600482015260096024820152682737ba1030b236b4b760b91b6044820152fd5b9181868894620003f28e879651928184511663ffffffff198b5416178a55620003cb8288860151168b9067ffffffff0000000082549160201b169067ffffffff000000001916179055565b830151895463ffffffff60401b1916911660401b6bffffffff000000000000000016178855565b01516fffffffff000000000000000000000000865491891b16906fffffffff0000000000000000000000001916178555019201920191908a9062000215565b634e487b7160e01b5f52601160045260245ffd5b885162461bcd60e51b815260048101889052601660248201527f496e76616c69642073657373696f6e206c696d697473000000000000000000006044820152606490fd5b90508587511611155f620001ea565b87600480831015620005605788620004b28486516200061d565b518c606494859263ffffffff928484835116111595866200054c575b508562000534575b508462000523575b5050505015620004f3575050840184620001ce565b8a5162461bcd60e51b8152908101899052600d60248201526c496e76616c696420637572766560981b6044820152fd5b01511611159050825f8c81620004de565b81849296500151168282860151161015938f620004d6565b8201516103e8908516111595508e620004ce565b5050620001d4565b620005a2818b8a5f6200057a620005db565b92606480938186528501528301528c8201528551906200059b83836200061d565b526200061d565b50018490620001c1565b620005b6620005fb565b818501520185906200019d565b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b60405190608082016001600160401b03811183821017620005c357604052565b62000605620005db565b905f82525f60208301525f60408301525f6060830152565b9060048110156200062f5760051b0190565b634e487b7160e01b5f52603260045260245ffdfe60806040526004361015610011575f80fd5b5f803560e01c80630606c1c3146132ac57806307b8f3a91461323e5780630b37c02d146132085780630c6795a8146131395780630eabb80c146130b2578063117cf7c614613095578063142074dd146130195780631cbc398f14612ffc5780632245c0a014612fe05780632613138614612f3657806327ff622314612f1b5780632863f7ec14612efe5780632a71187514612ea95780632e1505d114612e755780632facf3b314612b2a5780633719b93114612b0d5780633813108914612af05780633cf91ccd14612a7157806341669ff714612a1a5780634a4f2aa7146129ee57806360f5b124146129c45780636223ccac1461298d5780636249e36f146124dd57806362eb50d0146124c1578063683da3a2146124a35780636e30bc9e1461248657806370c414b21461245b578063753d0751146121d657806375829def1461215f57806377da543e14611dc1578063783df01014611d775780637ef7644614611d3e578063824313e514611cff5780638b08cc7114611cd55780638be1264114611b465780638c65897c14611af45780639ab61fe214611abb5780639ccdd20714611a915780639d88bd2d14611a735780639e90722214611a495780639f19289d14611a1f578063aa8e979f14611891578063b91c67fc1461182f578063bfcfb483146116a5578063c033746714611687578063c334cba214611615578063c6db8129146115f7578063c7c9a561146115cd578063cc2f025414611594578063cdf230b714611541578063d3722d0114611478578063da1f12ab1461145b578063dab963e314611422578063dd7eb1b5146113b3578063e03f60af1461134e578063e11dea5c146110dc578063e3658cf3146110bf578063e4daade914610e3b578063e7ff3b1514610c23578063e9861a5914610c07578063f5f1541c14610be9578063f7cc1f6d14610b3a578063f851a44014610b115763fe693d56146102da575f80fd5b34610b0e576060366003190112610b0e576024356001600160401b03808211610b0a5736602383011215610b0a5780826004013511610b0a57600590366024846004013560051b85010111610b0657604435908111610b0657610341903690600401613667565b6004358552600560205260408520548552600260205260019261037360018060a01b0385604089200154163314613a86565b61038661038160043561408b565b613ac3565b8460040135151580610af7575b15610abb576103a5856004013561387c565b926103b3604051948561358e565b6004860135808552601f19906103c89061387c565b0136602086013784875b87600401358110610a8c5750505050506103ea614fdb565b908483805b610a52575b50509063ffffffff61040892511690614375565b338452602960205260408420549182156109cc575b5f8391841592836109ba575b5f8051602061507a8339815191525460405163022f65e760e31b8152600481019290925260248201839052600160f81b6044830152909260209184916064918391906001600160a01b03165af180156108dd575f90610988575b5f92508015610976575b5f8051602061507a833981519152546040516304559f7160e01b8152600481019290925260056024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af19182156108dd575f92610942575b505f91928590610930575b5f8051602061507a833981519152546040516303056db360e31b8152600481019290925260248201839052600160f81b6044830152909260209184916064918391906001600160a01b03165af19182156108dd575f926108fc575b5081156108e8575b5f8051602061507a83398151915254604051630d8c635960e21b815260048101939093526024830191909152600160f81b6044830152602090829060649082905f906001600160a01b03165af180156108dd5786905f906108a9575b819250848515610897575b5f8051602061507a83398151915254604051631391547f60e01b8152600481019290925260506024830152600160f81b6044830152909360209185916064918391906001600160a01b03165af192831561088c578293610855575b50848515610843575b5f8051602061507a83398151915254604051637210768160e01b8152600481019290925260326024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1918215610838578892610803575b5060646020928960018060a01b035f8051602061507a8339815191525416604051998a958694637702dcff60e01b86526004860152602485015260448401525af19384156107f85786946107c1575b509060646020928760018060a01b035f8051602061507a83398151915254166040519788958694637702dcff60e01b86526004860152602485015260448401525af19182156107b657849261077e575b5061072633826143f3565b61073033836143f3565b338452602860205260408420556029602052604083205560405190600401358152600435907f0ec0cdccba02b4c4580c61d68e7889e03e220f7dd3fc35439fb0966dc117779d60203392a380f35b9091506020813d6020116107ae575b8161079a6020938361358e565b810103126107aa5751905f61071b565b5f80fd5b3d915061078d565b6040513d86823e3d90fd5b919093506020823d6020116107f0575b816107de6020938361358e565b810103126107aa5790519260646106cb565b3d91506107d1565b6040513d88823e3d90fd5b91506020823d602011610830575b8161081e6020938361358e565b810103126107aa57905190606461067c565b3d9150610811565b6040513d8a823e3d90fd5b50602061084e614fdb565b9050610621565b915091506020813d602011610884575b816108726020938361358e565b810103126107aa57869051915f610618565b3d9150610865565b6040513d84823e3d90fd5b5060206108a2614fdb565b90506105bd565b50506020813d6020116108d5575b816108c46020938361358e565b810103126107aa57858091516105b2565b3d91506108b7565b6040513d5f823e3d90fd5b905060206108f4614fdb565b919050610556565b9091506020813d602011610928575b816109186020938361358e565b810103126107aa5751905f61054e565b3d915061090b565b50602061093b614fdb565b90506104f3565b91506020823d60201161096e575b8161095d6020938361358e565b810103126107aa575f9151916104e8565b3d9150610950565b506020610981614fdb565b905061048d565b506020823d6020116109b2575b816109a26020938361358e565b810103126107aa575f9151610483565b3d9150610995565b5060206109c5614fdb565b9050610429565b91505f602060018060a01b035f8051602061507a8339815191525416604460405180948193639cd07acb60e01b835260036004840152600460248401525af19081156108dd575f91610a20575b509161041d565b90506020813d602011610a4a575b81610a3b6020938361358e565b810103126107aa57515f610a19565b3d9150610a2e565b90928251841015610a8457610a7b8291610a75610a6f87876138da565b516141cc565b906142f1565b930190806103ef565b9250806103f4565b610aa8610a9a368786613694565b602483871b8b0101356140c5565b610ab282886138da565b520185906103d2565b60405162461bcd60e51b8152602060048201526014602482015273496e76616c69642073657373696f6e2073697a6560601b6044820152606490fd5b50600885600401351115610393565b8380fd5b8280fd5b80fd5b5034610b0e5780600319360112610b0e57601b546040516001600160a01b039091168152602090f35b5034610b0e5760209081600319360112610b0e576001600160a01b03919082610b6161348f565b168152601e82526040812090604051808484549182815201908194845285842090845b818110610bd35750505081610b9a91038261358e565b6040519380850191818652518092526040850193925b828110610bbd5785850386f35b8351871685529381019392810192600101610bb0565b8254891684529287019260019283019201610b84565b5034610b0e5780600319360112610b0e576020601254604051908152f35b5034610b0e5780600319360112610b0e57602060405160148152f35b5034610b0e576040366003190112610b0e57610c3d61348f565b60249060243590610c56610c51823361382b565b613a49565b81151580610e30575b15610df7573384526020601f8152604085209360018060a01b03831694855f52825260405f20805490610c99600192600183015490613893565b94600280830194855498888a1015610db95788610cb6828c613893565b1115610da15750879890899695949392915b8c888210610d0a5750505050505050556040519283528201527f8071b3bcceae5ac569d1166579501ea2dbb8e251d97883cc34f41917b0a1103d60403392a380f35b869798508482918b88999596979854878186105f14610d55575050926040610d3b92610d47953382528052206137b9565b90549060031b1c614e1b565b019089969594939291610cc8565b610d9c95506040600494610d7392610d7995338352522091876138b4565b906138c1565b50610d878389830154614f2e565b610d95836003830154614f2e565b0154614f2e565b610d47565b610dab908a613893565b989089969594939291610cc8565b60405162461bcd60e51b8152600481018990526016602482015275121a5cdd1bdc9e48185b1c9958591e481cda185c995960521b6044820152606490fd5b60405162461bcd60e51b8152602060048201526011602482015270496e76616c696420706167652073697a6560781b6044820152606490fd5b506014821115610c5f565b5034610b0e576040366003190112610b0e57600435906024358282526020926002845260018060a01b039160019280846040872001541680156110875780610e8d913314908115611075575b50613a49565b82855260048652604085205461103a57818552600a8652610eb360408620541515613fd5565b828552600286526040852093828652600987526040862094815495828701809711611026577fd2c79d384798b19ebb9765cedb3a2b9d0c1e09340b5e76bbb9b478bdea5175cc938383896005898e839c9b988f98610fe69986849d556040610f286002850154610f2285614012565b90614aae565b916003610f65610f418d610f22848a0154918901614012565b95610f22838c610f5b60048c0154610f2260028701614012565b9a01549201614012565b9683519a610f728c61350e565b808c52818c01958652848c0196875260608c0197885260808c0198895260a08c01998a528352522096518755518887015551600286015551600385015551600484015551910155878b52600486528860408c2055888b52600586528760408c2055610fdd3089614e1b565b01541685614eaa565b604051908152a36276a700420180421161101257600783948361100f955252604084205561454f565b80f35b634e487b7160e01b83526011600452602483fd5b634e487b7160e01b88526011600452602488fd5b60405162461bcd60e51b8152600481018790526013602482015272506c616e20616c72656164792065786973747360681b6044820152606490fd5b6110819150339061382b565b5f610e87565b60405162461bcd60e51b815260048101889052601060248201526f14995cdd5b1d081b9bdd08199bdd5b9960821b6044820152606490fd5b5034610b0e5780600319360112610b0e5760206040516103e88152f35b5034610b0e5760c0366003190112610b0e576001600160401b03600435818111610b0a5761110e903690600401613667565b909160a43581811161134a57611128903690600401613667565b9093611135368583613694565b91825160208094012095338852602184526040882087895284526040882054611312579061116e916084356064356044356024356145d1565b943387526021835260408720908752825284604087205584865260228252604086209284116112fe5783906111a384546134bb565b601f81116112b0575b508693601f831160011461122f57827f057afd498f7bf9a1c2b1639996f70a0f867b994da95d5cf083ec1f761ecd72ec958991611224575b508360011b905f198560031b1c19161790555b8160405193808552840152604083013784604084830101526040813394601f80199101168101030190a380f35b90508201355f6111e4565b808852838820601f19841695895b8781106112965750847f057afd498f7bf9a1c2b1639996f70a0f867b994da95d5cf083ec1f761ecd72ec971061127d575b5050600183811b0190556111f7565b8301355f19600386901b60f8161c191690555f8061126e565b81850135835588955060019092019190860190860161123d565b909150838752828720601f860160051c8101918487106112f4575b90601f879493920160051c01905b8181106112e657506111ac565b5f81558693506001016112d9565b90915081906112cb565b634e487b7160e01b86526041600452602486fd5b60405162461bcd60e51b815260048101859052601060248201526f105b1c9958591e481a5b5c1bdc9d195960821b6044820152606490fd5b8480fd5b5034610b0e576040366003190112610b0e5761136861348f565b60406113726134a5565b9260018060a01b038093168152601f6020522091165f526020526040805f206113a76002820154916001815491015490613893565b82519182526020820152f35b5034610b0e576020366003190112610b0e576004356113dd60018060a01b03601b541633146137f3565b808252600a6020526113f460408320541515613fd5565b80600c547f2b2d6ac13535bee56351384ebf489be35aabc52965b6164fa332f75e92a6cae28480a3600c5580f35b5034610b0e576020366003190112610b0e576020906040906001600160a01b0361144a61348f565b168152602383522054604051908152f35b5034610b0e5780600319360112610b0e5760206040516127118152f35b5034610b0e576020366003190112610b0e5760043581526017602052604081209060ff8254169060018301549060018060a01b03600285015416936003810154600482015490600660058401549301549660ff88169560405197600281101561152d578852602088015260408701526060860152608085015260a0840152600582101561151957506101009260ff9160c084015260081c16151560e0820152f35b634e487b7160e01b81526021600452602490fd5b634e487b7160e01b87526021600452602487fd5b5034610b0e5760209081600319360112610b0e57600c5460043580835260028452604083206001908101549092906001600160a01b0390811680156110875780610e8d9133149081156110755750613a49565b5034610b0e576020366003190112610b0e576020906040906001600160a01b036115bc61348f565b168152602983522054604051908152f35b5034610b0e576020366003190112610b0e5760406020916004358152602683522054604051908152f35b5034610b0e5780600319360112610b0e576020601154604051908152f35b5034610b0e576040366003190112610b0e5761162f61348f565b6024356001600160401b038111610b0a57916040916116736116576020953690600401613667565b6001600160a01b03909316845260218652848420923691613694565b848151910120825283522054604051908152f35b5034610b0e5780600319360112610b0e576020601354604051908152f35b5034610b0e576020366003190112610b0e5760043580825260176020526040822060ff815416600281101561181b5760016116e0911461404d565b60068101805460ff81166005811015611807576001036117cc57600283015461171d90336001600160a01b03918216149081156117be5750613a49565b6004830154610e1081018091116117aa57421061176d5760049060ff191617905560054291015533907fd5c0a1c93631601ec55267c48056b2005c89f50efe099a08095c342b78fd00798380a380f35b60405162461bcd60e51b815260206004820152601560248201527414995c5d595cdd081b9bdd081d1a5b5959081bdd5d605a1b6044820152606490fd5b634e487b7160e01b86526011600452602486fd5b9050601b541633145f610e87565b60405162461bcd60e51b815260206004820152601360248201527252657175657374206e6f742070656e64696e6760681b6044820152606490fd5b634e487b7160e01b86526021600452602486fd5b634e487b7160e01b84526021600452602484fd5b5034610b0e576020366003190112610b0e57604060c091600435815260036020522080549060018101549060028101546003820154906005600484015493015493604051958652602086015260408501526060840152608083015260a0820152f35b5034610b0e57602080600319360112611a1b5760405191906004356118b584613558565b6040516118c181613558565b835b608081106119e957508452828285015282604085015282606080950152808352600a82526118f660408420541515613fd5565b82526009815260408220926040519361190e85613558565b6040519061191b82613558565b8085835b600482106119c75750505060049082875201549163ffffffff9380870192858516845285606060408a01998288861c168b52019560401c16855260405196879190915b6004831061198e57610260898989818e818c511661020086015251166102208401525116610240820152f35b8360806001928a888651828151168452828682015116868501528260408201511660408501520151168882015201920192019190611962565b60018781926119d8869b989b614012565b81520193019101909196939661191f565b83906040969596516119fa81613558565b878152878382015287604082015287606082015281840152019493946118c3565b5080fd5b5034610b0e576020366003190112610b0e5760406020916004358152600a83522054604051908152f35b5034610b0e576020366003190112610b0e5760406020916004358152602783522054604051908152f35b5034610b0e5780600319360112610b0e5760206040516276a7008152f35b5034610b0e576020366003190112610b0e5760406020916004358152600583522054604051908152f35b5034610b0e576020366003190112610b0e576020906040906001600160a01b03611ae361348f565b168152602483522054604051908152f35b5034610b0e576040366003190112610b0e57611b0e61348f565b6040611b186134a5565b9260018060a01b038093168152601d6020522091165f52602052602060ff60405f2054166040519015158152f35b5034610b0e57602080600319360112611a1b57611b6161348f565b90338352601d8152604083209060018060a01b0380931691825f52815260ff60405f20541615611c9c57601e90338552601d815260408520835f52815260405f2060ff198154169055338552526040832091835b835480821015611c9257829084611bcc84886137b9565b939054600394851b1c1614611be5575050600101611bb5565b90939492915f19918281019081116110265790611c1784611c09611c3594886137b9565b905490891b1c1691866137b9565b90919060018060a01b038084549260031b9316831b921b1916179055565b82548015611c7e570192611c4984846137b9565b81939154921b1b19169055555b337f1276b3e246ac813f9512f194057aee0dd00a9f51f11b60e7c2d2bd6e601ef4e48380a380f35b634e487b7160e01b87526031600452602487fd5b5050509050611c56565b6064906040519062461bcd60e51b8252600482015260126024820152711058d8d95cdcc81b9bdd0819dc985b9d195960721b6044820152fd5b5034610b0e576020366003190112610b0e5760406020916004358152600783522054604051908152f35b5034610b0e576020366003190112610b0e5760209060ff906040906001600160a01b03611d2a61348f565b168152601c84522054166040519015158152f35b5034610b0e576020366003190112610b0e576020906040906001600160a01b03611d6661348f565b168152602883522054604051908152f35b5034610b0e5760a0366003190112610b0e576084356001600160401b038111611a1b57611dab611dbd913690600401613667565b906064356044356024356004356145d1565b5080f35b5034610b0e57610260366003190112610b0e5760405190611de182613558565b3660231215610b0e57604051611df681613558565b8061020491368311610b06576004905b8382106120fc5750508352359163ffffffff9283811681036107aa576020938483019182526102243581811681036107aa5760408401908152610244359082821682036107aa5760609460608101928352611e6c60018060a01b03601b541633146137f3565b865b600481106120535750838251168015908115612045575b501561200757600b549560019060018801809811611ff35787600b5587895260098a52604089209251838b8b925b60048410611f5a57508b8b611f228c8c8c611f02828e818f60040196511663ffffffff198754161786555116849067ffffffff0000000082549160201b169067ffffffff000000001916179055565b51825463ffffffff60401b1916911660401b63ffffffff60401b16179055565b600a835242604083205560405191817f02e6cb2f9c916a983d68b1252c39d23c82cd2c1e461ac2291818e87f856f4aa8339280a38152f35b8051805184548285015167ffffffff0000000019928e169290921667ffffffffffffffff1990911617908c1660201b67ffffffff00000000161784558692839290918790611fc68e6040838101518a5463ffffffff60401b19169216901b63ffffffff60401b16178855565b0151855463ffffffff60601b191690881b63ffffffff60601b1617855592909401939201918d9101611eb3565b634e487b7160e01b89526011600452602489fd5b60405162461bcd60e51b8152600481018990526016602482015275496e76616c69642073657373696f6e206c696d69747360501b6044820152606490fd5b90508486511611155f611e85565b61205e818351613fc4565b518588606482845116111592836120e9575b836120d2575b836120c1575b5050501561208c57600101611e6e565b60405162461bcd60e51b8152600481018a9052600d60248201526c496e76616c696420637572766560981b6044820152606490fd5b60649350015116111585885f61207c565b925081604084015116828285015116101592612076565b92506103e8828d85015116111592612070565b60808236031261134a5760405160809161211582613558565b61211e8461372c565b825260209161212e83860161372c565b8382015261213e6040860161372c565b6040820152606061215081870161372c565b90820152815201910190611e06565b5034610b0e576020366003190112610b0e5761217961348f565b601b546001600160a01b03808216926121933385146137f3565b1680926121a182151561377b565b7ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec68580a36001600160a01b03191617601b5580f35b5034610b0e576121e5366136f7565b81835260209060058252604084205484526002825261221460018060a01b036001604087200154163314613a86565b8284526006825260ff6040852054169161222e828461448a565b1561242257600792838310158061152d57600684036123d1578587528483526040872054421115612399575b611807576004831461232c575b838110156118075760011480612322575b612305575b7f0d5ccc0fdaf2613d3b3ccca919f1253361ccfb91ed8c8a4f8bdc2d757fc547eb926122f660809360ff93875f526006815260405f20938454948684168719871617905560088252426122d38460405f20613716565b55885f5281526122ee60405f2054946040519687911661365a565b84019061365a565b4260408301526060820152a280f35b6276a70042018042116117aa57848652838252604086205561227d565b5060028214612278565b84865260038252600560408720015486526009825263ffffffff60046040882001541685875260268352604087205410156122675760405162461bcd60e51b815260048101839052601060248201526f546f6f206665772073657373696f6e7360801b6044820152606490fd5b60405162461bcd60e51b815260048101849052601060248201526f141b185b881b9bdd08195e1c1a5c995960821b6044820152606490fd5b505f600584031561225a57858752848352604087205442111561225a5760405162461bcd60e51b815260048101849052600c60248201526b141b185b88195e1c1a5c995960a21b6044820152606490fd5b6064906040519062461bcd60e51b82526004820152601260248201527124b73b30b634b2103a3930b739b4ba34b7b760711b6044820152fd5b5034610b0e57612482612476612470366135f5565b91613eee565b6040519182918261361f565b0390f35b5034610b0e5780600319360112610b0e576020604051610e108152f35b5034610b0e5780600319360112610b0e576020601554604051908152f35b5034610b0e5780600319360112610b0e57602060405160058152f35b50346107aa575f3660031901126107aa57601180546015541480612952575b8015612945575b1561290d57604051916001600160401b039160a08401838111858210176128f957604052600484526020938481019060803683375f5b600481106128cf57507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080549560018060a01b0392837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541694853b156107aa57604051637d6e912360e11b81525f816024988d60048301528183816125c18d82018a614fa8565b03925af180156108dd576128bc575b50847f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156128b857886040518092633263b83b60e01b82528c600483015260608a830152818381612628606482018a614fa8565b6341669ff760e01b604483015203925af180156128ad57908991612895575b508990527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808b526040892054612883578989528a5260408820915192831161287057600160401b831161287057815483835580841061284b575b50908752888720875b838110612839575050505080545f19811461282657600101905582546040518692869289916126d98461353c565b600184528284019182526040840133815260608501914383526080860193428552601760a088019689885260c089019a60018c5260e08a019a808c52525260408c2096516002811015612813579060069796959493929160ff80198954169116178755516001870155600286019151166bffffffffffffffffffffffff60a01b8254161790555160038401555160048301555160058201550191519060058210156128005760ff61ff0084549251151560081b1692169061ffff19161717905581549283601555846016558060125560135492600184018094116127f1575050508383927ff5cef78c3a6fa1c8ad9ab8755f766e2cc3c4cb0688e200ca5cd38cb11fd5483b92601355604051908152a2604051908152f35b634e487b7160e01b8252600452fd5b634e487b7160e01b865260216004528386fd5b634e487b7160e01b8d5260216004528a8dfd5b634e487b7160e01b865260048590528386fd5b825182820155918a01916001016126ab565b828952838b8a2091820191015b81811061286557506126a2565b5f8155600101612858565b634e487b7160e01b885260416004528588fd5b604051633f06d22b60e01b8152600490fd5b61289e90613529565b6128a957875f612647565b8780fd5b6040513d8b823e3d90fd5b8880fd5b6128c7919850613529565b5f965f6125d0565b806128e8600192600d015463ffffffff87541690614375565b6128f282856138da565b5201612539565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152601060248201526f10dbda1bdc9d081d1bdbc81cdb585b1b60821b6044820152606490fd5b5060056012541015612503565b506016545f52601760205260ff600660405f200154166005811015612979576004146124fc565b634e487b7160e01b5f52602160045260245ffd5b346107aa5760203660031901126107aa576001600160a01b036129ae61348f565b165f5260208052602060405f2054604051908152f35b346107aa5760203660031901126107aa576004355f526004602052602060405f2054604051908152f35b346107aa576020612a11612a01366136f7565b905f526008835260405f20613716565b54604051908152f35b346107aa5760603660031901126107aa576001600160401b036024358181116107aa57612a4b9036906004016136d9565b6044359182116107aa57612a66612a6f9236906004016136d9565b90600435613b12565b005b346107aa5760203660031901126107aa576004355f52600260205261010060405f2080549060018060a01b0360018201541690600281015460038201546004830154906005840154926007600686015495015495604051978852602088015260408701526060860152608085015260a084015260c083015260e0820152f35b346107aa575f3660031901126107aa576020600b54604051908152f35b346107aa575f3660031901126107aa576020600c54604051908152f35b346107aa5760603660031901126107aa5760246004356044356001600160401b0381116107aa57612b5f903690600401613667565b825f939293526020906005825260405f20545f5260028252612b9160018060a01b03600160405f200154163314613a86565b612b9d6103818461408b565b825f5260038252600560405f2001545f526009825260405f2093835f526026835260405f2054916001830195868411612deb57600401549263ffffffff938481871c168015908115612e6a575b5015612e2e5760401c841680158015929083612e23575b83612dfe575b505050612d93575b612c21612c2d92612c28923691613694565b87356140c5565b6141cc565b90835f52602583528160405f20548015155f14612d8857612c5b91612c51916142f1565b915b861682614375565b612c6533846143f3565b612c6f33836143f3565b612c7933826143f3565b845f52602684528560405f2055602784524260405f2055602584528160405f2055335f5286845260405f209060405192612cb28461350e565b8684528584018881526040850190868252606086019283526080860193845260a08601944286528054600160401b811015612d7557612cf6916001820181556138c1565b969096612d6357906005959493929151875551600187015551600286015551600385015551600484015551910155335f526023825260405f205560405192835242908301527f783e0e7a44481e7e2137964a030a0d76e8e311b24ec1bceb5a2406b3ba1ec5c760403393a3005b8b634e487b7160e01b5f525f6004525ffd5b8c634e487b7160e01b5f5260416004525ffd5b50612c5b9091612c53565b845f526027845260405f2054620151808101809111612deb57421015612c0f5760405162461bcd60e51b8152600481018590526011818901527014995cdd0819185e481c995c5d5a5c9959607a1b6044820152606490fd5b87634e487b7160e01b5f5260116004525ffd5b90919250612e10570615888080612c07565b88634e487b7160e01b5f5260126004525ffd5b60018a119350612c01565b60405162461bcd60e51b8152600481018790526015818b01527414d95cdcda5bdb881b1a5b5a5d081c995858da1959605a1b6044820152606490fd5b90508811158a612bea565b346107aa5760203660031901126107aa576004355f526006602052602060ff60405f205416612ea7604051809261365a565bf35b346107aa575f3660031901126107aa5760c060185463ffffffff601954601a5491604051938181168552818160201c166020860152818160401c16604086015260601c166060840152608083015260a0820152f35b346107aa575f3660031901126107aa576020604051620151808152f35b346107aa575f3660031901126107aa57602060405160648152f35b346107aa576020806003193601126107aa57612f5061348f565b335f52601c8252612f6760ff60405f20541661373d565b6001600160a01b03165f818152601d835260408082203383528452902054612f919060ff16613a49565b5f5280805260405f209060405190818184549182815201935f52815f20915f905b828210612fc957612482856124768189038261358e565b835486529485019460019384019390910190612fb2565b346107aa575f3660031901126107aa5760205f54604051908152f35b346107aa575f3660031901126107aa576020600154604051908152f35b346107aa5760203660031901126107aa5761303261348f565b601b546001600160a01b03919061304c90831633146137f3565b1661305881151561377b565b805f52601c60205260405f20600160ff198254161790557fe09b2af3149acb9212d7d2a2bbb56cb77201f1357c496101a6634f90817462f55f80a2005b346107aa575f3660031901126107aa576020601654604051908152f35b346107aa576130c96130c3366135f5565b916138ee565b604051602091828201838352815180915283604084019201935f5b8281106130f15784840385f35b855180518552808301518584015260408082015190860152606080820151908601526080808201519086015260a090810151908501529481019460c0909301926001016130e4565b346107aa576020806003193601126107aa576004355f526022815260405f209060405191825f825461316a816134bb565b93848452600191866001821691825f146131e65750506001146131aa575b50506131969250038361358e565b6124826040519282849384528301906135d0565b8592505f52815f20905f915b8583106131ce57505061319693508201018580613188565b805483890185015287945086939092019181016131b6565b925093505061319694915060ff191682840152151560051b8201018580613188565b346107aa5760403660031901126107aa57602061323461322661348f565b61322e6134a5565b9061382b565b6040519015158152f35b346107aa5760203660031901126107aa5761325761348f565b601b546001600160a01b03919061327190831633146137f3565b16805f52601c60205260405f2060ff1981541690557fabd1e3c1a73a4c7cae690e1c731216e58961da7e6a3d3ac91330be8a778a782f5f80a2005b346107aa576020806003193601126107aa576132c661348f565b60018060a01b03811691825f52601c81526132e760ff60405f20541661373d565b6132f33384141561377b565b335f52601d815260405f20835f52815260ff60405f20541661345257335f52601d815260405f20835f52815260405f2091600192600160ff19825416179055335f52601e825260405f208054600160401b8110156128f957611c178161335f93600186940181556137b9565b335f5281805260405f205460248352600260405f205460405192613382846134f3565b835284830190815260408301905f8252335f52601f865260405f20885f52865260405f2093518455516001840155519101556029604051926133c3846134f3565b335f526023815260405f20548452335f526028815260405f205481850152335f525260405f205460408301525f5b600381106134215784337f4b1141b0f3c953ce9aec9eecb8755dc32b623eddeac001f83c048c0c1b3d5c2a5f80a3005b8061342d8592856137e2565b51613439575b016133f1565b61344d8361344783876137e2565b51614f2e565b613433565b6064906040519062461bcd60e51b8252600482015260166024820152751058d8d95cdcc8185b1c9958591e4819dc985b9d195960521b6044820152fd5b600435906001600160a01b03821682036107aa57565b602435906001600160a01b03821682036107aa57565b90600182811c921680156134e9575b60208310146134d557565b634e487b7160e01b5f52602260045260245ffd5b91607f16916134ca565b606081019081106001600160401b038211176128f957604052565b60c081019081106001600160401b038211176128f957604052565b6001600160401b0381116128f957604052565b61010081019081106001600160401b038211176128f957604052565b608081019081106001600160401b038211176128f957604052565b602081019081106001600160401b038211176128f957604052565b90601f801991011681019081106001600160401b038211176128f957604052565b5f5b8381106135c05750505f910152565b81810151838201526020016135b1565b906020916135e9815180928185528580860191016135af565b601f01601f1916010190565b60609060031901126107aa576004356001600160a01b03811681036107aa57906024359060443590565b60209060206040818301928281528551809452019301915f5b828110613646575050505090565b835185529381019392810192600101613638565b9060078210156129795752565b9181601f840112156107aa578235916001600160401b0383116107aa57602083818601950101116107aa57565b9291926001600160401b0382116128f957604051916136bd601f8201601f19166020018461358e565b8294818452818301116107aa578281602093845f960137010152565b9080601f830112156107aa578160206136f493359101613694565b90565b60409060031901126107aa576004359060243560078110156107aa5790565b906007811015612979575f5260205260405f2090565b359063ffffffff821682036107aa57565b1561374457565b60405162461bcd60e51b815260206004820152600f60248201526e139bdd0818481d1a195c985c1a5cdd608a1b6044820152606490fd5b1561378257565b60405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964206164647265737360881b6044820152606490fd5b80548210156137ce575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b9060038110156137ce5760051b0190565b156137fa57565b60405162461bcd60e51b81526020600482015260096024820152682737ba1030b236b4b760b91b6044820152606490fd5b6001600160a01b039182165f818152601c602052604090205460ff1692909183613856575b50505090565b90919250165f52601d60205260405f20905f5260205260ff60405f2054165f8080613850565b6001600160401b0381116128f95760051b60200190565b919082018092116138a057565b634e487b7160e01b5f52601160045260245ffd5b919082039182116138a057565b80548210156137ce575f52600660205f20910201905f90565b80518210156137ce5760209160051b010190565b6001600160a01b03165f908152602460209081526040918290208054909481851015613a33578161391f8287613893565b1115613a225750925b61393281856138b4565b9461393c8661387c565b956139498551978861358e565b808752613958601f199161387c565b01835f5b8281106139ea57505050815b8581106139785750505050505090565b806139e3613988600193856138c1565b5061399386846138b4565b9060058951916139a28361350e565b80548352868101548a84015260028101548b8401526003810154606084015260048101546080840152015460a08201526139dc828c6138da565b52896138da565b5001613968565b86516139f58161350e565b5f81525f838201525f888201525f60608201525f60808201525f60a082015282828b01015201849061395c565b613a2d915084613893565b92613928565b50505091505051613a4381613573565b5f815290565b15613a5057565b60405162461bcd60e51b815260206004820152600e60248201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152606490fd5b15613a8d57565b60405162461bcd60e51b815260206004820152600e60248201526d2737ba10383630b71037bbb732b960911b6044820152606490fd5b15613aca57565b60405162461bcd60e51b815260206004820152600f60248201526e506c616e206e6f742061637469766560881b6044820152606490fd5b519063ffffffff821682036107aa57565b9190825f52602090601782526040805f209160ff83541694600286101561297957613b40600180971461404d565b600684019060ff825460081c16613eaa57875f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808752845f205415613e9957885f528652835f2096845190819889918982549485815201915f52895f20905f5b8b868210613e835750505050613bba9250038861358e565b825196878701978888116138a05785018098116138a0578690855190868287519b8589019c8d81888501613bed926135af565b8201908682015203848101845201613c05908361358e565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035487516378542ead60e01b8152606060048201529485936001600160a01b03909216928492839291613c5c906064850190614fa8565b906003199182858203016024860152613c74916135d0565b90838203016044840152613c87916135d0565b03915a905f91f1908115613e79575f91613e43575b5015613e3257867f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2805461ff0019811661010017825560ff8116600581101561297957600414613e28576001850154946005429101556019548510613df25750600260ff198254161790556080818051810103126107aa57613d417f3d59e33fb2496bb12f5ba1bc551a39fef72511ab083ef7240b6b8e7d36a27ddb95613b01565b9063ffffffff60401b613d55848301613b01565b67ffffffff00000000613d766080613d6f60608701613b01565b9501613b01565b948651613d828161350e565b63ffffffff809216918282528085168b830152808716898301528716606082015288608082015260a0429101526018549563ffffffff60601b9060601b16956fffffffffffffffffffffffffffffffff19161791881b161791841b1617176018558160195542601a5551908152a2565b61ffff191661010317905550519081527f0454d395af1562ec1a5ac112050ec7737e701970506f84cc560376afb992b1029250a2565b5050505050505050565b825163cf6c44e960e01b8152600490fd5b90508581813d8311613e72575b613e5a818361358e565b810103126107aa575180151581036107aa575f613c9c565b503d613e50565b84513d5f823e3d90fd5b835485528d955090930192918101918101613ba2565b845163d66ca67560e01b8152600490fd5b835162461bcd60e51b815260048101879052601860248201527f5265717565737420616c726561647920636f6e73756d656400000000000000006044820152606490fd5b6001600160a01b03165f90815260208052604090208054909281831015613faa5781613f1a8285613893565b1115613f995750905b613f2d81836138b4565b92613f378461387c565b93613f45604051958661358e565b808552613f54601f199161387c565b01366020860137815b838110613f6b575050505090565b80613f78600192846137b9565b90549060031b1c613f92613f8c86846138b4565b886138da565b5201613f5d565b613fa4915082613893565b90613f23565b50505050604051613fba81613573565b5f81525f36813790565b9060048110156137ce5760051b0190565b15613fdc57565b60405162461bcd60e51b815260206004820152600e60248201526d556e6b6e6f776e20706f6c69637960901b6044820152606490fd5b9060405161401f81613558565b606081935463ffffffff908181168452818160201c166020850152818160401c166040850152821c16910152565b1561405457565b60405162461bcd60e51b815260206004820152600f60248201526e155b9adb9bdddb881c995c5d595cdd608a1b6044820152606490fd5b805f52600660205260ff60405f20541660078110156129795760021490816140b1575090565b90505f52600760205260405f205442111590565b60206141159260018060a01b0392835f8051602061507a8339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906135d0565b6004606483015203925af19182156108dd575f92614198575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156107aa57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156108dd5761418f575090565b6136f490613529565b9091506020813d6020116141c4575b816141b46020938361358e565b810103126107aa5751905f61412e565b3d91506141a7565b801561425f575b5f8051602061507a833981519152546040516304559f7160e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af19081156108dd575f91614230575090565b90506020813d602011614257575b8161424b6020938361358e565b810103126107aa575190565b3d915061423e565b505f602061426b614fdb565b9150506141d3565b63ffffffff9160209180156142df575b5f8051602061507a833981519152546040516304559f7160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156108dd575f91614230575090565b5060646142ea614fdb565b9050614283565b908115614365575b8015614353575b602090606460018060a01b035f8051602061507a8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156108dd575f91614230575090565b50602061435e614fdb565b9050614300565b905061436f614fdb565b906142f9565b63ffffffff9160209180156143e1575b5f8051602061507a83398151915254604051635a53accb60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156108dd575f91614230575090565b5060646143ec614fdb565b9050614385565b91906143ff3084614f2e565b6144098184614f2e565b60018060a01b038091165f526020601e6020526040805f20915f5b835481101561448157808561443b600193876137b9565b919054600392831b1c165f52601c84528660ff865f205416614460575b505001614424565b61447a9161446e84896137b9565b9054911b1c1689614f2e565b5f86614458565b50505050509050565b906007821015908161297957600183148081159182614542575b848115614532575b506007841015908161297957600585148015614525575b61451b57506129795760028314614502575050600381149081156144f7575b506144ed5750505f90565b6129795760021490565b60049150145f6144e2565b915092916129795791614513575090565b600391501490565b9550505050505090565b505f9150600685146144c3565b90506129795760038514846144ac565b505f9350600285146144a4565b805f5260066020527f0d5ccc0fdaf2613d3b3ccca919f1253361ccfb91ed8c8a4f8bdc2d757fc547eb608060ff6040805f20908154916001841984161790556008602052805f2060015f5260205242815f2055855f5260076020526145bd815f20549282519485911661365a565b6001602084015242908301526060820152a2565b909261463790959294956145fe6146116040966146048851966145f388613558565b6145fe368a8e613694565b906140c5565b86526145fe36888c613694565b976146296020988987019a8b526145fe368985613694565b958786019687523691613694565b906060810191825260018060a01b03905f8051602061507a833981519152918083541690865194639cd07acb60e01b865260019660049588878901526024975f898201528b816044815f829a5af1908115614aa4575f91614a77575b5094905f915b888310614901575050505f549a888c01809c116148ef57928b928a9592600795855f558d8951915192519351948951996146d28b61353c565b888b526002838c0193338552828d0195865260608d0196875260808d0197885260a08d0198895260c08d01998a5260e08d019a428c525f52525f2099518a558d8a019151166bffffffffffffffffffffffff60a01b825416179055516002880155516003870155518786015551600585015551600684015551910155335f52858052845f20805490600160401b8210156148dd57906147759186820181556137b9565b81549060031b9089821b915f19901b19161790556147933088614e1b565b61479d3388614eaa565b5f845b614870575b505060115483810180911161485e57908694939291601155335f5260148652835f20805490601354809203614807575b50505050507f3d514c91c8c5979321d09c7da294eb6594f8d17d8a759ff5d98fdfd11c3d6d7c9051924284523393a390565b909192939495505560125492830180931161484d57505060125582907f3d514c91c8c5979321d09c7da294eb6594f8d17d8a759ff5d98fdfd11c3d6d7c5f8080806147d5565b601190634e487b7160e01b5f52525ffd5b50601190634e487b7160e01b5f52525ffd5b828110156148d8576148828183613fc4565b51600d82018054915f83156148d0575061489d905f936142f1565b915b6148be57916148b682889594938694553090614f2e565b0190916147a0565b85603286634e487b7160e01b5f52525ffd5b92509161489f565b6147a5565b84604185634e487b7160e01b5f52525ffd5b87601188634e487b7160e01b5f52525ffd5b9091958b8d614910898b613fc4565b51908115614a67575b88865416925191631d44e90160e21b83528c830152818d815f606496878094840152600160f81b8a8401525af1908115614a5d57918f928f8e95938e925f91614a25575b50808515614a0e575b905f929115614a00575b8c8a54169151978896879563d99882d560e01b875286015284015281888401525af19081156149f657908b915f916149c5575b50966149b2610a6f828b613fc4565b6149bc828b613fc4565b52019190614699565b8092508e8092503d83116149ef575b6149de818361358e565b810103126107aa578a90515f6149a3565b503d6149d4565b8c513d5f823e3d90fd5b50614a0961502d565b614970565b9450905f91614a1b61502d565b9590919250614966565b9593965050505082813d8311614a56575b614a40818361358e565b810103126107aa578b928f928f8d91515f61495d565b503d614a36565b8e513d5f823e3d90fd5b9050614a71614fdb565b90614919565b90508b81813d8311614a9d575b614a8e818361358e565b810103126107aa57515f614693565b503d614a84565b8b513d5f823e3d90fd5b8060208084019363ffffffff938486511690606491828103614ce8575b5050845f96511685835116809111614cd7575b508482511694849260018060a01b03935f8051602061507a833981519152968686895416604460409b8c519d8e938492639cd07acb60e01b84526004840152600460248401525af1998a15614ccd575f9a614c9c575b5090869115614c8e575b84868954169a5f8b519c8d9485936303056db360e31b8552600485015260248401528160448401525af1978815614c84575f98614c55575b50878260608301511690838351168210614c3f575b5050860151169182614ba1575b50505050505090565b869495969415614c2d575b8394955416945f87519687948593630d8c635960e21b855260048501526024840152600160f81b60448401525af1928315614c2457505f92614bf6575b50505f8080808080614b98565b90809250813d8311614c1d575b614c0d818361358e565b810103126107aa57515f80614be9565b503d614c03565b513d5f823e3d90fd5b839450614c38614fdb565b9450614bac565b8892995090614c4d91614273565b97905f614b8b565b9097508481813d8311614c7d575b614c6d818361358e565b810103126107aa5751965f614b76565b503d614c63565b87513d5f823e3d90fd5b50614c97614fdb565b614b3e565b919099508682813d8311614cc6575b614cb5818361358e565b810103126107aa5790519886614b34565b503d614cab565b89513d5f823e3d90fd5b614ce19194614273565b925f614ade565b909694508615614e0b575b60018060a01b035f8051602061507a833981519152818154169260405199630afe14ad60e31b8b5260048b015260248a0152858985815f600160f81b978860448401525af19889156108dd575f99614ddc575b508815614dc3575b85929184915416985f6040519a8b948593635a53accb60e01b8552600485015284602485015260448401525af19586156108dd575f96614d94575b50845f969496614acb565b95508286813d8311614dbc575b614dab818361358e565b810103126107aa5794519484614d89565b503d614da1565b975090828592614dd1614fdb565b999150919250614d4e565b9098508581813d8311614e04575b614df4818361358e565b810103126107aa5751975f614d46565b503d614dea565b9550614e15614fdb565b95614cf3565b805f526002602052614e6582600660405f20614e3b836002830154614f2e565b614e49836003830154614f2e565b614e57836004830154614f2e565b610d95836005830154614f2e565b5f52600460205260405f20549081614e7b575050565b614ea8915f526003602052600460405f20614e9a836001830154614f2e565b610d87836002830154614f2e565b565b9190614eb68184614e1b565b60018060a01b038091165f526020601e6020526040805f20915f5b8354811015614481578085614ee8600193876137b9565b919054600392831b1c165f52601c84528660ff865f205416614f0d575b505001614ed1565b614f2791614f1b84896137b9565b9054911b1c1689614e1b565b5f86614f05565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156107aa57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108dd57614f9f5750565b614ea890613529565b9081518082526020808093019301915f5b828110614fc7575050505090565b835185529381019392810192600101614fb9565b5f8051602061507a83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156108dd575f91614230575090565b5f602060018060a01b035f8051602061507a8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af19081156108dd575f9161423057509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type CognitiveEnhanceFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CognitiveEnhanceFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CognitiveEnhanceFHE__factory extends ContractFactory {
+  constructor(...args: CognitiveEnhanceFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CognitiveEnhanceFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): CognitiveEnhanceFHE__factory {
+    return super.connect(runner) as CognitiveEnhanceFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CognitiveEnhanceFHEInterface {
+    return new Interface(_abi) as CognitiveEnhanceFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CognitiveEnhanceFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as CognitiveEnhanceFHE;
+  }
+}